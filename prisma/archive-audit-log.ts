@@ -0,0 +1,31 @@
+import 'dotenv/config';
+import { PrismaClient } from '@prisma/client';
+import { AUDIT } from '../src/config/audit.js';
+import { archiveExpiredHistory } from '../src/utils/auditArchive.js';
+
+const prisma = new PrismaClient();
+
+async function main() {
+  if (AUDIT.retentionDays <= 0) {
+    console.log('ℹ️  AUDIT_RETENTION_DAYS is not set; IP history is kept forever');
+    return;
+  }
+
+  console.log(` Archiving IP history older than ${AUDIT.retentionDays} days to ${AUDIT.archiveDir}...`);
+
+  const archives = await archiveExpiredHistory(prisma);
+  for (const archive of archives) {
+    console.log('✅ Archived', archive.entryCount, 'entries to', archive.fileName);
+  }
+
+  console.log('✨ Archiving completed!');
+}
+
+main()
+  .catch((e) => {
+    console.error('Error archiving audit log:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,93 @@
+import { PrismaClient } from '@prisma/client';
+import { changedFieldNames } from '../src/utils/auditDiff.js';
+
+const prisma = new PrismaClient();
+
+const BATCH_SIZE = 500;
+
+// Entries that really changed nothing keep an empty list, so walk by id instead of
+// re-reading the entries still without changed fields
+async function backfillIpHistory() {
+  let updated = 0;
+  let lastId: string | undefined;
+
+  for (;;) {
+    const entries = await prisma.ipHistory.findMany({
+      where: { changedFields: { isEmpty: true }, id: lastId ? { gt: lastId } : undefined },
+      select: { id: true, oldValue: true, newValue: true },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+    });
+
+    if (entries.length === 0) break;
+    lastId = entries[entries.length - 1].id;
+
+    const changed = entries
+      .map(entry => ({ id: entry.id, changedFields: changedFieldNames(entry.oldValue, entry.newValue) }))
+      .filter(entry => entry.changedFields.length > 0);
+    await prisma.$transaction(
+      changed.map(entry =>
+        prisma.ipHistory.update({
+          where: { id: entry.id },
+          data: { changedFields: entry.changedFields },
+        })
+      )
+    );
+    updated += changed.length;
+  }
+
+  return updated;
+}
+
+async function backfillAuditLogs() {
+  let updated = 0;
+  let lastId: string | undefined;
+
+  for (;;) {
+    const entries = await prisma.auditLog.findMany({
+      where: { changedFields: { isEmpty: true }, id: lastId ? { gt: lastId } : undefined },
+      select: { id: true, oldValue: true, newValue: true },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+    });
+
+    if (entries.length === 0) break;
+    lastId = entries[entries.length - 1].id;
+
+    const changed = entries
+      .map(entry => ({ id: entry.id, changedFields: changedFieldNames(entry.oldValue, entry.newValue) }))
+      .filter(entry => entry.changedFields.length > 0);
+    await prisma.$transaction(
+      changed.map(entry =>
+        prisma.auditLog.update({
+          where: { id: entry.id },
+          data: { changedFields: entry.changedFields },
+        })
+      )
+    );
+    updated += changed.length;
+  }
+
+  return updated;
+}
+
+async function main() {
+  console.log(' Backfilling changed fields of audit entries...');
+
+  const historyCount = await backfillIpHistory();
+  console.log('✅ Updated IP history entries:', historyCount);
+
+  const auditLogCount = await backfillAuditLogs();
+  console.log('✅ Updated audit log entries:', auditLogCount);
+
+  console.log('✨ Backfill completed!');
+}
+
+main()
+  .catch((e) => {
+    console.error('Error backfilling changed fields:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,84 @@
+import { PrismaClient } from '@prisma/client';
+import { ipToNumeric } from '../src/utils/ipUtils.js';
+
+const prisma = new PrismaClient();
+
+const BATCH_SIZE = 500;
+
+async function backfillIpAddresses() {
+  let updated = 0;
+
+  for (;;) {
+    const ips = await prisma.ipAddress.findMany({
+      where: { ipNumber: null },
+      select: { id: true, ipAddress: true },
+      take: BATCH_SIZE,
+    });
+
+    if (ips.length === 0) break;
+
+    await prisma.$transaction(
+      ips.map(ip =>
+        prisma.ipAddress.update({
+          where: { id: ip.id },
+          data: { ipNumber: ipToNumeric(ip.ipAddress) },
+        })
+      )
+    );
+    updated += ips.length;
+  }
+
+  return updated;
+}
+
+async function backfillReservations() {
+  let updated = 0;
+
+  for (;;) {
+    const reservations = await prisma.reservation.findMany({
+      where: {
+        OR: [{ startIpNumber: null }, { endIpNumber: null }],
+      },
+      select: { id: true, startIp: true, endIp: true },
+      take: BATCH_SIZE,
+    });
+
+    if (reservations.length === 0) break;
+
+    await prisma.$transaction(
+      reservations.map(reservation =>
+        prisma.reservation.update({
+          where: { id: reservation.id },
+          data: {
+            startIpNumber: ipToNumeric(reservation.startIp),
+            endIpNumber: ipToNumeric(reservation.endIp),
+          },
+        })
+      )
+    );
+    updated += reservations.length;
+  }
+
+  return updated;
+}
+
+async function main() {
+  console.log(' Backfilling numeric IP columns...');
+
+  const ipCount = await backfillIpAddresses();
+  console.log('✅ Updated IP addresses:', ipCount);
+
+  const reservationCount = await backfillReservations();
+  console.log('✅ Updated reservations:', reservationCount);
+
+  console.log('✨ Backfill completed!');
+}
+
+main()
+  .catch((e) => {
+    console.error('Error backfilling database:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,26 @@
+import 'dotenv/config';
+import { PrismaClient } from '@prisma/client';
+import { linkPendingEntries } from '../src/utils/auditChain.js';
+
+const prisma = new PrismaClient();
+
+async function main() {
+  console.log(' Chaining audit entries written before hash chaining...');
+
+  const historyCount = await linkPendingEntries(prisma, 'ip_history');
+  console.log('✅ Linked IP history entries:', historyCount);
+
+  const auditLogCount = await linkPendingEntries(prisma, 'audit_logs');
+  console.log('✅ Linked audit log entries:', auditLogCount);
+
+  console.log('✨ Chaining completed!');
+}
+
+main()
+  .catch((e) => {
+    console.error('Error chaining audit log:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,78 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+async function linkIpAddresses(usersByName: Map<string, string>) {
+  const holders = await prisma.ipAddress.groupBy({
+    by: ['assignedTo'],
+    where: {
+      assignedTo: { not: null },
+      assignedUserId: null,
+      assignedTeamId: null,
+    },
+  });
+
+  let updated = 0;
+  for (const { assignedTo } of holders) {
+    const userId = usersByName.get(assignedTo!.toLowerCase());
+    if (!userId) continue;
+
+    const result = await prisma.ipAddress.updateMany({
+      where: { assignedTo, assignedUserId: null, assignedTeamId: null },
+      data: { assignedUserId: userId },
+    });
+    updated += result.count;
+  }
+
+  return updated;
+}
+
+async function linkReservations(usersByName: Map<string, string>) {
+  const holders = await prisma.reservation.groupBy({
+    by: ['reservedBy'],
+    where: {
+      reservedBy: { not: null },
+      reservedByUserId: null,
+      reservedByTeamId: null,
+    },
+  });
+
+  let updated = 0;
+  for (const { reservedBy } of holders) {
+    const userId = usersByName.get(reservedBy!.toLowerCase());
+    if (!userId) continue;
+
+    const result = await prisma.reservation.updateMany({
+      where: { reservedBy, reservedByUserId: null, reservedByTeamId: null },
+      data: { reservedByUserId: userId },
+    });
+    updated += result.count;
+  }
+
+  return updated;
+}
+
+async function main() {
+  console.log(' Linking free-text holders to users...');
+
+  // Usernames are matched case-insensitively; values that match no user stay free text
+  const users = await prisma.user.findMany({ select: { id: true, username: true } });
+  const usersByName = new Map(users.map(user => [user.username.toLowerCase(), user.id]));
+
+  const ipCount = await linkIpAddresses(usersByName);
+  console.log('✅ Linked IP addresses:', ipCount);
+
+  const reservationCount = await linkReservations(usersByName);
+  console.log('✅ Linked reservations:', reservationCount);
+
+  console.log('✨ Linking completed!');
+}
+
+main()
+  .catch((e) => {
+    console.error('Error linking holders:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -1,13 +1,20 @@
+import 'dotenv/config';
 import { PrismaClient } from '@prisma/client';
 import { hashPassword } from '../src/utils/password.js';
+import { getPasswordPolicyViolations } from '../src/utils/passwordPolicy.js';
 
 const prisma = new PrismaClient();
 
 async function main() {
   console.log(' Seeding database...');
 
-  // Create admin user (or update password if exists)
-  const adminPassword = await hashPassword('admin123');
+  // Create admin user (or update password if exists); the password must satisfy the password policy
+  const adminPlainPassword = process.env.SEED_ADMIN_PASSWORD || 'Admin@ipam123';
+  const violations = getPasswordPolicyViolations(adminPlainPassword);
+  if (violations.length > 0) {
+    throw new Error(`SEED_ADMIN_PASSWORD does not meet the password policy: ${violations.join('; ')}`);
+  }
+  const adminPassword = await hashPassword(adminPlainPassword);
   const admin = await prisma.user.upsert({
     where: { email: 'admin@ipam.com' },
     update: {
@@ -0,0 +1,30 @@
+/**
+ * Audit log settings, configurable through environment variables
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { readInt } from './env.js';
+
+// PEM in the variable itself (newlines may be written as \n) or in a file
+function readSigningKey(): string | undefined {
+  if (process.env.AUDIT_SIGNING_KEY_FILE) {
+    return fs.readFileSync(process.env.AUDIT_SIGNING_KEY_FILE, 'utf8');
+  }
+  return process.env.AUDIT_SIGNING_KEY?.replace(/\\n/g, '\n') || undefined;
+}
+
+export const AUDIT = {
+  // Private key (Ed25519 recommended) that signs exports; verifiers use the public key from GET /api/audit/signing-key
+  signingKey: readSigningKey(),
+  // Most entries in one signed export; larger ranges are fetched in several exports
+  maxExportEntries: readInt('AUDIT_EXPORT_MAX_ENTRIES', 10000),
+  // IP history older than this is archived and removed (0 keeps it forever)
+  retentionDays: readInt('AUDIT_RETENTION_DAYS', 0),
+  // Directory for archived history segments
+  archiveDir: path.resolve(process.env.AUDIT_ARCHIVE_DIR || 'archive/audit'),
+  // Most entries in one archive file
+  archiveSegmentSize: readInt('AUDIT_ARCHIVE_SEGMENT_SIZE', 10000),
+  // How often entries not linked on commit are appended to their hash chain
+  chainAppendIntervalMs: readInt('AUDIT_CHAIN_APPEND_INTERVAL_MS', 5000),
+};
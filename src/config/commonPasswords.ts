@@ -0,0 +1,102 @@
+/**
+ * Passwords that are refused regardless of the other policy rules: the most common
+ * ones in public breach corpora, plus product-specific guesses. Compared case-insensitively.
+ */
+export const COMMON_PASSWORDS = [
+  '123456',
+  '123456789',
+  '12345678',
+  '1234567890',
+  '12345',
+  '1234567',
+  '123123',
+  '111111',
+  '000000',
+  '654321',
+  '666666',
+  '121212',
+  '112233',
+  '123321',
+  '1q2w3e4r',
+  '1q2w3e4r5t',
+  '1qaz2wsx',
+  'qwerty',
+  'qwerty123',
+  'qwertyuiop',
+  'qwerty1',
+  'asdfghjkl',
+  'zxcvbnm',
+  'password',
+  'password1',
+  'password12',
+  'password123',
+  'password1234',
+  'passw0rd',
+  'p@ssw0rd',
+  'p@ssword',
+  'p@ssword1',
+  'p@ssw0rd1',
+  'password!',
+  'letmein',
+  'letmein1',
+  'welcome',
+  'welcome1',
+  'welcome123',
+  'welcome2024',
+  'welcome2025',
+  'welcome2026',
+  'iloveyou',
+  'admin',
+  'admin123',
+  'admin1234',
+  'administrator',
+  'changeme',
+  'changeme123',
+  'default',
+  'secret',
+  'secret123',
+  'abc123',
+  'abcd1234',
+  'abcdef',
+  'abc12345',
+  'football',
+  'baseball',
+  'monkey',
+  'dragon',
+  'master',
+  'sunshine',
+  'princess',
+  'shadow',
+  'superman',
+  'trustno1',
+  'starwars',
+  'whatever',
+  'michael',
+  'jennifer',
+  'login',
+  'guest',
+  'root',
+  'toor',
+  'test',
+  'test123',
+  'test1234',
+  'qazwsx',
+  'summer2024',
+  'summer2025',
+  'winter2024',
+  'winter2025',
+  'spring2025',
+  'autumn2025',
+  'company123',
+  'ipam',
+  'ipam123',
+  'ipamadmin',
+  'ipam1234',
+  'network',
+  'network1',
+  'network123',
+  'subnet',
+  'router',
+  'cisco',
+  'cisco123',
+];
@@ -0,0 +1,11 @@
+/**
+ * Helpers for reading settings from environment variables
+ */
+
+/**
+ * An integer setting, or the fallback when it is unset or not a number
+ */
+export function readInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isNaN(value) ? fallback : value;
+}
@@ -0,0 +1,75 @@
+/**
+ * External authentication (LDAP and OpenID Connect), configurable through environment variables
+ */
+
+import { Role, ROLES } from './permissions.js';
+import { readInt } from './env.js';
+
+export type PasswordProviderName = 'local' | 'ldap';
+
+function readList(name: string, fallback: string[]): string[] {
+  const value = process.env[name];
+  if (!value) return fallback;
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function readGroupRoleMapping(): Record<string, Role> {
+  const raw = process.env.AUTH_GROUP_ROLE_MAPPING;
+  if (!raw) return {};
+
+  const parsed = JSON.parse(raw) as Record<string, string>;
+  const mapping: Record<string, Role> = {};
+  for (const [group, role] of Object.entries(parsed)) {
+    if (!ROLES.includes(role as Role)) {
+      throw new Error(`AUTH_GROUP_ROLE_MAPPING: unknown role "${role}" for group "${group}"`);
+    }
+    mapping[group.toLowerCase()] = role as Role;
+  }
+  return mapping;
+}
+
+export const EXTERNAL_AUTH = {
+  // Providers POST /api/auth/login tries, in order. Keep 'local' in the list as a fallback
+  // for break-glass accounts and for when the directory is unreachable.
+  passwordProviders: readList('AUTH_PASSWORD_PROVIDERS', ['local']) as PasswordProviderName[],
+  // Directory group (LDAP DN or name, OIDC group claim value) -> role, e.g.
+  // {"cn=ipam-admins,ou=groups,dc=example,dc=com":"admin","ipam-users":"user"}
+  groupRoleMapping: readGroupRoleMapping(),
+  // Role for external users in none of the mapped groups; "none" refuses them
+  defaultRole: (process.env.AUTH_DEFAULT_ROLE || 'readonly') as Role | 'none',
+};
+
+export const LDAP = {
+  url: process.env.LDAP_URL || 'ldap://localhost:389',
+  // Service account used to look up users; anonymous search when unset
+  bindDn: process.env.LDAP_BIND_DN,
+  bindPassword: process.env.LDAP_BIND_PASSWORD,
+  userBaseDn: process.env.LDAP_USER_BASE_DN || '',
+  // {{login}} is replaced with the (escaped) identifier typed into the login form
+  userFilter: process.env.LDAP_USER_FILTER || '(|(uid={{login}})(mail={{login}}))',
+  usernameAttribute: process.env.LDAP_USERNAME_ATTRIBUTE || 'uid',
+  emailAttribute: process.env.LDAP_EMAIL_ATTRIBUTE || 'mail',
+  // Attribute listing the user's groups; when the server has none, groups are searched instead
+  groupAttribute: process.env.LDAP_GROUP_ATTRIBUTE || 'memberOf',
+  groupBaseDn: process.env.LDAP_GROUP_BASE_DN,
+  // {{dn}} is replaced with the user's DN
+  groupFilter: process.env.LDAP_GROUP_FILTER || '(member={{dn}})',
+  // Treat the email attribute as verified, so directory users are linked to local accounts
+  // with the same address. Only for directories where users cannot edit their own mail.
+  trustEmail: process.env.LDAP_TRUST_EMAIL === 'true',
+  timeoutMs: readInt('LDAP_TIMEOUT_MS', 5000),
+};
+
+export const OIDC = {
+  enabled: Boolean(process.env.OIDC_ISSUER_URL),
+  issuerUrl: process.env.OIDC_ISSUER_URL || '',
+  clientId: process.env.OIDC_CLIENT_ID || '',
+  clientSecret: process.env.OIDC_CLIENT_SECRET || '',
+  // Where the identity provider sends the browser back to (a page of the web client)
+  redirectUri: process.env.OIDC_REDIRECT_URI || 'http://localhost:5173/auth/callback',
+  scopes: process.env.OIDC_SCOPES || 'openid profile email',
+  groupsClaim: process.env.OIDC_GROUPS_CLAIM || 'groups',
+  // Allow plain-http issuers, for local stand-ins only
+  allowInsecureHttp: process.env.OIDC_ALLOW_INSECURE_HTTP === 'true',
+  stateTtlMinutes: readInt('OIDC_STATE_TTL_MINUTES', 10),
+};
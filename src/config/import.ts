@@ -0,0 +1,14 @@
+/**
+ * CSV import limits, configurable through environment variables
+ */
+
+import { readInt } from './env.js';
+
+export const IMPORT = {
+  // Largest CSV body accepted, in bytes
+  maxBytes: readInt('IMPORT_MAX_BYTES', 5 * 1024 * 1024),
+  // Most data rows in one import
+  maxRows: readInt('IMPORT_MAX_ROWS', 5000),
+  // An import (or dry run) applies every row in one transaction
+  transactionTimeoutMs: readInt('IMPORT_TRANSACTION_TIMEOUT_MS', 120000),
+};
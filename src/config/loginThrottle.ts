@@ -0,0 +1,19 @@
+/**
+ * Login throttling limits, configurable through environment variables
+ */
+
+import { readInt } from './env.js';
+
+export const LOGIN_THROTTLE = {
+  // Failed attempts on one account before it is locked
+  maxAccountAttempts: readInt('LOGIN_MAX_FAILED_ATTEMPTS', 5),
+  // Failed attempts from one IP address (across accounts) before it is locked out
+  maxIpAttempts: readInt('LOGIN_MAX_FAILED_ATTEMPTS_PER_IP', 20),
+  // How long a lockout lasts
+  lockoutMinutes: readInt('LOGIN_LOCKOUT_MINUTES', 15),
+  // Failures older than this no longer count
+  attemptWindowMinutes: readInt('LOGIN_ATTEMPT_WINDOW_MINUTES', 15),
+  // Delay after the first failure; doubles with each further failure up to the maximum
+  baseDelayMs: readInt('LOGIN_DELAY_BASE_MS', 1000),
+  maxDelayMs: readInt('LOGIN_DELAY_MAX_MS', 30000),
+};
@@ -0,0 +1,35 @@
+/**
+ * Password policy and hashing settings, configurable through environment variables
+ */
+
+import { readInt } from './env.js';
+
+function readBool(name: string, fallback: boolean): boolean {
+  const value = process.env[name];
+  return value === undefined || value === '' ? fallback : value === 'true';
+}
+
+export type PasswordHashAlgorithm = 'bcrypt' | 'scrypt';
+
+export const PASSWORD_POLICY = {
+  minLength: readInt('PASSWORD_MIN_LENGTH', 10),
+  maxLength: readInt('PASSWORD_MAX_LENGTH', 128),
+  requireLowercase: readBool('PASSWORD_REQUIRE_LOWERCASE', true),
+  requireUppercase: readBool('PASSWORD_REQUIRE_UPPERCASE', true),
+  requireDigit: readBool('PASSWORD_REQUIRE_DIGIT', true),
+  requireSymbol: readBool('PASSWORD_REQUIRE_SYMBOL', false),
+  // Extra denied passwords, one per line, on top of the built-in list of common ones
+  denylistFile: process.env.PASSWORD_DENYLIST_FILE,
+  // A new password may not match the current one or the ones before it, up to this many in total (0 disables)
+  historyCount: readInt('PASSWORD_HISTORY_COUNT', 5),
+};
+
+export const PASSWORD_HASHING = {
+  // New hashes use this algorithm; older hashes are upgraded at the next successful login
+  algorithm: (process.env.PASSWORD_HASH_ALGORITHM || 'bcrypt') as PasswordHashAlgorithm,
+  bcryptCost: readInt('PASSWORD_BCRYPT_COST', 12),
+  // scrypt CPU/memory cost as a power of two (N = 2^15), block size and parallelism
+  scryptLogN: readInt('PASSWORD_SCRYPT_LOG_N', 15),
+  scryptBlockSize: readInt('PASSWORD_SCRYPT_BLOCK_SIZE', 8),
+  scryptParallelism: readInt('PASSWORD_SCRYPT_PARALLELISM', 1),
+};
@@ -0,0 +1,96 @@
+/**
+ * Role-based permission matrix
+ *
+ * Every route in src/routes requires one of these permissions through
+ * requirePermission(); this file is the single place that decides which
+ * role may do what.
+ */
+
+export type Role = 'admin' | 'user' | 'readonly';
+
+export const ROLES: Role[] = ['admin', 'user', 'readonly'];
+
+export type Permission =
+  | 'subnets:read'
+  | 'subnets:write'
+  | 'subnets:delete'
+  | 'subnets:all' // bypasses per-subnet access grants
+  | 'ip-addresses:read'
+  | 'ip-addresses:write'
+  | 'reservations:read'
+  | 'reservations:write'
+  | 'reports:read'
+  | 'audit:read'
+  | 'users:read'
+  | 'users:write'
+  | 'teams:read'
+  | 'teams:write';
+
+const READ_PERMISSIONS: Permission[] = [
+  'subnets:read',
+  'ip-addresses:read',
+  'reservations:read',
+  'reports:read',
+  'audit:read',
+  'teams:read',
+];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: [
+    ...READ_PERMISSIONS,
+    'subnets:write',
+    'subnets:delete',
+    'subnets:all',
+    'ip-addresses:write',
+    'reservations:write',
+    'users:read',
+    'users:write',
+    'teams:write',
+  ],
+  user: [
+    ...READ_PERMISSIONS,
+    'subnets:write',
+    'ip-addresses:write',
+    'reservations:write',
+  ],
+  readonly: [...READ_PERMISSIONS],
+};
+
+export type ApiTokenScope = 'read' | 'ip-assign' | 'admin';
+
+export const API_TOKEN_SCOPES: ApiTokenScope[] = ['read', 'ip-assign', 'admin'];
+
+// An API token can never do more than its owner's role allows; scopes narrow it further
+export const SCOPE_PERMISSIONS: Record<ApiTokenScope, Permission[]> = {
+  read: [...READ_PERMISSIONS],
+  'ip-assign': [...READ_PERMISSIONS, 'ip-addresses:write'],
+  admin: [...ROLE_PERMISSIONS.admin],
+};
+
+/**
+ * Get the permissions granted to a role (none for unknown roles)
+ */
+export function getPermissions(role: string): Permission[] {
+  return ROLE_PERMISSIONS[role as Role] || [];
+}
+
+/**
+ * Check if a role has a permission
+ */
+export function hasPermission(role: string, permission: Permission): boolean {
+  return getPermissions(role).includes(permission);
+}
+
+/**
+ * Get the permissions a request actually has: the role's permissions,
+ * narrowed to the token's scopes when authenticated with an API token
+ */
+export function getEffectivePermissions(user: { role: string; scopes?: string[] }): Permission[] {
+  const permissions = getPermissions(user.role);
+  if (!user.scopes) return permissions;
+
+  const allowed = new Set(
+    user.scopes.flatMap(scope => SCOPE_PERMISSIONS[scope as ApiTokenScope] || [])
+  );
+  return permissions.filter(permission => allowed.has(permission));
+}
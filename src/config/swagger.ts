@@ -77,6 +77,15 @@ const options: swaggerJsdoc.Options = {
               enum: ['admin', 'user', 'readonly'],
               example: 'admin',
             },
+            emailVerified: {
+              type: 'boolean',
+              example: true,
+            },
+            authProvider: {
+              type: 'string',
+              enum: ['local', 'ldap', 'oidc'],
+              example: 'local',
+            },
             createdAt: {
               type: 'string',
               format: 'date-time',
@@ -168,6 +177,11 @@ const options: swaggerJsdoc.Options = {
               type: 'string',
               example: '192.168.1.10',
             },
+            ipNumber: {
+              type: 'string',
+              example: '3232235786',
+              description: 'Numeric form of the address (IPv4 as 32-bit, IPv6 as 128-bit integer)',
+            },
             subnetId: {
               type: 'string',
               example: 'clx1234567890',
@@ -193,6 +207,16 @@ const options: swaggerJsdoc.Options = {
               type: 'string',
               example: 'John Doe',
             },
+            assignedUserId: {
+              type: 'string',
+              nullable: true,
+              description: 'User holding the address, if assignedTo refers to a user',
+            },
+            assignedTeamId: {
+              type: 'string',
+              nullable: true,
+              description: 'Team holding the address, if assignedTo refers to a team',
+            },
             description: {
               type: 'string',
               example: 'Primary web server',
@@ -242,6 +266,14 @@ const options: swaggerJsdoc.Options = {
               type: 'string',
               example: '192.168.1.150',
             },
+            startIpNumber: {
+              type: 'string',
+              example: '3232235876',
+            },
+            endIpNumber: {
+              type: 'string',
+              example: '3232235926',
+            },
             purpose: {
               type: 'string',
               example: 'Reserved for future expansion',
@@ -250,6 +282,14 @@ const options: swaggerJsdoc.Options = {
               type: 'string',
               example: 'Network Team',
             },
+            reservedByUserId: {
+              type: 'string',
+              nullable: true,
+            },
+            reservedByTeamId: {
+              type: 'string',
+              nullable: true,
+            },
             expiresAt: {
               type: 'string',
               format: 'date-time',
@@ -283,18 +323,58 @@ const options: swaggerJsdoc.Options = {
               type: 'string',
               example: 'clx1234567890',
             },
+            entityType: {
+              type: 'string',
+              description: 'IpAddress for IP address history, otherwise Subnet, SubnetAccess, Reservation, User, ApiToken, Team, TeamMember or Setting',
+              example: 'Subnet',
+            },
+            entityId: {
+              type: 'string',
+              nullable: true,
+              example: 'clx1234567890',
+            },
             ipAddressId: {
               type: 'string',
+              description: 'Only on IpAddress entries',
               example: 'clx1234567890',
             },
+            subnetId: {
+              type: 'string',
+              nullable: true,
+              description: 'Subnet the entity belongs to (not on IpAddress entries, see ipAddress)',
+            },
             action: {
               type: 'string',
-              example: 'ASSIGNED',
+              example: 'updated',
             },
             changedBy: {
               type: 'string',
+              nullable: true,
               example: 'admin',
             },
+            actorId: {
+              type: 'string',
+              nullable: true,
+            },
+            sourceIp: {
+              type: 'string',
+              nullable: true,
+              example: '203.0.113.7',
+            },
+            userAgent: {
+              type: 'string',
+              nullable: true,
+            },
+            tokenId: {
+              type: 'string',
+              nullable: true,
+              description: 'Session or API token the change was made with',
+            },
+            revertOf: {
+              type: 'string',
+              nullable: true,
+              description: 'For "reverted" IpAddress entries, the entry that was undone',
+            },
             oldValue: {
               type: 'object',
               nullable: true,
@@ -303,12 +383,62 @@ const options: swaggerJsdoc.Options = {
               type: 'object',
               nullable: true,
             },
+            changedFields: {
+              type: 'array',
+              items: {
+                type: 'string',
+              },
+              example: ['hostname', 'macAddress'],
+            },
+            changes: {
+              type: 'array',
+              description: 'Field-level difference between oldValue and newValue (updatedAt is left out)',
+              items: {
+                type: 'object',
+                properties: {
+                  field: {
+                    type: 'string',
+                    example: 'macAddress',
+                  },
+                  oldValue: {
+                    nullable: true,
+                    example: '00:11:22:33:44:55',
+                  },
+                  newValue: {
+                    nullable: true,
+                    example: '00:11:22:33:44:66',
+                  },
+                },
+              },
+            },
             timestamp: {
               type: 'string',
               format: 'date-time',
             },
+            sequence: {
+              type: 'integer',
+              nullable: true,
+              description: 'Position in the hash chain (ip_history for IpAddress entries, audit_logs otherwise); null if not chained yet',
+            },
+            prevHash: {
+              type: 'string',
+              nullable: true,
+              description: 'Hash of the previous entry in the chain',
+            },
+            hash: {
+              type: 'string',
+              nullable: true,
+              description: 'SHA-256 of the entry content and prevHash',
+            },
+            verification: {
+              type: 'string',
+              enum: ['verified', 'tampered', 'broken-link', 'unchained'],
+              description: 'Whether the entry matches its hash and links to the entry before it',
+            },
             ipAddress: {
               type: 'object',
+              nullable: true,
+              description: 'Only on IpAddress entries; null if the address has been deleted',
               properties: {
                 id: {
                   type: 'string',
@@ -328,6 +458,142 @@ const options: swaggerJsdoc.Options = {
             },
           },
         },
+        AuditChainVerification: {
+          type: 'object',
+          properties: {
+            chain: {
+              type: 'string',
+              enum: ['ip_history', 'audit_logs'],
+            },
+            verified: {
+              type: 'integer',
+              description: 'Entries verified from the start of the chain up to the first broken link',
+            },
+            unchained: {
+              type: 'integer',
+              description: 'Entries written before chaining that are not linked yet',
+            },
+            prunedSequence: {
+              type: 'integer',
+              description: 'Entries up to this sequence were archived by retention; verification starts after them',
+            },
+            lastSequence: {
+              type: 'integer',
+            },
+            firstBrokenLink: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                id: {
+                  type: 'string',
+                  nullable: true,
+                  description: 'Null when the entry is missing',
+                },
+                sequence: {
+                  type: 'integer',
+                },
+                reason: {
+                  type: 'string',
+                  example: 'Entry content does not match its hash',
+                },
+              },
+            },
+          },
+        },
+        AuditArchive: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+            },
+            fileName: {
+              type: 'string',
+              example: 'ip-history-0000000001-0000010000.ndjson.gz',
+            },
+            fromSequence: {
+              type: 'integer',
+            },
+            toSequence: {
+              type: 'integer',
+            },
+            fromTimestamp: {
+              type: 'string',
+              format: 'date-time',
+            },
+            toTimestamp: {
+              type: 'string',
+              format: 'date-time',
+            },
+            entryCount: {
+              type: 'integer',
+            },
+            size: {
+              type: 'integer',
+              description: 'File size in bytes',
+            },
+            sha256: {
+              type: 'string',
+              description: 'SHA-256 of the compressed file',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        SignedAuditExport: {
+          type: 'object',
+          properties: {
+            payload: {
+              type: 'object',
+              properties: {
+                chain: {
+                  type: 'string',
+                  enum: ['ip_history', 'audit_logs'],
+                },
+                fromSequence: {
+                  type: 'integer',
+                },
+                toSequence: {
+                  type: 'integer',
+                },
+                head: {
+                  type: 'object',
+                  properties: {
+                    lastSequence: {
+                      type: 'integer',
+                    },
+                    lastHash: {
+                      type: 'string',
+                      nullable: true,
+                    },
+                  },
+                },
+                exportedAt: {
+                  type: 'string',
+                  format: 'date-time',
+                },
+                entries: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                  },
+                },
+              },
+            },
+            signature: {
+              type: 'string',
+              description: 'Base64 signature over the canonical JSON of payload',
+            },
+            signatureAlgorithm: {
+              type: 'string',
+              example: 'ed25519',
+            },
+            keyFingerprint: {
+              type: 'string',
+            },
+          },
+        },
         UtilizationReport: {
           type: 'object',
           properties: {
@@ -395,6 +661,355 @@ const options: swaggerJsdoc.Options = {
             STATIC: 50,
           },
         },
+        Utilization: {
+          type: 'object',
+          properties: {
+            totalIPs: {
+              type: 'integer',
+              example: 254,
+            },
+            usedIPs: {
+              type: 'integer',
+              example: 150,
+            },
+            reservedIPs: {
+              type: 'integer',
+              example: 20,
+            },
+            availableIPs: {
+              type: 'integer',
+              example: 84,
+            },
+            utilizationPercentage: {
+              type: 'string',
+              example: '59.06',
+            },
+          },
+        },
+        FreeBlock: {
+          type: 'object',
+          properties: {
+            start: {
+              type: 'string',
+              example: '10.0.0.64',
+            },
+            end: {
+              type: 'string',
+              example: '10.0.0.255',
+            },
+            size: {
+              type: 'string',
+              example: '192',
+            },
+            cidrs: {
+              type: 'array',
+              items: {
+                type: 'string',
+              },
+              example: ['10.0.0.64/26', '10.0.0.128/25'],
+            },
+          },
+        },
+        SubnetTreeNode: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              example: 'clx1234567890',
+            },
+            cidr: {
+              type: 'string',
+              example: '10.0.0.0/24',
+            },
+            networkAddress: {
+              type: 'string',
+              example: '10.0.0.0',
+            },
+            subnetMask: {
+              type: 'integer',
+              example: 24,
+            },
+            ipVersion: {
+              type: 'string',
+              enum: ['IPv4', 'IPv6'],
+            },
+            description: {
+              type: 'string',
+              nullable: true,
+            },
+            vlanId: {
+              type: 'integer',
+              nullable: true,
+            },
+            location: {
+              type: 'string',
+              nullable: true,
+            },
+            parentSubnetId: {
+              type: 'string',
+              nullable: true,
+            },
+            utilization: {
+              $ref: '#/components/schemas/Utilization',
+            },
+            rolledUpUtilization: {
+              $ref: '#/components/schemas/Utilization',
+            },
+            freeBlocks: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/FreeBlock',
+              },
+            },
+            children: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/SubnetTreeNode',
+              },
+            },
+          },
+        },
+        LoginAttempts: {
+          type: 'object',
+          properties: {
+            failedAttempts: {
+              type: 'integer',
+              example: 2,
+            },
+            lastFailedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+            lockedUntil: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+          },
+        },
+        MfaPolicy: {
+          type: 'object',
+          properties: {
+            requiredRoles: {
+              type: 'array',
+              items: {
+                type: 'string',
+                enum: ['admin', 'user', 'readonly'],
+              },
+              example: ['admin'],
+            },
+          },
+        },
+        ApiToken: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              example: 'clx1234567890',
+            },
+            name: {
+              type: 'string',
+              example: 'provisioning',
+            },
+            tokenPrefix: {
+              type: 'string',
+              example: 'ipam_3q2x7w',
+            },
+            scopes: {
+              type: 'array',
+              items: {
+                type: 'string',
+                enum: ['read', 'ip-assign', 'admin'],
+              },
+            },
+            expiresAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+            lastUsedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+            revokedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        Team: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              example: 'clx1234567890',
+            },
+            name: {
+              type: 'string',
+              example: 'Network Team',
+            },
+            description: {
+              type: 'string',
+              nullable: true,
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        TeamMember: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            user: {
+              type: 'object',
+              properties: {
+                id: {
+                  type: 'string',
+                },
+                username: {
+                  type: 'string',
+                },
+                email: {
+                  type: 'string',
+                },
+              },
+            },
+          },
+        },
+        SubnetAccess: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              example: 'clx1234567890',
+            },
+            subnetId: {
+              type: 'string',
+              example: 'clx1234567890',
+            },
+            userId: {
+              type: 'string',
+              nullable: true,
+            },
+            teamId: {
+              type: 'string',
+              nullable: true,
+            },
+            level: {
+              type: 'string',
+              enum: ['VIEW', 'ASSIGN', 'RESERVE', 'ADMIN'],
+              example: 'ASSIGN',
+            },
+            inherited: {
+              type: 'boolean',
+              example: false,
+            },
+            inheritedFrom: {
+              type: 'string',
+              nullable: true,
+              example: '10.0.0.0/16',
+            },
+          },
+        },
+        ImportResult: {
+          type: 'object',
+          properties: {
+            dryRun: {
+              type: 'boolean',
+            },
+            committed: {
+              type: 'boolean',
+              description: 'False for dry runs and for imports with any failed row',
+            },
+            summary: {
+              type: 'object',
+              properties: {
+                create: {
+                  type: 'integer',
+                },
+                update: {
+                  type: 'integer',
+                },
+                skip: {
+                  type: 'integer',
+                },
+                error: {
+                  type: 'integer',
+                },
+              },
+            },
+            results: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  row: {
+                    type: 'integer',
+                    description: 'Data rows are numbered from 2, after the header',
+                    example: 2,
+                  },
+                  key: {
+                    type: 'string',
+                    description: 'The CIDR or IP address of the row',
+                    example: '10.20.0.0/24',
+                  },
+                  action: {
+                    type: 'string',
+                    enum: ['create', 'update', 'skip', 'error'],
+                  },
+                  data: {
+                    type: 'object',
+                    description: 'Subnet or IP address as created or updated (ids of a dry run are not kept)',
+                  },
+                  changes: {
+                    type: 'array',
+                    description: 'Field-level difference of an update',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        field: {
+                          type: 'string',
+                        },
+                        oldValue: {
+                          nullable: true,
+                        },
+                        newValue: {
+                          nullable: true,
+                        },
+                      },
+                    },
+                  },
+                  errors: {
+                    type: 'array',
+                    items: {
+                      type: 'string',
+                    },
+                    example: ['subnetMask: Expected number, received nan'],
+                  },
+                },
+              },
+            },
+          },
+        },
         Pagination: {
           type: 'object',
           properties: {
@@ -443,10 +1058,18 @@ const options: swaggerJsdoc.Options = {
         name: 'Audit',
         description: 'Audit log and history',
       },
+      {
+        name: 'Import',
+        description: 'CSV import of subnets and IP addresses',
+      },
       {
         name: 'Users',
         description: 'User management (Admin only)',
       },
+      {
+        name: 'Teams',
+        description: 'Teams and team membership',
+      },
     ],
   },
   apis: ['./src/routes/*.ts'],
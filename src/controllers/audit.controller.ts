@@ -1,63 +1,54 @@
 import { Response } from 'express';
 import { AuthRequest } from '../types/index.js';
 import { prisma } from '../index.js';
+import {
+  loadSubnetScope,
+  canAccessSubnet,
+  getVisibleSubnetIds,
+  subnetAccessError,
+} from '../utils/subnetAccess.js';
+import {
+  listAuditEntries,
+  findAuditEntry,
+  getAuditContext,
+  streamAuditEntries,
+  ListedAuditEntry,
+} from '../utils/auditLog.js';
+import { getArchivePath } from '../utils/auditArchive.js';
+import { toCsvRow } from '../utils/csv.js';
+import { revertIpChange, RevertResult } from '../utils/history.js';
+import { withSubnetLock, isConcurrencyConflict, CONCURRENT_CHANGE_ERROR } from '../utils/subnetLock.js';
+import {
+  AUDIT_CHAINS,
+  createSignedExport,
+  getSigningPublicKey,
+  verifyChain,
+} from '../utils/auditChain.js';
+import {
+  exportAuditLogsQuerySchema,
+  getAuditLogsQuerySchema,
+  signedExportQuerySchema,
+  verifyAuditQuerySchema,
+} from '../validations/audit.validation.js';
 
 export const getAuditLogs = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const { page = 1, limit = 50, action, ipAddressId, search } = req.query;
-
-    const skip = (Number(page) - 1) * Number(limit);
-    const where: any = {};
-
-    if (action) {
-      where.action = action as string;
-    }
-
-    if (ipAddressId) {
-      where.ipAddressId = ipAddressId as string;
-    }
-
-    if (search) {
-      where.OR = [
-        { changedBy: { contains: search as string, mode: 'insensitive' } },
-        { action: { contains: search as string, mode: 'insensitive' } },
-      ];
-    }
-
-    const [logs, total] = await Promise.all([
-      prisma.ipHistory.findMany({
-        where,
-        skip,
-        take: Number(limit),
-        include: {
-          ipAddress: {
-            select: {
-              id: true,
-              ipAddress: true,
-              subnet: {
-                select: {
-                  cidr: true,
-                },
-              },
-            },
-          },
-        },
-        orderBy: {
-          timestamp: 'desc',
-        },
-      }),
-      prisma.ipHistory.count({ where }),
-    ]);
+    const { page, limit, ...filters } = getAuditLogsQuerySchema.parse(req.query);
+
+    const skip = (page - 1) * limit;
+    const visibleIds = getVisibleSubnetIds(await loadSubnetScope(prisma, req.user));
+
+    const { entries, total } = await listAuditEntries(prisma, filters, visibleIds, skip, limit);
 
     res.json({
       success: true,
       data: {
-        data: logs,
+        data: entries,
         pagination: {
-          page: Number(page),
-          limit: Number(limit),
+          page,
+          limit,
           total,
-          totalPages: Math.ceil(total / Number(limit)),
+          totalPages: Math.ceil(total / limit),
         },
       },
     });
@@ -66,34 +57,320 @@ export const getAuditLogs = async (req: AuthRequest, res: Response): Promise<voi
   }
 };
 
+// Columns of the CSV export; values and nested objects are written as JSON
+const AUDIT_CSV_COLUMNS: [string, (entry: ListedAuditEntry) => unknown][] = [
+  ['id', entry => entry.id],
+  ['timestamp', entry => entry.timestamp],
+  ['entityType', entry => entry.entityType],
+  ['entityId', entry => entry.entityId],
+  ['action', entry => entry.action],
+  ['changedBy', entry => entry.changedBy],
+  ['actorId', entry => entry.actorId],
+  ['subnetId', entry => entry.subnetId],
+  ['ipAddress', entry => ('ipAddress' in entry ? entry.ipAddress?.ipAddress : null)],
+  ['sourceIp', entry => entry.sourceIp],
+  ['userAgent', entry => entry.userAgent],
+  ['tokenId', entry => entry.tokenId],
+  ['revertOf', entry => ('revertOf' in entry ? entry.revertOf : null)],
+  ['sequence', entry => entry.sequence],
+  ['hash', entry => entry.hash],
+  ['verification', entry => entry.verification],
+  ['changedFields', entry => entry.changedFields.join(' ')],
+  ['oldValue', entry => entry.oldValue],
+  ['newValue', entry => entry.newValue],
+];
+
+// Wait for the response to drain before writing more, or for the client to go away
+function writeChunk(res: Response, chunk: string): Promise<void> {
+  if (res.write(chunk)) {
+    return Promise.resolve();
+  }
+  return new Promise(resolve => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.on('drain', done);
+    res.on('close', done);
+  });
+}
+
+export const exportAuditLogs = async (req: AuthRequest, res: Response) => {
+  try {
+    const { format, ...filters } = exportAuditLogsQuerySchema.parse(req.query);
+
+    const visibleIds = getVisibleSubnetIds(await loadSubnetScope(prisma, req.user));
+
+    const fileName = `audit-log-${new Date().toISOString().slice(0, 10)}.${format}`;
+    res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+
+    if (format === 'csv') {
+      await writeChunk(res, toCsvRow(AUDIT_CSV_COLUMNS.map(([name]) => name)));
+    }
+    for await (const entry of streamAuditEntries(prisma, filters, visibleIds)) {
+      if (res.destroyed) return;
+      await writeChunk(
+        res,
+        format === 'csv'
+          ? toCsvRow(AUDIT_CSV_COLUMNS.map(([, value]) => value(entry)))
+          : `${JSON.stringify(entry)}\n`
+      );
+    }
+    res.end();
+  } catch (error) {
+    // Once streaming has started the status can no longer change; cut the response short
+    if (res.headersSent) {
+      console.error('Error exporting audit log:', error);
+      res.destroy();
+      return;
+    }
+    throw error;
+  }
+};
+
 export const getAuditLogById = async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
 
-    const log = await prisma.ipHistory.findUnique({
+    const log = await findAuditEntry(prisma, id);
+
+    // Entries not tied to a subnet (users, logins) are only shown to unrestricted callers
+    const scope = await loadSubnetScope(prisma, req.user);
+    if (!log || !(scope.unrestricted || (log.subnetId && canAccessSubnet(scope, log.subnetId)))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Audit log not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: log,
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const revertAuditLog = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const entry = await prisma.ipHistory.findUnique({
       where: { id },
-      include: {
-        ipAddress: {
-          include: {
-            subnet: true,
-          },
-        },
-      },
     });
 
-    if (!log) {
+    if (!entry) {
+      const other = await prisma.auditLog.findUnique({ where: { id } });
+      return other
+        ? res.status(400).json({
+            success: false,
+            error: 'Only IP address changes can be reverted',
+          })
+        : res.status(404).json({
+            success: false,
+            error: 'Audit log not found',
+          });
+    }
+
+    const ipAddress = await prisma.ipAddress.findUnique({
+      where: { id: entry.ipAddressId },
+      select: { subnetId: true },
+    });
+    if (!ipAddress) {
+      return res.status(404).json({
+        success: false,
+        error: 'IP address not found',
+      });
+    }
+
+    const subnetId = ipAddress.subnetId;
+    const scope = await loadSubnetScope(prisma, req.user);
+    if (!canAccessSubnet(scope, subnetId)) {
       return res.status(404).json({
         success: false,
         error: 'Audit log not found',
       });
     }
 
+    if (!canAccessSubnet(scope, subnetId, 'ASSIGN')) {
+      return res.status(403).json({
+        success: false,
+        error: subnetAccessError('ASSIGN'),
+      });
+    }
+
+    let result: RevertResult;
+    try {
+      result = await withSubnetLock(prisma, subnetId, (tx) =>
+        revertIpChange(tx, entry, getAuditContext(req))
+      );
+    } catch (error) {
+      if (isConcurrencyConflict(error)) {
+        return res.status(409).json({
+          success: false,
+          error: CONCURRENT_CHANGE_ERROR,
+        });
+      }
+      throw error;
+    }
+
+    if (!result.ok) {
+      return res.status(result.status).json({
+        success: false,
+        error: result.error,
+        conflicts: result.conflicts,
+      });
+    }
+
     res.json({
       success: true,
-      data: log,
+      data: result.record,
+      message: 'Change reverted',
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+// The chains and archives cover every subnet, users and logins, so only unrestricted callers see them whole
+const CHAIN_ACCESS_ERROR = 'Chain verification, signed export and archives require access to all subnets';
+
+export const verifyAuditLog = async (req: AuthRequest, res: Response) => {
+  try {
+    const { chain } = verifyAuditQuerySchema.parse(req.query);
+
+    const scope = await loadSubnetScope(prisma, req.user);
+    if (!scope.unrestricted) {
+      return res.status(403).json({
+        success: false,
+        error: CHAIN_ACCESS_ERROR,
+      });
+    }
+
+    const results = [];
+    for (const name of chain ? [chain] : AUDIT_CHAINS) {
+      results.push(await verifyChain(prisma, name));
+    }
+
+    res.json({
+      success: true,
+      data: {
+        valid: results.every(result => result.firstBrokenLink === null),
+        chains: results,
+      },
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const exportSignedAuditLog = async (req: AuthRequest, res: Response) => {
+  try {
+    const { chain, fromSequence, toSequence } = signedExportQuerySchema.parse(req.query);
+
+    const scope = await loadSubnetScope(prisma, req.user);
+    if (!scope.unrestricted) {
+      return res.status(403).json({
+        success: false,
+        error: CHAIN_ACCESS_ERROR,
+      });
+    }
+
+    const signed = await createSignedExport(prisma, chain, fromSequence, toSequence);
+    if (!signed) {
+      return res.status(404).json({
+        success: false,
+        error: 'Audit export signing is not configured',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: signed,
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const getAuditSigningKey = async (_req: AuthRequest, res: Response) => {
+  try {
+    const key = getSigningPublicKey();
+    if (!key) {
+      return res.status(404).json({
+        success: false,
+        error: 'Audit export signing is not configured',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: key,
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const getAuditArchives = async (req: AuthRequest, res: Response) => {
+  try {
+    const scope = await loadSubnetScope(prisma, req.user);
+    if (!scope.unrestricted) {
+      return res.status(403).json({
+        success: false,
+        error: CHAIN_ACCESS_ERROR,
+      });
+    }
+
+    const archives = await prisma.auditArchive.findMany({
+      orderBy: { fromSequence: 'asc' },
+    });
+
+    res.json({
+      success: true,
+      data: archives,
     });
   } catch (error) {
     throw error;
   }
 };
 
+export const downloadAuditArchive = async (req: AuthRequest, res: Response) => {
+  try {
+    const { fileName } = req.params;
+
+    const scope = await loadSubnetScope(prisma, req.user);
+    if (!scope.unrestricted) {
+      return res.status(403).json({
+        success: false,
+        error: CHAIN_ACCESS_ERROR,
+      });
+    }
+
+    // Only files recorded as archives are served, never arbitrary paths
+    const archive = await prisma.auditArchive.findUnique({
+      where: { fileName },
+    });
+
+    if (!archive) {
+      return res.status(404).json({
+        success: false,
+        error: 'Archive not found',
+      });
+    }
+
+    res.download(getArchivePath(archive.fileName), archive.fileName, (error) => {
+      if (error && !res.headersSent) {
+        res.status(404).json({
+          success: false,
+          error: 'Archive file is missing',
+        });
+      }
+    });
+  } catch (error) {
+    throw error;
+  }
+};
@@ -1,9 +1,38 @@
 import { Response } from 'express';
+import { User } from '@prisma/client';
 import { AuthRequest } from '../types/index.js';
 import { prisma } from '../index.js';
 import { hashPassword, comparePassword } from '../utils/password.js';
-import { generateToken } from '../utils/jwt.js';
-import { registerSchema, loginSchema } from '../validations/auth.validation.js';
+import { setUserPassword, isPasswordReused, PASSWORD_REUSED_ERROR } from '../utils/passwordPolicy.js';
+import { createSession, refreshSession, revokeSession, revokeUserSessions } from '../utils/session.js';
+import { generateApiToken } from '../utils/apiToken.js';
+import { generateMfaChallengeToken, MFA_CHALLENGE_EXPIRES_IN } from '../utils/jwt.js';
+import { findUserToken, consumeUserToken } from '../utils/userToken.js';
+import { authenticateWithPassword } from '../utils/authProviders.js';
+import { startOidcLogin, completeOidcLogin } from '../utils/oidcAuth.js';
+import { provisionExternalUser } from '../utils/externalUsers.js';
+import { EXTERNAL_AUTH, OIDC } from '../config/externalAuth.js';
+import { sendPasswordResetEmail, sendVerificationEmail } from '../utils/accountEmail.js';
+import { ACCOUNT_EMAIL } from '../config/mail.js';
+import { getAuditContext, recordAudit } from '../utils/auditLog.js';
+import {
+  reserveLoginAttempt,
+  releaseLoginAttempt,
+  clearAccountFailures,
+  getLoginAttemptInfo,
+} from '../utils/loginThrottle.js';
+import {
+  registerSchema,
+  loginSchema,
+  createApiTokenSchema,
+  refreshTokenSchema,
+  emailRequestSchema,
+  resetPasswordSchema,
+  verifyEmailSchema,
+  oidcCallbackSchema,
+  passwordSchema,
+} from '../validations/auth.validation.js';
+import { getEffectivePermissions } from '../config/permissions.js';
 import { z } from 'zod';
 
 const updateProfileSchema = z.object({
@@ -13,7 +42,7 @@ const updateProfileSchema = z.object({
 
 const changePasswordSchema = z.object({
   currentPassword: z.string().min(1),
-  newPassword: z.string().min(6),
+  newPassword: passwordSchema,
 });
 
 export const register = async (req: AuthRequest, res: Response) => {
@@ -46,30 +75,51 @@ export const register = async (req: AuthRequest, res: Response) => {
         username: validatedData.username,
         email: validatedData.email,
         passwordHash,
-        role: validatedData.role || 'user',
+        // Self-registration always gets the default role; admins promote via /api/users
+        role: 'user',
+        emailVerified: !ACCOUNT_EMAIL.requireEmailVerification,
       },
       select: {
         id: true,
         username: true,
         email: true,
         role: true,
+        emailVerified: true,
         createdAt: true,
       },
     });
 
-    // Generate token
-    const token = generateToken({
-      id: user.id,
-      username: user.username,
-      email: user.email,
-      role: user.role,
+    await recordAudit(prisma, getAuditContext(req, user), {
+      entityType: 'User',
+      entityId: user.id,
+      action: 'registered',
+      newValue: user,
+    });
+
+    // No session until the address is confirmed through the emailed link
+    if (!user.emailVerified) {
+      await sendVerificationEmail(prisma, user);
+
+      return res.status(201).json({
+        success: true,
+        data: {
+          user,
+          emailVerificationRequired: true,
+        },
+        message: 'Check your email to verify your address before logging in',
+      });
+    }
+
+    const tokens = await createSession(prisma, user, {
+      userAgent: req.get('user-agent'),
+      ipAddress: req.ip,
     });
 
     res.status(201).json({
       success: true,
       data: {
         user,
-        token,
+        ...tokens,
       },
     });
   } catch (error) {
@@ -77,54 +127,362 @@ export const register = async (req: AuthRequest, res: Response) => {
   }
 };
 
+// Last steps shared by every way of signing in: email verification, the second factor, then a session
+async function completeLogin(req: AuthRequest, res: Response, user: User, login?: string) {
+  if (!user.emailVerified) {
+    return res.status(403).json({
+      success: false,
+      error: 'Email address not verified',
+    });
+  }
+
+  // With a second factor, the first step only earns a challenge token for POST /api/auth/mfa/verify;
+  // failed attempts are cleared once the whole login succeeds
+  if (user.mfaEnabled) {
+    return res.json({
+      success: true,
+      data: {
+        mfaRequired: true,
+        challengeToken: generateMfaChallengeToken(user.id),
+        expiresIn: MFA_CHALLENGE_EXPIRES_IN,
+      },
+    });
+  }
+
+  await clearAccountFailures(prisma, user.email);
+  if (login && login !== user.email) {
+    await clearAccountFailures(prisma, login);
+  }
+
+  await recordAudit(prisma, getAuditContext(req, user), {
+    entityType: 'User',
+    entityId: user.id,
+    action: 'login',
+    newValue: { provider: user.authProvider },
+  });
+
+  const tokens = await createSession(prisma, user, {
+    userAgent: req.get('user-agent'),
+    ipAddress: req.ip,
+  });
+
+  res.json({
+    success: true,
+    data: {
+      user: {
+        id: user.id,
+        username: user.username,
+        email: user.email,
+        role: user.role,
+      },
+      ...tokens,
+    },
+  });
+}
+
 export const login = async (req: AuthRequest, res: Response) => {
   try {
     const validatedData = loginSchema.parse(req.body);
 
-    // Find user
+    // Refuse attempts while the account or client IP is delayed or locked out,
+    // without checking the password; otherwise the attempt counts until it succeeds
+    const throttle = await reserveLoginAttempt(prisma, validatedData.email, req.ip);
+    if (!throttle.allowed) {
+      res.set('Retry-After', String(throttle.retryAfterSeconds));
+      return res.status(429).json({
+        success: false,
+        error: throttle.error,
+        retryAfter: throttle.retryAfterSeconds,
+      });
+    }
+
+    // Local accounts and, if configured, the LDAP directory
+    const result = await authenticateWithPassword(prisma, validatedData.email, validatedData.password);
+
+    if (!result.ok) {
+      if (result.status === 401) {
+        await recordAudit(prisma, getAuditContext(req), {
+          entityType: 'User',
+          action: 'login_failed',
+          newValue: { login: validatedData.email },
+        });
+      } else {
+        // Not a wrong password, e.g. the directory is unreachable
+        await releaseLoginAttempt(prisma, throttle.attempt);
+      }
+      return res.status(result.status).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    await releaseLoginAttempt(prisma, throttle.attempt);
+    await completeLogin(req, res, result.user, validatedData.email);
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const getAuthProviders = async (_req: AuthRequest, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      data: {
+        password: EXTERNAL_AUTH.passwordProviders,
+        oidc: OIDC.enabled,
+      },
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const startOidc = async (_req: AuthRequest, res: Response) => {
+  try {
+    if (!OIDC.enabled) {
+      return res.status(404).json({
+        success: false,
+        error: 'OpenID Connect login is not configured',
+      });
+    }
+
+    const { authorizationUrl, state, expiresAt } = await startOidcLogin(prisma);
+
+    res.json({
+      success: true,
+      data: {
+        authorizationUrl,
+        state,
+        expiresAt,
+      },
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const oidcCallback = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!OIDC.enabled) {
+      return res.status(404).json({
+        success: false,
+        error: 'OpenID Connect login is not configured',
+      });
+    }
+
+    const validatedData = oidcCallbackSchema.parse(req.body);
+
+    const result = await completeOidcLogin(prisma, validatedData);
+
+    if (!result.ok) {
+      return res.status(401).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    const provisioned = await provisionExternalUser(prisma, result.profile);
+
+    if (!provisioned.ok) {
+      return res.status(provisioned.status).json({
+        success: false,
+        error: provisioned.error,
+      });
+    }
+
+    await completeLogin(req, res, provisioned.user);
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const refresh = async (req: AuthRequest, res: Response) => {
+  try {
+    const validatedData = refreshTokenSchema.parse(req.body);
+
+    const result = await refreshSession(prisma, validatedData.refreshToken);
+
+    if (!result.ok) {
+      return res.status(401).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        user: result.user,
+        ...result.tokens,
+      },
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const forgotPassword = async (req: AuthRequest, res: Response) => {
+  try {
+    const validatedData = emailRequestSchema.parse(req.body);
+
     const user = await prisma.user.findUnique({
       where: { email: validatedData.email },
     });
 
+    // The response is the same whether or not the account exists; directory users reset their password there
+    if (user && user.authProvider === 'local') {
+      try {
+        await sendPasswordResetEmail(prisma, user);
+      } catch (error) {
+        console.error('Failed to send password reset email:', error);
+      }
+    }
+
+    res.json({
+      success: true,
+      message: 'If an account exists for this email, a password reset link has been sent',
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const resetPassword = async (req: AuthRequest, res: Response) => {
+  try {
+    const validatedData = resetPasswordSchema.parse(req.body);
+
+    const found = await findUserToken(prisma, validatedData.token, 'PASSWORD_RESET');
+    const user = found.ok ? await prisma.user.findUnique({ where: { id: found.userId } }) : null;
+
     if (!user) {
-      return res.status(401).json({
+      return res.status(400).json({
         success: false,
-        error: 'Invalid email or password',
+        error: 'Invalid or expired token',
       });
     }
 
-    // Verify password
-    const isValidPassword = await comparePassword(
-      validatedData.password,
-      user.passwordHash
-    );
+    // Reject a reused password before using up the token, so the same link can be tried again
+    if (await isPasswordReused(prisma, user, validatedData.newPassword)) {
+      return res.status(400).json({
+        success: false,
+        error: PASSWORD_REUSED_ERROR,
+      });
+    }
 
-    if (!isValidPassword) {
-      return res.status(401).json({
+    const consumed = await consumeUserToken(prisma, validatedData.token, 'PASSWORD_RESET');
+
+    if (!consumed.ok) {
+      return res.status(400).json({
         success: false,
-        error: 'Invalid email or password',
+        error: consumed.error,
       });
     }
 
-    // Generate token
-    const token = generateToken({
-      id: user.id,
-      username: user.username,
-      email: user.email,
-      role: user.role,
+    await setUserPassword(prisma, user, validatedData.newPassword, { checkReuse: false });
+
+    // Following the emailed link also proves the address
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { emailVerified: true },
+    });
+
+    // Sign out everywhere and lift any lockout caused by the forgotten password
+    await revokeUserSessions(prisma, user.id);
+    await clearAccountFailures(prisma, user.email);
+
+    await recordAudit(prisma, getAuditContext(req, user), {
+      entityType: 'User',
+      entityId: user.id,
+      action: 'password_reset',
     });
 
     res.json({
       success: true,
-      data: {
-        user: {
-          id: user.id,
-          username: user.username,
-          email: user.email,
-          role: user.role,
-        },
-        token,
-      },
+      message: 'Password has been reset. You can now log in',
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const verifyEmail = async (req: AuthRequest, res: Response) => {
+  try {
+    const validatedData = verifyEmailSchema.parse(req.body);
+
+    const result = await consumeUserToken(prisma, validatedData.token, 'EMAIL_VERIFICATION');
+
+    if (!result.ok) {
+      return res.status(400).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    const user = await prisma.user.update({
+      where: { id: result.userId },
+      data: { emailVerified: true },
+    });
+
+    await recordAudit(prisma, getAuditContext(req, user), {
+      entityType: 'User',
+      entityId: user.id,
+      action: 'email_verified',
+    });
+
+    res.json({
+      success: true,
+      message: 'Email address verified. You can now log in',
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const resendVerification = async (req: AuthRequest, res: Response) => {
+  try {
+    const validatedData = emailRequestSchema.parse(req.body);
+
+    const user = await prisma.user.findUnique({
+      where: { email: validatedData.email },
+    });
+
+    if (user && !user.emailVerified) {
+      try {
+        await sendVerificationEmail(prisma, user);
+      } catch (error) {
+        console.error('Failed to send verification email:', error);
+      }
+    }
+
+    res.json({
+      success: true,
+      message: 'If this email belongs to an unverified account, a new verification link has been sent',
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const logout = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user?.sessionId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Not signed in with a session',
+      });
+    }
+
+    await revokeSession(prisma, req.user.sessionId);
+
+    await recordAudit(prisma, getAuditContext(req), {
+      entityType: 'User',
+      entityId: req.user.id,
+      action: 'logout',
+    });
+
+    res.json({
+      success: true,
+      message: 'Logged out successfully',
     });
   } catch (error) {
     throw error;
@@ -147,6 +505,8 @@ export const getMe = async (req: AuthRequest, res: Response) => {
         username: true,
         email: true,
         role: true,
+        authProvider: true,
+        mfaEnabled: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -161,7 +521,12 @@ export const getMe = async (req: AuthRequest, res: Response) => {
 
     res.json({
       success: true,
-      data: user,
+      data: {
+        ...user,
+        permissions: getEffectivePermissions({ role: user.role, scopes: req.user.scopes }),
+        mfaSetupRequired: req.user.mfaSetupRequired ?? false,
+        loginAttempts: await getLoginAttemptInfo(prisma, user.email),
+      },
     });
   } catch (error) {
     throw error;
@@ -203,16 +568,31 @@ export const updateProfile = async (req: AuthRequest, res: Response) => {
       }
     }
 
+    const profileSelect = {
+      id: true,
+      username: true,
+      email: true,
+      role: true,
+      updatedAt: true,
+    };
+
+    const currentUser = await prisma.user.findUnique({
+      where: { id: req.user.id },
+      select: profileSelect,
+    });
+
     const updatedUser = await prisma.user.update({
       where: { id: req.user.id },
       data: validatedData,
-      select: {
-        id: true,
-        username: true,
-        email: true,
-        role: true,
-        updatedAt: true,
-      },
+      select: profileSelect,
+    });
+
+    await recordAudit(prisma, getAuditContext(req), {
+      entityType: 'User',
+      entityId: req.user.id,
+      action: 'updated',
+      oldValue: currentUser,
+      newValue: updatedUser,
     });
 
     res.json({
@@ -247,6 +627,13 @@ export const changePassword = async (req: AuthRequest, res: Response) => {
       });
     }
 
+    if (user.authProvider !== 'local') {
+      return res.status(400).json({
+        success: false,
+        error: 'Your password is managed by your directory',
+      });
+    }
+
     // Verify current password
     const isValidPassword = await comparePassword(
       validatedData.currentPassword,
@@ -260,20 +647,168 @@ export const changePassword = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    // Hash new password
-    const newPasswordHash = await hashPassword(validatedData.newPassword);
+    const result = await setUserPassword(prisma, user, validatedData.newPassword);
 
-    // Update password
-    await prisma.user.update({
-      where: { id: req.user.id },
+    if (!result.ok) {
+      return res.status(result.status).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    // Sign out everywhere else; the current session stays valid
+    await revokeUserSessions(prisma, req.user.id, req.user.sessionId);
+
+    await recordAudit(prisma, getAuditContext(req), {
+      entityType: 'User',
+      entityId: req.user.id,
+      action: 'password_changed',
+    });
+
+    res.json({
+      success: true,
+      message: 'Password updated successfully',
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+const apiTokenSelect = {
+  id: true,
+  name: true,
+  tokenPrefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+};
+
+export const getApiTokens = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Not authenticated',
+      });
+    }
+
+    const tokens = await prisma.apiToken.findMany({
+      where: { userId: req.user.id },
+      select: apiTokenSelect,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    res.json({
+      success: true,
+      data: tokens,
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const createApiToken = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Not authenticated',
+      });
+    }
+
+    const validatedData = createApiTokenSchema.parse(req.body);
+
+    if (validatedData.scopes.includes('admin') && req.user.role !== 'admin') {
+      return res.status(403).json({
+        success: false,
+        error: 'Only admins can create tokens with the admin scope',
+      });
+    }
+
+    const expiresAt = validatedData.expiresAt ? new Date(validatedData.expiresAt) : null;
+    if (expiresAt && expiresAt <= new Date()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Expiry must be in the future',
+      });
+    }
+
+    const { token, prefix, hash } = generateApiToken();
+
+    const apiToken = await prisma.apiToken.create({
       data: {
-        passwordHash: newPasswordHash,
+        userId: req.user.id,
+        name: validatedData.name,
+        tokenPrefix: prefix,
+        tokenHash: hash,
+        scopes: [...new Set(validatedData.scopes)],
+        expiresAt,
       },
+      select: apiTokenSelect,
     });
 
+    await recordAudit(prisma, getAuditContext(req), {
+      entityType: 'ApiToken',
+      entityId: apiToken.id,
+      action: 'created',
+      newValue: apiToken,
+    });
+
+    // The plain token is only returned here; it cannot be retrieved later
+    res.status(201).json({
+      success: true,
+      data: {
+        ...apiToken,
+        token,
+      },
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const revokeApiToken = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Not authenticated',
+      });
+    }
+
+    const { id } = req.params;
+
+    const apiToken = await prisma.apiToken.findFirst({
+      where: { id, userId: req.user.id },
+    });
+
+    if (!apiToken) {
+      return res.status(404).json({
+        success: false,
+        error: 'API token not found',
+      });
+    }
+
+    if (!apiToken.revokedAt) {
+      const revoked = await prisma.apiToken.update({
+        where: { id },
+        data: { revokedAt: new Date() },
+      });
+
+      await recordAudit(prisma, getAuditContext(req), {
+        entityType: 'ApiToken',
+        entityId: id,
+        action: 'revoked',
+        oldValue: apiToken,
+        newValue: revoked,
+      });
+    }
+
     res.json({
       success: true,
-      message: 'Password updated successfully',
+      message: 'API token revoked successfully',
     });
   } catch (error) {
     throw error;
@@ -1,169 +1,324 @@
 import { Response } from 'express';
+import { IpAddress, Prisma, Subnet } from '@prisma/client';
 import { AuthRequest } from '../types/index.js';
 import { prisma } from '../index.js';
 import { 
   isIpInSubnet, 
   isValidIp, 
-  getSubnetRange, 
-  ipv4ToNumber, 
-  numberToIpv4,
-  ipv6ToBigInt,
-  bigIntToIpv6,
+  ipToBigInt,
+  ipToNumeric,
+  bigIntToIp,
+  detectIpVersion,
 } from '../utils/ipUtils.js';
-import { assignIpSchema, updateIpSchema, getIpAddressesQuerySchema } from '../validations/ipAddress.validation.js';
+import { findContainingSubnet, getAddressBits } from '../utils/subnetUtils.js';
+import { allocateIp } from '../utils/ipAllocator.js';
+import { resolveHolder } from '../utils/holders.js';
+import { errorResponse } from '../middleware/errorHandler.js';
+import { AuditContext, getAuditContext, ipHistoryMetadata, recordIpHistory } from '../utils/auditLog.js';
+import { diffAuditValues } from '../utils/auditDiff.js';
+import { getIpAddressStateAt } from '../utils/history.js';
+import {
+  ImportRecord,
+  ImportRowResult,
+  readCsvRecords,
+  formatRowErrors,
+  summarizeImport,
+  runImport,
+} from '../utils/csvImport.js';
+import { IMPORT } from '../config/import.js';
+import { withSubnetLock, isConcurrencyConflict, CONCURRENT_CHANGE_ERROR } from '../utils/subnetLock.js';
+import {
+  SubnetScope,
+  loadSubnetScope,
+  canAccessSubnet,
+  getVisibleSubnetIds,
+  subnetAccessError,
+} from '../utils/subnetAccess.js';
+import {
+  assignIpSchema,
+  updateIpSchema,
+  getIpAddressesQuerySchema,
+  bulkIpOperationsSchema,
+  ipAddressAtQuerySchema,
+  AssignIpInput,
+  UpdateIpInput,
+  BulkIpOperation,
+} from '../validations/ipAddress.validation.js';
+import {
+  importQuerySchema,
+  ipAddressImportRowSchema,
+  ImportQuery,
+  IpAddressImportRow,
+} from '../validations/import.validation.js';
+
+type IpOperationResult =
+  | { ok: true; record: IpAddress }
+  | { ok: false; status: number; error: string };
+
+// Upper bound on operations per bulk request
+const BULK_MAX_OPERATIONS = 500;
+
+// An all-or-nothing bulk request holds its locks for every operation
+const BULK_TRANSACTION_TIMEOUT_MS = 60000;
+
+/**
+ * Assign an address in the subnet, manually or through the allocator, and record history.
+ * Must run inside withSubnetLock for the subnet.
+ */
+async function assignInSubnet(
+  tx: Prisma.TransactionClient,
+  subnet: Subnet,
+  data: AssignIpInput,
+  audit: AuditContext
+): Promise<IpOperationResult> {
+  const { subnetId, ipAddress, allocation, excludeRanges, ...ipData } = data;
+  const mode = allocation || 'sequential';
+  let assignedIp: string | undefined;
+
+  const holder = await resolveHolder(tx, ipData.assignedUserId, ipData.assignedTeamId);
+  if (!holder.ok) {
+    return holder;
+  }
+
+  if (ipAddress) {
+    // Manual assignment
+    if (!isValidIp(ipAddress)) {
+      return { ok: false, status: 400, error: 'Invalid IP address format' };
+    }
+
+    if (!isIpInSubnet(ipAddress, subnet.networkAddress, subnet.subnetMask, subnet.ipVersion)) {
+      return { ok: false, status: 400, error: 'IP address is not within the subnet range' };
+    }
+
+    // Match on ipNumber, so other spellings of the address (IPv6 zero compression,
+    // upper case) find the same row; IPv4 and IPv6 numbers overlap, so the version too
+    const existingIp = await tx.ipAddress.findFirst({
+      where: {
+        ipNumber: ipToNumeric(ipAddress),
+        subnet: { ipVersion: subnet.ipVersion },
+        status: { not: 'AVAILABLE' },
+      },
+    });
+
+    if (existingIp) {
+      return { ok: false, status: 409, error: 'IP address is already assigned or reserved' };
+    }
+
+    assignedIp = bigIntToIp(ipToBigInt(ipAddress), subnet.ipVersion);
+  } else {
+    // Automatic assignment
+    if (mode !== 'sequential' && subnet.ipVersion !== 'IPv6') {
+      return { ok: false, status: 400, error: 'Random and EUI-64 allocation are only supported for IPv6 subnets' };
+    }
+
+    if (mode === 'eui64' && (!ipData.macAddress || subnet.subnetMask > 64)) {
+      return { ok: false, status: 400, error: 'EUI-64 allocation requires a macAddress and a subnet of /64 or larger' };
+    }
+
+    assignedIp = await allocateIp(tx, subnet, {
+      mode,
+      macAddress: ipData.macAddress,
+      excludeRanges: excludeRanges?.map(range => ({
+        start: ipToBigInt(range.startIp),
+        end: ipToBigInt(range.endIp),
+      })),
+    });
+
+    if (!assignedIp) {
+      return {
+        ok: false,
+        status: 409,
+        error: mode === 'eui64'
+          ? 'EUI-64 address for this MAC is already in use or reserved'
+          : 'No available IP addresses in this subnet',
+      };
+    }
+  }
+
+  // An AVAILABLE row for the address may already exist (released, or left by a reservation)
+  const previous = await tx.ipAddress.findFirst({
+    where: { ipNumber: ipToNumeric(assignedIp), subnet: { ipVersion: subnet.ipVersion } },
+  });
+
+  // Every field is set, so a reused row keeps nothing of its last holder
+  const assignment = {
+    ipAddress: assignedIp,
+    ipNumber: ipToNumeric(assignedIp),
+    subnetId,
+    status: ipData.status || 'ASSIGNED',
+    hostname: ipData.hostname ?? null,
+    macAddress: ipData.macAddress ?? null,
+    deviceName: ipData.deviceName ?? null,
+    assignedTo: ipData.assignedTo || holder.name || audit.changedBy,
+    assignedUserId: holder.userId ?? null,
+    assignedTeamId: holder.teamId ?? null,
+    description: ipData.description ?? null,
+    reservedUntil: null,
+  };
+
+  const ipAddressRecord = previous
+    ? await tx.ipAddress.update({
+        where: { id: previous.id },
+        data: assignment,
+      })
+    : await tx.ipAddress.create({
+        data: assignment,
+      });
+
+  // Create history record
+  await recordIpHistory(tx, {
+    ipAddressId: ipAddressRecord.id,
+    action: 'assigned',
+    ...ipHistoryMetadata(audit),
+    oldValue: previous ?? undefined,
+    newValue: ipAddressRecord,
+  });
+
+  return { ok: true, record: ipAddressRecord };
+}
+
+/**
+ * Update an address and record history. Must run inside withSubnetLock for its subnet.
+ */
+async function updateInSubnet(
+  tx: Prisma.TransactionClient,
+  id: string,
+  data: UpdateIpInput,
+  audit: AuditContext
+): Promise<IpOperationResult> {
+  // Read under the lock so the history reflects the state we replaced
+  const oldValue = await tx.ipAddress.findUnique({
+    where: { id },
+  });
+
+  if (!oldValue) {
+    return { ok: false, status: 404, error: 'IP address not found' };
+  }
+
+  const holder = await resolveHolder(tx, data.assignedUserId, data.assignedTeamId);
+  if (!holder.ok) {
+    return holder;
+  }
+
+  const updatedIp = await tx.ipAddress.update({
+    where: { id },
+    data: {
+      ...data,
+      // Picking a user or team without new free text shows its name
+      assignedTo: data.assignedTo ?? holder.name,
+      // Referencing one kind of holder clears the other
+      assignedUserId: holder.userId,
+      assignedTeamId: holder.teamId,
+    },
+  });
+
+  // Create history record
+  await recordIpHistory(tx, {
+    ipAddressId: id,
+    action: 'updated',
+    ...ipHistoryMetadata(audit),
+    oldValue: oldValue,
+    newValue: updatedIp,
+  });
+
+  return { ok: true, record: updatedIp };
+}
+
+/**
+ * Release an address back to AVAILABLE and record history.
+ * Must run inside withSubnetLock for its subnet.
+ */
+async function releaseInSubnet(
+  tx: Prisma.TransactionClient,
+  id: string,
+  audit: AuditContext
+): Promise<IpOperationResult> {
+  // Read under the lock so the history reflects the state we replaced
+  const oldValue = await tx.ipAddress.findUnique({
+    where: { id },
+  });
+
+  if (!oldValue) {
+    return { ok: false, status: 404, error: 'IP address not found' };
+  }
+
+  const releasedIp = await tx.ipAddress.update({
+    where: { id },
+    data: {
+      status: 'AVAILABLE',
+      hostname: null,
+      macAddress: null,
+      deviceName: null,
+      assignedTo: null,
+      assignedUserId: null,
+      assignedTeamId: null,
+      description: null,
+    },
+  });
+
+  // Create history record
+  await recordIpHistory(tx, {
+    ipAddressId: id,
+    action: 'released',
+    ...ipHistoryMetadata(audit),
+    oldValue: oldValue,
+    newValue: releasedIp,
+  });
+
+  return { ok: true, record: releasedIp };
+}
 
 export const assignIpAddress = async (req: AuthRequest, res: Response) => {
   try {
     const validatedData = assignIpSchema.parse(req.body);
-    const { subnetId, ipAddress, ...ipData } = validatedData;
 
     // Get subnet
     const subnet = await prisma.subnet.findUnique({
-      where: { id: subnetId },
+      where: { id: validatedData.subnetId },
     });
 
-    if (!subnet) {
+    const scope = await loadSubnetScope(prisma, req.user);
+    if (!subnet || !canAccessSubnet(scope, subnet.id)) {
       return res.status(404).json({
         success: false,
         error: 'Subnet not found',
       });
     }
 
-    let assignedIp: string | undefined;
-
-    if (ipAddress) {
-      // Manual assignment
-      if (!isValidIp(ipAddress)) {
-        return res.status(400).json({
-          success: false,
-          error: 'Invalid IP address format',
-        });
-      }
-
-      if (!isIpInSubnet(ipAddress, subnet.networkAddress, subnet.subnetMask, subnet.ipVersion)) {
-        return res.status(400).json({
-          success: false,
-          error: 'IP address is not within the subnet range',
-        });
-      }
-
-      // Check if IP already exists
-      const existingIp = await prisma.ipAddress.findUnique({
-        where: { ipAddress },
+    if (!canAccessSubnet(scope, subnet.id, 'ASSIGN')) {
+      return res.status(403).json({
+        success: false,
+        error: subnetAccessError('ASSIGN'),
       });
+    }
 
-      if (existingIp && existingIp.status !== 'AVAILABLE') {
-        return res.status(409).json({
-          success: false,
-          error: 'IP address is already assigned or reserved',
-        });
-      }
-
-      assignedIp = ipAddress;
-    } else {
-      // Automatic assignment - find first available IP
-      const range = getSubnetRange(
-        subnet.networkAddress,
-        subnet.subnetMask,
-        subnet.ipVersion
+    // Picking the address and writing it happen under the subnet lock, so two
+    // concurrent requests can never both see the same address as free
+    let result: IpOperationResult;
+    try {
+      result = await withSubnetLock(prisma, subnet.id, (tx) =>
+        assignInSubnet(tx, subnet, validatedData, getAuditContext(req))
       );
-
-      // Get all assigned IPs in subnet
-      const assignedIps = await prisma.ipAddress.findMany({
-        where: {
-          subnetId,
-          status: { in: ['ASSIGNED', 'RESERVED', 'DHCP', 'STATIC'] },
-        },
-        select: { ipAddress: true },
-      });
-
-      const assignedSet = new Set(assignedIps.map(ip => ip.ipAddress));
-      
-      let found = false;
-      
-      if (subnet.ipVersion === 'IPv6') {
-        // For IPv6, use BigInt for calculations
-        const startNum = ipv6ToBigInt(range.start);
-        const endNum = ipv6ToBigInt(range.end);
-        
-        // Limit search to first 1000 IPs to avoid performance issues
-        const maxIterations = 1000;
-        let current = startNum;
-        let iterations = 0;
-        
-        while (current <= endNum && iterations < maxIterations) {
-          const candidateIp = bigIntToIpv6(current);
-          if (!assignedSet.has(candidateIp)) {
-            assignedIp = candidateIp;
-            found = true;
-            break;
-          }
-          current = current + BigInt(1);
-          iterations++;
-        }
-      } else {
-        // For IPv4, use number calculations
-        const startNum = ipv4ToNumber(range.start);
-        const endNum = ipv4ToNumber(range.end);
-
-        for (let i = startNum; i <= endNum; i++) {
-          const candidateIp = numberToIpv4(i);
-          if (!assignedSet.has(candidateIp)) {
-            assignedIp = candidateIp;
-            found = true;
-            break;
-          }
-        }
-      }
-
-      if (!found) {
+    } catch (error) {
+      if (isConcurrencyConflict(error)) {
         return res.status(409).json({
           success: false,
-          error: 'No available IP addresses in this subnet',
+          error: CONCURRENT_CHANGE_ERROR,
         });
       }
+      throw error;
     }
 
-    // Create or update IP address
-    if (!assignedIp) {
-      return res.status(400).json({
+    if (!result.ok) {
+      return res.status(result.status).json({
         success: false,
-        error: 'Failed to assign IP address',
+        error: result.error,
       });
     }
 
-    const ipAddressRecord = await prisma.ipAddress.upsert({
-      where: { ipAddress: assignedIp },
-      update: {
-        ...ipData,
-        status: ipData.status || 'ASSIGNED',
-        subnetId,
-      },
-      create: {
-        ipAddress: assignedIp,
-        subnetId,
-        status: ipData.status || 'ASSIGNED',
-        hostname: ipData.hostname,
-        macAddress: ipData.macAddress,
-        deviceName: ipData.deviceName,
-        assignedTo: ipData.assignedTo || req.user?.username,
-        description: ipData.description,
-      },
-    });
-
-    // Create history record
-    await prisma.ipHistory.create({
-      data: {
-        ipAddressId: ipAddressRecord.id,
-        action: 'assigned',
-        changedBy: req.user?.username || 'system',
-        newValue: ipAddressRecord,
-      },
-    });
-
     res.status(201).json({
       success: true,
-      data: ipAddressRecord,
+      data: result.record,
     });
   } catch (error) {
     throw error;
@@ -178,8 +333,11 @@ export const getIpAddresses = async (req: AuthRequest, res: Response) => {
     const skip = (page - 1) * limit;
     const where: any = {};
 
+    const visibleIds = getVisibleSubnetIds(await loadSubnetScope(prisma, req.user));
     if (subnetId) {
-      where.subnetId = subnetId;
+      where.subnetId = visibleIds && !visibleIds.includes(subnetId) ? { in: [] } : subnetId;
+    } else if (visibleIds) {
+      where.subnetId = { in: visibleIds };
     }
 
     if (status) {
@@ -239,65 +397,120 @@ export const getIpAddressById = async (req: AuthRequest, res: Response) => {
       where: { id },
       include: {
         subnet: true,
-        history: {
-          orderBy: { timestamp: 'desc' },
-          take: 20,
-        },
       },
     });
 
-    if (!ipAddress) {
+    const scope = await loadSubnetScope(prisma, req.user);
+    if (!ipAddress || !canAccessSubnet(scope, ipAddress.subnetId)) {
       return res.status(404).json({
         success: false,
         error: 'IP address not found',
       });
     }
 
+    const history = await prisma.ipHistory.findMany({
+      where: { ipAddressId: id },
+      orderBy: { timestamp: 'desc' },
+      take: 20,
+    });
+
     res.json({
       success: true,
-      data: ipAddress,
+      data: { ...ipAddress, history },
     });
   } catch (error) {
     throw error;
   }
 };
 
-export const updateIpAddress = async (req: AuthRequest, res: Response) => {
+export const getIpAddressAt = async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
-    const validatedData = updateIpSchema.parse(req.body);
+    const { timestamp } = ipAddressAtQuerySchema.parse(req.query);
 
-    const existingIp = await prisma.ipAddress.findUnique({
+    const ipAddress = await prisma.ipAddress.findUnique({
       where: { id },
     });
 
-    if (!existingIp) {
+    const scope = await loadSubnetScope(prisma, req.user);
+    if (!ipAddress || !canAccessSubnet(scope, ipAddress.subnetId)) {
       return res.status(404).json({
         success: false,
         error: 'IP address not found',
       });
     }
 
-    const oldValue = { ...existingIp };
-    const updatedIp = await prisma.ipAddress.update({
-      where: { id },
-      data: validatedData,
-    });
+    const result = await getIpAddressStateAt(prisma, ipAddress, timestamp);
 
-    // Create history record
-    await prisma.ipHistory.create({
+    if (!result.ok) {
+      return res.status(result.status).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    res.json({
+      success: true,
       data: {
-        ipAddressId: id,
-        action: 'updated',
-        changedBy: req.user?.username || 'system',
-        oldValue: oldValue,
-        newValue: updatedIp,
+        timestamp,
+        historyId: result.historyId,
+        ipAddress: result.state,
       },
     });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const updateIpAddress = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const validatedData = updateIpSchema.parse(req.body);
+
+    const existingIp = await prisma.ipAddress.findUnique({
+      where: { id },
+    });
+
+    const scope = await loadSubnetScope(prisma, req.user);
+    if (!existingIp || !canAccessSubnet(scope, existingIp.subnetId)) {
+      return res.status(404).json({
+        success: false,
+        error: 'IP address not found',
+      });
+    }
+
+    if (!canAccessSubnet(scope, existingIp.subnetId, 'ASSIGN')) {
+      return res.status(403).json({
+        success: false,
+        error: subnetAccessError('ASSIGN'),
+      });
+    }
+
+    let result: IpOperationResult;
+    try {
+      result = await withSubnetLock(prisma, existingIp.subnetId, (tx) =>
+        updateInSubnet(tx, id, validatedData, getAuditContext(req))
+      );
+    } catch (error) {
+      if (isConcurrencyConflict(error)) {
+        return res.status(409).json({
+          success: false,
+          error: CONCURRENT_CHANGE_ERROR,
+        });
+      }
+      throw error;
+    }
+
+    if (!result.ok) {
+      return res.status(result.status).json({
+        success: false,
+        error: result.error,
+      });
+    }
 
     res.json({
       success: true,
-      data: updatedIp,
+      data: result.record,
     });
   } catch (error) {
     throw error;
@@ -312,43 +525,498 @@ export const releaseIpAddress = async (req: AuthRequest, res: Response) => {
       where: { id },
     });
 
-    if (!existingIp) {
+    const scope = await loadSubnetScope(prisma, req.user);
+    if (!existingIp || !canAccessSubnet(scope, existingIp.subnetId)) {
       return res.status(404).json({
         success: false,
         error: 'IP address not found',
       });
     }
 
-    const oldValue = { ...existingIp };
-    const releasedIp = await prisma.ipAddress.update({
-      where: { id },
+    if (!canAccessSubnet(scope, existingIp.subnetId, 'ASSIGN')) {
+      return res.status(403).json({
+        success: false,
+        error: subnetAccessError('ASSIGN'),
+      });
+    }
+
+    let result: IpOperationResult;
+    try {
+      result = await withSubnetLock(prisma, existingIp.subnetId, (tx) =>
+        releaseInSubnet(tx, id, getAuditContext(req))
+      );
+    } catch (error) {
+      if (isConcurrencyConflict(error)) {
+        return res.status(409).json({
+          success: false,
+          error: CONCURRENT_CHANGE_ERROR,
+        });
+      }
+      throw error;
+    }
+
+    if (!result.ok) {
+      return res.status(result.status).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    res.json({
+      success: true,
+      data: result.record,
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+type BulkTarget =
+  | { ok: true; subnet: Subnet; ipAddressId?: string }
+  | { ok: false; status: number; error: string };
+
+interface BulkItemResult {
+  index: number;
+  action: BulkIpOperation['action'];
+  success: boolean;
+  data?: IpAddress;
+  error?: string;
+}
+
+// Thrown inside an all-or-nothing bulk transaction to roll it back
+class BulkRollback extends Error {
+  constructor(public index: number, public status: number, public reason: string) {
+    super(reason);
+  }
+}
+
+/**
+ * Find the subnet an operation works on (and the IP row for update/release),
+ * checking that the caller may assign addresses in it
+ */
+async function resolveBulkTarget(operation: BulkIpOperation, scope: SubnetScope): Promise<BulkTarget> {
+  if (operation.action === 'assign') {
+    const subnet = await prisma.subnet.findUnique({
+      where: { id: operation.subnetId },
+    });
+    if (!subnet || !canAccessSubnet(scope, subnet.id)) {
+      return { ok: false, status: 404, error: 'Subnet not found' };
+    }
+    return canAccessSubnet(scope, subnet.id, 'ASSIGN')
+      ? { ok: true, subnet }
+      : { ok: false, status: 403, error: subnetAccessError('ASSIGN') };
+  }
+
+  if (!operation.id && !operation.ipAddress) {
+    return { ok: false, status: 400, error: 'Either id or ipAddress is required' };
+  }
+
+  if (!operation.id && !isValidIp(operation.ipAddress!)) {
+    return { ok: false, status: 400, error: 'Invalid IP address format' };
+  }
+
+  // By number, like assignInSubnet, so every spelling of an address finds its row
+  const ip = await prisma.ipAddress.findFirst({
+    where: operation.id
+      ? { id: operation.id }
+      : {
+          ipNumber: ipToNumeric(operation.ipAddress!),
+          subnet: { ipVersion: detectIpVersion(operation.ipAddress!) },
+        },
+    include: { subnet: true },
+  });
+  if (!ip || !canAccessSubnet(scope, ip.subnetId)) {
+    return { ok: false, status: 404, error: 'IP address not found' };
+  }
+  return canAccessSubnet(scope, ip.subnetId, 'ASSIGN')
+    ? { ok: true, subnet: ip.subnet, ipAddressId: ip.id }
+    : { ok: false, status: 403, error: subnetAccessError('ASSIGN') };
+}
+
+/**
+ * Run one bulk operation. The target was resolved before the lock was taken, so
+ * its subnet and IP row are checked again here.
+ * Must run inside withSubnetLock for the target subnet.
+ */
+async function runBulkOperation(
+  tx: Prisma.TransactionClient,
+  operation: BulkIpOperation,
+  target: { subnet: Subnet; ipAddressId?: string },
+  audit: AuditContext
+): Promise<IpOperationResult> {
+  if (operation.action === 'assign') {
+    const subnet = await tx.subnet.findUnique({
+      where: { id: target.subnet.id },
+    });
+    if (!subnet) {
+      return { ok: false, status: 404, error: 'Subnet not found' };
+    }
+    const { action, ...data } = operation;
+    return assignInSubnet(tx, subnet, data, audit);
+  }
+
+  const ip = await tx.ipAddress.findUnique({
+    where: { id: target.ipAddressId! },
+    select: { subnetId: true },
+  });
+  if (!ip) {
+    return { ok: false, status: 404, error: 'IP address not found' };
+  }
+  // Access was checked for the subnet the address was in, and only that subnet is locked
+  if (ip.subnetId !== target.subnet.id) {
+    return { ok: false, status: 409, error: 'IP address moved to another subnet' };
+  }
+
+  if (operation.action === 'update') {
+    const { action, id, ipAddress, ...data } = operation;
+    return updateInSubnet(tx, target.ipAddressId!, data, audit);
+  }
+  return releaseInSubnet(tx, target.ipAddressId!, audit);
+}
+
+export const bulkIpOperations = async (req: AuthRequest, res: Response) => {
+  try {
+    const { mode, operations } = bulkIpOperationsSchema.parse(req.body);
+
+    if (operations.length > BULK_MAX_OPERATIONS) {
+      return res.status(400).json({
+        success: false,
+        error: `A bulk request can contain at most ${BULK_MAX_OPERATIONS} operations`,
+      });
+    }
+
+    const audit = getAuditContext(req);
+    const scope = await loadSubnetScope(prisma, req.user);
+    const targets = await Promise.all(operations.map(operation => resolveBulkTarget(operation, scope)));
+
+    if (mode === 'atomic') {
+      const invalidIndex = targets.findIndex(target => !target.ok);
+      if (invalidIndex !== -1) {
+        const invalid = targets[invalidIndex] as Extract<BulkTarget, { ok: false }>;
+        return res.status(invalid.status).json({
+          success: false,
+          error: `Operation ${invalidIndex} failed: ${invalid.error}. No changes were made`,
+        });
+      }
+
+      const resolved = targets as Extract<BulkTarget, { ok: true }>[];
+      let records: IpAddress[];
+      try {
+        records = await withSubnetLock(
+          prisma,
+          resolved.map(target => target.subnet.id),
+          async (tx) => {
+            const results: IpAddress[] = [];
+            for (let index = 0; index < operations.length; index++) {
+              const result = await runBulkOperation(tx, operations[index], resolved[index], audit);
+              if (!result.ok) {
+                throw new BulkRollback(index, result.status, result.error);
+              }
+              results.push(result.record);
+            }
+            return results;
+          },
+          { timeout: BULK_TRANSACTION_TIMEOUT_MS }
+        );
+      } catch (error) {
+        if (error instanceof BulkRollback) {
+          return res.status(error.status).json({
+            success: false,
+            error: `Operation ${error.index} failed: ${error.reason}. No changes were made`,
+          });
+        }
+        if (isConcurrencyConflict(error)) {
+          return res.status(409).json({
+            success: false,
+            error: CONCURRENT_CHANGE_ERROR,
+          });
+        }
+        throw error;
+      }
+
+      return res.json({
+        success: true,
+        data: {
+          mode,
+          results: records.map((record, index): BulkItemResult => ({
+            index,
+            action: operations[index].action,
+            success: true,
+            data: record,
+          })),
+        },
+      });
+    }
+
+    // Best effort: each operation commits (or fails) on its own
+    const results: BulkItemResult[] = [];
+    for (let index = 0; index < operations.length; index++) {
+      const operation = operations[index];
+      const target = targets[index];
+
+      if (!target.ok) {
+        results.push({ index, action: operation.action, success: false, error: target.error });
+        continue;
+      }
+
+      try {
+        const result = await withSubnetLock(prisma, target.subnet.id, (tx) =>
+          runBulkOperation(tx, operation, target, audit)
+        );
+        results.push(
+          result.ok
+            ? { index, action: operation.action, success: true, data: result.record }
+            : { index, action: operation.action, success: false, error: result.error }
+        );
+      } catch (error) {
+        // Earlier operations have committed, so a failure is reported for this item
+        // rather than failing the whole request
+        results.push({
+          index,
+          action: operation.action,
+          success: false,
+          error: isConcurrencyConflict(error) ? CONCURRENT_CHANGE_ERROR : errorResponse(error).body.error,
+        });
+      }
+    }
+
+    const succeeded = results.filter(result => result.success).length;
+
+    res.json({
+      success: true,
       data: {
-        status: 'AVAILABLE',
-        hostname: null,
-        macAddress: null,
-        deviceName: null,
-        assignedTo: null,
-        description: null,
+        mode,
+        succeeded,
+        failed: results.length - succeeded,
+        results,
       },
     });
+  } catch (error) {
+    throw error;
+  }
+};
 
-    // Create history record
-    await prisma.ipHistory.create({
-      data: {
-        ipAddressId: id,
-        action: 'released',
-        changedBy: req.user?.username || 'system',
-        oldValue: oldValue,
-        newValue: releasedIp,
+// Columns of an IP address import; subnet (a CIDR) is only needed to pick another
+// subnet than the most specific one containing the address
+const IP_IMPORT_FIELDS = [
+  'ipAddress',
+  'subnet',
+  'status',
+  'hostname',
+  'macAddress',
+  'deviceName',
+  'assignedTo',
+  'description',
+] as const;
+
+type IpImportRow =
+  | { ok: true; row: number; key: string; data: IpAddressImportRow; subnet: Subnet }
+  | { ok: false; row: number; key: string; errors: string[] };
+
+// Same for every spelling of an address (IPv6 zero compression, upper case)
+function importAddressKey(ipAddress: string): string {
+  return `${detectIpVersion(ipAddress)}:${ipToBigInt(ipAddress)}`;
+}
+
+/**
+ * Validate a CSV row and find the subnet its address goes into, checking that the
+ * caller may assign addresses there. An address that already has a row stays in its subnet.
+ */
+function parseIpImportRow(
+  { row, values }: ImportRecord,
+  subnets: Subnet[],
+  existingSubnetIds: Map<string, string>,
+  scope: SubnetScope
+): IpImportRow {
+  const key = values.ipAddress ?? '';
+  const fail = (error: string): IpImportRow => ({ ok: false, row, key, errors: [error] });
+
+  const parsed = ipAddressImportRowSchema.safeParse(values);
+  if (!parsed.success) {
+    return { ok: false, row, key, errors: formatRowErrors(parsed.error) };
+  }
+
+  const data = parsed.data;
+  const existingSubnetId = existingSubnetIds.get(importAddressKey(data.ipAddress));
+  let subnet: Subnet | undefined;
+
+  if (data.subnet) {
+    const [networkAddress, mask] = data.subnet.split('/');
+    subnet = subnets.find(candidate =>
+      candidate.ipVersion === detectIpVersion(networkAddress) &&
+      candidate.subnetMask === Number(mask) &&
+      ipToBigInt(candidate.networkAddress) === ipToBigInt(networkAddress)
+    );
+    if (!subnet || !canAccessSubnet(scope, subnet.id)) {
+      return fail('Subnet not found');
+    }
+    if (!isIpInSubnet(data.ipAddress, subnet.networkAddress, subnet.subnetMask, subnet.ipVersion)) {
+      return fail('IP address is not within the subnet range');
+    }
+    if (existingSubnetId && existingSubnetId !== subnet.id) {
+      return fail('IP address already belongs to another subnet');
+    }
+  } else if (existingSubnetId) {
+    subnet = subnets.find(candidate => candidate.id === existingSubnetId);
+  } else {
+    const ipVersion = detectIpVersion(data.ipAddress);
+    subnet = findContainingSubnet(
+      { networkAddress: data.ipAddress, subnetMask: getAddressBits(ipVersion), ipVersion },
+      subnets
+    );
+  }
+
+  if (!subnet || !canAccessSubnet(scope, subnet.id)) {
+    return fail('No subnet contains this IP address');
+  }
+  if (!canAccessSubnet(scope, subnet.id, 'ASSIGN')) {
+    return fail(subnetAccessError('ASSIGN'));
+  }
+
+  return { ok: true, row, key, data, subnet };
+}
+
+/**
+ * Assign the address of a row, or update the existing assignment.
+ * Must run inside withSubnetLock for the row's subnet.
+ */
+async function importIpAddressRow(
+  tx: Prisma.TransactionClient,
+  row: Extract<IpImportRow, { ok: true }>,
+  audit: AuditContext,
+  onExisting: ImportQuery['onExisting']
+): Promise<ImportRowResult> {
+  const { ipAddress, subnet, ...fields } = row.data;
+  const result = { row: row.row, key: row.key };
+  const fail = (error: string): ImportRowResult => ({ ...result, action: 'error', errors: [error] });
+
+  const existing = await tx.ipAddress.findFirst({
+    where: { ipNumber: ipToNumeric(ipAddress), subnet: { ipVersion: row.subnet.ipVersion } },
+  });
+
+  // Moved by a concurrent split or merge after the subnet was resolved
+  if (existing && existing.subnetId !== row.subnet.id) {
+    return fail(CONCURRENT_CHANGE_ERROR);
+  }
+
+  if (!existing || existing.status === 'AVAILABLE') {
+    // Free addresses need no row
+    if (fields.status === 'AVAILABLE') {
+      return { ...result, action: 'skip' };
+    }
+
+    const assigned = await assignInSubnet(tx, row.subnet, { subnetId: row.subnet.id, ipAddress, ...fields }, audit);
+    return assigned.ok ? { ...result, action: 'create', data: assigned.record } : fail(assigned.error);
+  }
+
+  if (onExisting === 'skip') {
+    return { ...result, action: 'skip' };
+  }
+
+  if (fields.status === 'AVAILABLE') {
+    return fail('An import cannot release an assigned address');
+  }
+
+  // Empty cells leave the existing values as they are
+  const changed = (Object.keys(fields) as (keyof typeof fields)[]).some(
+    field => fields[field] !== undefined && fields[field] !== existing[field]
+  );
+  if (!changed) {
+    return { ...result, action: 'skip' };
+  }
+
+  const updated = await updateInSubnet(tx, existing.id, fields, audit);
+  return updated.ok
+    ? { ...result, action: 'update', data: updated.record, changes: diffAuditValues(existing, updated.record) }
+    : fail(updated.error);
+}
+
+export const importIpAddresses = async (req: AuthRequest, res: Response) => {
+  try {
+    const { dryRun, onExisting, mapping } = importQuerySchema.parse(req.query);
+
+    const csv = readCsvRecords(req.body, IP_IMPORT_FIELDS, mapping);
+    if (!csv.ok) {
+      return res.status(csv.status).json({
+        success: false,
+        error: csv.error,
+      });
+    }
+
+    const scope = await loadSubnetScope(prisma, req.user);
+    const audit = getAuditContext(req);
+
+    const subnets = await prisma.subnet.findMany();
+    const existing = await prisma.ipAddress.findMany({
+      where: {
+        ipNumber: {
+          in: csv.records.flatMap(({ values }) =>
+            values.ipAddress && isValidIp(values.ipAddress) ? [ipToNumeric(values.ipAddress)] : []
+          ),
+        },
       },
+      select: { ipAddress: true, subnetId: true },
     });
+    const existingSubnetIds = new Map(existing.map(ip => [importAddressKey(ip.ipAddress), ip.subnetId]));
+
+    const rows = csv.records.map(record => parseIpImportRow(record, subnets, existingSubnetIds, scope));
+    const subnetIds = rows.flatMap(row => (row.ok ? [row.subnet.id] : []));
+
+    let outcome: Awaited<ReturnType<typeof runImport>>;
+    try {
+      outcome = await runImport(
+        (fn) => withSubnetLock(prisma, subnetIds, fn, { timeout: IMPORT.transactionTimeoutMs }),
+        async (tx) => {
+          const seen = new Map<string, number>();
+          const results: ImportRowResult[] = [];
+
+          for (const row of rows) {
+            if (!row.ok) {
+              results.push({ row: row.row, key: row.key, action: 'error', errors: row.errors });
+              continue;
+            }
+
+            const addressKey = importAddressKey(row.data.ipAddress);
+            const duplicateOf = seen.get(addressKey);
+            if (duplicateOf !== undefined) {
+              results.push({ row: row.row, key: row.key, action: 'error', errors: [`Duplicate of row ${duplicateOf}`] });
+              continue;
+            }
+            seen.set(addressKey, row.row);
+
+            results.push(await importIpAddressRow(tx, row, audit, onExisting));
+          }
+
+          return results;
+        },
+        dryRun
+      );
+    } catch (error) {
+      if (isConcurrencyConflict(error)) {
+        return res.status(409).json({
+          success: false,
+          error: CONCURRENT_CHANGE_ERROR,
+        });
+      }
+      throw error;
+    }
+
+    const summary = summarizeImport(outcome.results);
+    const data = { dryRun, committed: outcome.committed, summary, results: outcome.results };
+
+    if (!dryRun && !outcome.committed) {
+      return res.status(400).json({
+        success: false,
+        error: `${summary.error} row(s) failed. No changes were made`,
+        data,
+      });
+    }
 
     res.json({
       success: true,
-      data: releasedIp,
+      data,
     });
   } catch (error) {
     throw error;
   }
 };
-
@@ -0,0 +1,452 @@
+import { Response } from 'express';
+import { AuthRequest } from '../types/index.js';
+import { prisma } from '../index.js';
+import { comparePassword } from '../utils/password.js';
+import { createSession } from '../utils/session.js';
+import { verifyMfaChallengeToken } from '../utils/jwt.js';
+import { generateTotpSecret, buildProvisioningUri, verifyTotp } from '../utils/totp.js';
+import {
+  MFA_ISSUER,
+  generateRecoveryCodes,
+  verifySecondFactor,
+  getMfaPolicy,
+  setMfaPolicy,
+  isMfaRequired,
+} from '../utils/mfa.js';
+import {
+  LoginCheck,
+  reserveLoginAttempt,
+  releaseLoginAttempt,
+  clearAccountFailures,
+} from '../utils/loginThrottle.js';
+import { getAuditContext, recordAudit } from '../utils/auditLog.js';
+import {
+  mfaVerifySchema,
+  mfaCodeSchema,
+  mfaDisableSchema,
+  mfaPolicySchema,
+} from '../validations/auth.validation.js';
+
+// Wrong codes count as failed logins wherever a code is checked, so codes cannot be guessed faster than passwords
+function refuseAttempt(res: Response, throttle: Extract<LoginCheck, { allowed: false }>) {
+  res.set('Retry-After', String(throttle.retryAfterSeconds));
+  return res.status(429).json({
+    success: false,
+    error: throttle.error,
+    retryAfter: throttle.retryAfterSeconds,
+  });
+}
+
+export const getMfaStatus = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Not authenticated',
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.id },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        enabled: user.mfaEnabled,
+        enabledAt: user.mfaEnabledAt,
+        setupPending: !user.mfaEnabled && user.mfaSecret !== null,
+        recoveryCodesRemaining: user.mfaEnabled ? user.mfaRecoveryCodes.length : 0,
+        required: await isMfaRequired(prisma, user.role),
+      },
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const setupMfa = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Not authenticated',
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.id },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    if (user.mfaEnabled) {
+      return res.status(409).json({
+        success: false,
+        error: 'Two-factor authentication is already enabled',
+      });
+    }
+
+    // Starting over replaces any secret from an enrolment that was never confirmed
+    const secret = generateTotpSecret();
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { mfaSecret: secret },
+    });
+
+    res.json({
+      success: true,
+      data: {
+        secret,
+        provisioningUri: buildProvisioningUri(secret, user.email, MFA_ISSUER),
+      },
+      message: 'Add the secret to an authenticator app, then confirm with POST /api/auth/mfa/enable',
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const enableMfa = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Not authenticated',
+      });
+    }
+
+    const validatedData = mfaCodeSchema.parse(req.body);
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.id },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    if (user.mfaEnabled) {
+      return res.status(409).json({
+        success: false,
+        error: 'Two-factor authentication is already enabled',
+      });
+    }
+
+    if (!user.mfaSecret) {
+      return res.status(400).json({
+        success: false,
+        error: 'Start enrolment with POST /api/auth/mfa/setup first',
+      });
+    }
+
+    const now = new Date();
+    const step = verifyTotp(user.mfaSecret, validatedData.code, now);
+
+    if (step === null) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid authentication code',
+      });
+    }
+
+    const { codes, hashes } = generateRecoveryCodes();
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        mfaEnabled: true,
+        mfaEnabledAt: now,
+        mfaLastUsedStep: step,
+        mfaRecoveryCodes: hashes,
+      },
+    });
+
+    await recordAudit(prisma, getAuditContext(req), {
+      entityType: 'User',
+      entityId: user.id,
+      action: 'mfa_enabled',
+    });
+
+    // Recovery codes are only returned here; each one works once
+    res.json({
+      success: true,
+      data: {
+        recoveryCodes: codes,
+      },
+      message: 'Two-factor authentication enabled',
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const disableMfa = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Not authenticated',
+      });
+    }
+
+    const validatedData = mfaDisableSchema.parse(req.body);
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.id },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    if (!user.mfaEnabled) {
+      return res.status(400).json({
+        success: false,
+        error: 'Two-factor authentication is not enabled',
+      });
+    }
+
+    if (await isMfaRequired(prisma, user.role)) {
+      return res.status(403).json({
+        success: false,
+        error: `Two-factor authentication is required for the ${user.role} role`,
+      });
+    }
+
+    const throttle = await reserveLoginAttempt(prisma, user.email, req.ip);
+    if (!throttle.allowed) {
+      return refuseAttempt(res, throttle);
+    }
+
+    const isValidPassword = await comparePassword(validatedData.password, user.passwordHash);
+    if (!isValidPassword) {
+      return res.status(401).json({
+        success: false,
+        error: 'Current password is incorrect',
+      });
+    }
+
+    if (!(await verifySecondFactor(prisma, user, validatedData))) {
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid authentication code',
+      });
+    }
+
+    await releaseLoginAttempt(prisma, throttle.attempt);
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        mfaEnabled: false,
+        mfaEnabledAt: null,
+        mfaSecret: null,
+        mfaLastUsedStep: null,
+        mfaRecoveryCodes: [],
+      },
+    });
+
+    await recordAudit(prisma, getAuditContext(req), {
+      entityType: 'User',
+      entityId: user.id,
+      action: 'mfa_disabled',
+    });
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication disabled',
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const regenerateRecoveryCodes = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Not authenticated',
+      });
+    }
+
+    const validatedData = mfaCodeSchema.parse(req.body);
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.id },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    if (!user.mfaEnabled) {
+      return res.status(400).json({
+        success: false,
+        error: 'Two-factor authentication is not enabled',
+      });
+    }
+
+    const throttle = await reserveLoginAttempt(prisma, user.email, req.ip);
+    if (!throttle.allowed) {
+      return refuseAttempt(res, throttle);
+    }
+
+    if (!(await verifySecondFactor(prisma, user, { code: validatedData.code }))) {
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid authentication code',
+      });
+    }
+
+    await releaseLoginAttempt(prisma, throttle.attempt);
+
+    // The previous codes stop working
+    const { codes, hashes } = generateRecoveryCodes();
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { mfaRecoveryCodes: hashes },
+    });
+
+    await recordAudit(prisma, getAuditContext(req), {
+      entityType: 'User',
+      entityId: user.id,
+      action: 'recovery_codes_regenerated',
+    });
+
+    res.json({
+      success: true,
+      data: {
+        recoveryCodes: codes,
+      },
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const verifyMfaLogin = async (req: AuthRequest, res: Response) => {
+  try {
+    const validatedData = mfaVerifySchema.parse(req.body);
+
+    const userId = verifyMfaChallengeToken(validatedData.challengeToken);
+    const user = userId
+      ? await prisma.user.findUnique({
+          where: { id: userId },
+        })
+      : null;
+
+    if (!user || !user.mfaEnabled) {
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid or expired challenge token',
+      });
+    }
+
+    const throttle = await reserveLoginAttempt(prisma, user.email, req.ip);
+    if (!throttle.allowed) {
+      return refuseAttempt(res, throttle);
+    }
+
+    if (!(await verifySecondFactor(prisma, user, validatedData))) {
+      await recordAudit(prisma, getAuditContext(req), {
+        entityType: 'User',
+        entityId: user.id,
+        action: 'login_failed',
+        newValue: { login: user.email, step: 'mfa' },
+      });
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid authentication code',
+      });
+    }
+
+    await releaseLoginAttempt(prisma, throttle.attempt);
+    await clearAccountFailures(prisma, user.email);
+
+    await recordAudit(prisma, getAuditContext(req, user), {
+      entityType: 'User',
+      entityId: user.id,
+      action: 'login',
+      newValue: { provider: user.authProvider, mfa: true },
+    });
+
+    const tokens = await createSession(prisma, user, {
+      userAgent: req.get('user-agent'),
+      ipAddress: req.ip,
+    });
+
+    res.json({
+      success: true,
+      data: {
+        user: {
+          id: user.id,
+          username: user.username,
+          email: user.email,
+          role: user.role,
+        },
+        ...tokens,
+      },
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const getMfaPolicySetting = async (_req: AuthRequest, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      data: await getMfaPolicy(prisma),
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const updateMfaPolicySetting = async (req: AuthRequest, res: Response) => {
+  try {
+    const validatedData = mfaPolicySchema.parse(req.body);
+
+    const previous = await getMfaPolicy(prisma);
+    const policy = await setMfaPolicy(prisma, validatedData);
+
+    await recordAudit(prisma, getAuditContext(req), {
+      entityType: 'Setting',
+      entityId: 'mfaPolicy',
+      action: 'updated',
+      oldValue: previous,
+      newValue: policy,
+    });
+
+    res.json({
+      success: true,
+      data: policy,
+      message: 'Users in the required roles without a second factor must enrol before using the API',
+    });
+  } catch (error) {
+    throw error;
+  }
+};
@@ -2,6 +2,8 @@ import { Response } from 'express';
 import { AuthRequest } from '../types/index.js';
 import { prisma } from '../index.js';
 import { getSubnetRange, detectIpVersion } from '../utils/ipUtils.js';
+import { loadSubnetScope, getVisibleSubnetIds } from '../utils/subnetAccess.js';
+import { getHoldingsQuerySchema } from '../validations/report.validation.js';
 
 interface UtilizationItem {
   subnetId: string;
@@ -21,9 +23,11 @@ interface Totals {
   availableIPs: number;
 }
 
-export const getUtilizationReport = async (_req: AuthRequest, res: Response) => {
+export const getUtilizationReport = async (req: AuthRequest, res: Response) => {
   try {
+    const visibleIds = getVisibleSubnetIds(await loadSubnetScope(prisma, req.user));
     const subnets = await prisma.subnet.findMany({
+      where: visibleIds ? { id: { in: visibleIds } } : {},
       include: {
         _count: {
           select: {
@@ -145,10 +149,12 @@ export const getUtilizationReport = async (_req: AuthRequest, res: Response) =>
   }
 };
 
-export const getStatusReport = async (_req: AuthRequest, res: Response) => {
+export const getStatusReport = async (req: AuthRequest, res: Response) => {
   try {
+    const visibleIds = getVisibleSubnetIds(await loadSubnetScope(prisma, req.user));
     const statusCounts = await prisma.ipAddress.groupBy({
       by: ['status'],
+      where: visibleIds ? { subnetId: { in: visibleIds } } : {},
       _count: {
         status: true,
       },
@@ -168,3 +174,67 @@ export const getStatusReport = async (_req: AuthRequest, res: Response) => {
   }
 };
 
+
+export const getHoldingsReport = async (req: AuthRequest, res: Response) => {
+  try {
+    const query = getHoldingsQuerySchema.parse(req.query);
+
+    const holder = query.teamId
+      ? await prisma.team.findUnique({ where: { id: query.teamId }, select: { id: true, name: true } })
+      : await prisma.user.findUnique({ where: { id: query.userId }, select: { id: true, username: true } });
+
+    if (!holder) {
+      return res.status(404).json({
+        success: false,
+        error: query.teamId ? 'Team not found' : 'User not found',
+      });
+    }
+
+    const visibleIds = getVisibleSubnetIds(await loadSubnetScope(prisma, req.user));
+    const subnetFilter = visibleIds ? { subnetId: { in: visibleIds } } : {};
+    const subnetSelect = { select: { id: true, cidr: true } };
+
+    const [ipAddresses, reservations] = await Promise.all([
+      prisma.ipAddress.findMany({
+        where: {
+          ...subnetFilter,
+          ...(query.teamId ? { assignedTeamId: query.teamId } : { assignedUserId: query.userId }),
+          status: { not: 'AVAILABLE' },
+        },
+        include: { subnet: subnetSelect },
+        orderBy: [{ subnetId: 'asc' }, { ipNumber: 'asc' }],
+      }),
+      prisma.reservation.findMany({
+        where: {
+          ...subnetFilter,
+          ...(query.teamId ? { reservedByTeamId: query.teamId } : { reservedByUserId: query.userId }),
+        },
+        include: { subnet: subnetSelect },
+        orderBy: [{ subnetId: 'asc' }, { startIpNumber: 'asc' }],
+      }),
+    ]);
+
+    const byStatus = ipAddresses.reduce((acc: Record<string, number>, ip) => {
+      acc[ip.status] = (acc[ip.status] || 0) + 1;
+      return acc;
+    }, {});
+
+    res.json({
+      success: true,
+      data: {
+        holder: query.teamId
+          ? { type: 'team', ...holder }
+          : { type: 'user', ...holder },
+        ipAddresses,
+        reservations,
+        totals: {
+          ipAddresses: ipAddresses.length,
+          reservations: reservations.length,
+          byStatus,
+        },
+      },
+    });
+  } catch (error) {
+    throw error;
+  }
+};
@@ -1,15 +1,187 @@
 import { Response } from 'express';
+import { Prisma, Reservation, Subnet } from '@prisma/client';
 import { AuthRequest } from '../types/index.js';
 import { prisma } from '../index.js';
 import { 
   isIpInSubnet, 
-  ipv4ToNumber, 
-  numberToIpv4,
-  ipv6ToBigInt,
-  bigIntToIpv6
+  ipToBigInt,
+  bigIntToIp,
+  ipToNumeric
 } from '../utils/ipUtils.js';
+import { resolveHolder } from '../utils/holders.js';
+import { withSubnetLock, isConcurrencyConflict, CONCURRENT_CHANGE_ERROR } from '../utils/subnetLock.js';
+import { getAuditContext, recordAudit } from '../utils/auditLog.js';
+import {
+  loadSubnetScope,
+  canAccessSubnet,
+  getVisibleSubnetIds,
+  subnetAccessError,
+} from '../utils/subnetAccess.js';
 import { createReservationSchema, updateReservationSchema } from '../validations/reservation.validation.js';
 
+type ReservationResult =
+  | { ok: true; reservation: Reservation }
+  | { ok: false; status: number; error: string; conflicts?: string[] };
+
+// Addresses marked RESERVED per reservation (limit to 1000 IPs for performance);
+// allocation skips the whole reserved range either way
+const MAX_RESERVED_ROWS = 1000;
+
+interface ReservedRange {
+  subnetId: string;
+  startIp: string;
+  endIp: string;
+  purpose?: string | null;
+  reservedBy?: string | null;
+  reservedByUserId?: string | null;
+  reservedByTeamId?: string | null;
+}
+
+/**
+ * Check that a range lies within the subnet and does not run backwards
+ */
+function checkRange(subnet: Subnet, startIp: string, endIp: string): string | null {
+  if (!isIpInSubnet(startIp, subnet.networkAddress, subnet.subnetMask, subnet.ipVersion) ||
+      !isIpInSubnet(endIp, subnet.networkAddress, subnet.subnetMask, subnet.ipVersion)) {
+    return 'IP range is not within the subnet';
+  }
+  if (ipToBigInt(startIp) > ipToBigInt(endIp)) {
+    return 'Start IP must be less than or equal to end IP';
+  }
+  return null;
+}
+
+/**
+ * Validate a range for a reservation and check it against assigned addresses and
+ * other reservations. Must run inside withSubnetLock for the subnet.
+ */
+async function checkRangeAvailable(
+  tx: Prisma.TransactionClient,
+  range: ReservedRange,
+  reservationId?: string
+): Promise<Extract<ReservationResult, { ok: false }> | null> {
+  const subnet = await tx.subnet.findUnique({
+    where: { id: range.subnetId },
+  });
+  if (!subnet) {
+    return { ok: false, status: 404, error: 'Subnet not found' };
+  }
+
+  const rangeError = checkRange(subnet, range.startIp, range.endIp);
+  if (rangeError) {
+    return { ok: false, status: 400, error: rangeError };
+  }
+
+  const startIpNumber = ipToNumeric(range.startIp);
+  const endIpNumber = ipToNumeric(range.endIp);
+
+  // Check for conflicts with existing IPs
+  const conflictingIps = await tx.ipAddress.findMany({
+    where: {
+      subnetId: range.subnetId,
+      ipNumber: {
+        gte: startIpNumber,
+        lte: endIpNumber,
+      },
+      status: { in: ['ASSIGNED', 'DHCP', 'STATIC'] },
+    },
+  });
+
+  if (conflictingIps.length > 0) {
+    return {
+      ok: false,
+      status: 409,
+      error: 'IP range conflicts with existing assigned IPs',
+      conflicts: conflictingIps.map(ip => ip.ipAddress),
+    };
+  }
+
+  // Check for overlapping reservations
+  const overlappingReservations = await tx.reservation.findMany({
+    where: {
+      subnetId: range.subnetId,
+      startIpNumber: { lte: endIpNumber },
+      endIpNumber: { gte: startIpNumber },
+      ...(reservationId ? { id: { not: reservationId } } : {}),
+    },
+  });
+
+  if (overlappingReservations.length > 0) {
+    return {
+      ok: false,
+      status: 409,
+      error: 'IP range overlaps an existing reservation',
+      conflicts: overlappingReservations.map(r => `${r.startIp}-${r.endIp}`),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Mark the addresses of a reserved range RESERVED for its holder, reusing AVAILABLE rows.
+ * Must run inside withSubnetLock for the subnet.
+ */
+async function reserveRange(tx: Prisma.TransactionClient, range: ReservedRange, ipVersion: Subnet['ipVersion']) {
+  const start = ipToBigInt(range.startIp);
+  const end = ipToBigInt(range.endIp);
+  const rowData = {
+    subnetId: range.subnetId,
+    status: 'RESERVED' as const,
+    description: range.purpose,
+    assignedTo: range.reservedBy,
+    assignedUserId: range.reservedByUserId,
+    assignedTeamId: range.reservedByTeamId,
+  };
+
+  await tx.ipAddress.updateMany({
+    where: {
+      subnetId: range.subnetId,
+      ipNumber: { gte: start.toString(), lte: end.toString() },
+      status: 'AVAILABLE',
+    },
+    data: rowData,
+  });
+
+  const ipAddresses: Prisma.IpAddressCreateManyInput[] = [];
+  for (let value = start; value <= end && ipAddresses.length < MAX_RESERVED_ROWS; value++) {
+    const ip = bigIntToIp(value, ipVersion);
+    ipAddresses.push({ ...rowData, ipAddress: ip, ipNumber: value.toString() });
+  }
+
+  if (ipAddresses.length > 0) {
+    await tx.ipAddress.createMany({
+      data: ipAddresses,
+      skipDuplicates: true,
+    });
+  }
+}
+
+/**
+ * Return the RESERVED addresses of a reservation to AVAILABLE, without its holder and purpose.
+ * Must run inside withSubnetLock for its subnet.
+ */
+async function releaseRange(tx: Prisma.TransactionClient, reservation: Reservation) {
+  // For large ranges, update by range instead of individual IPs
+  await tx.ipAddress.updateMany({
+    where: {
+      subnetId: reservation.subnetId,
+      ipNumber: {
+        gte: reservation.startIpNumber ?? ipToNumeric(reservation.startIp),
+        lte: reservation.endIpNumber ?? ipToNumeric(reservation.endIp),
+      },
+      status: 'RESERVED',
+    },
+    data: {
+      status: 'AVAILABLE',
+      assignedTo: null,
+      assignedUserId: null,
+      assignedTeamId: null,
+      description: null,
+    },
+  });
+}
+
 export const createReservation = async (req: AuthRequest, res: Response) => {
   try {
     const validatedData = createReservationSchema.parse(req.body);
@@ -20,123 +192,92 @@ export const createReservation = async (req: AuthRequest, res: Response) => {
       where: { id: subnetId },
     });
 
-    if (!subnet) {
+    const scope = await loadSubnetScope(prisma, req.user);
+    if (!subnet || !canAccessSubnet(scope, subnetId)) {
       return res.status(404).json({
         success: false,
         error: 'Subnet not found',
       });
     }
 
-    // Validate IPs are within subnet
-    const ipVersion = (subnet as any).ipVersion;
-    if (!isIpInSubnet(startIp, subnet.networkAddress, subnet.subnetMask, ipVersion) ||
-        !isIpInSubnet(endIp, subnet.networkAddress, subnet.subnetMask, ipVersion)) {
-      return res.status(400).json({
+    if (!canAccessSubnet(scope, subnetId, 'RESERVE')) {
+      return res.status(403).json({
         success: false,
-        error: 'IP range is not within the subnet',
+        error: subnetAccessError('RESERVE'),
       });
     }
 
-    // Validate start IP is before end IP
-    let startBeforeEnd = false;
-    if (ipVersion === 'IPv6') {
-      const startNum = ipv6ToBigInt(startIp);
-      const endNum = ipv6ToBigInt(endIp);
-      startBeforeEnd = startNum <= endNum;
-    } else {
-      const startNum = ipv4ToNumber(startIp);
-      const endNum = ipv4ToNumber(endIp);
-      startBeforeEnd = startNum <= endNum;
-    }
-    
-    if (!startBeforeEnd) {
-      return res.status(400).json({
+    const holder = await resolveHolder(prisma, reservationData.reservedByUserId, reservationData.reservedByTeamId);
+    if (!holder.ok) {
+      return res.status(holder.status).json({
         success: false,
-        error: 'Start IP must be less than or equal to end IP',
+        error: holder.error,
       });
     }
 
-    // Check for conflicts with existing IPs
-    const conflictingIps = await prisma.ipAddress.findMany({
-      where: {
-        subnetId,
-        ipAddress: {
-          gte: startIp,
-          lte: endIp,
-        },
-        status: { in: ['ASSIGNED', 'DHCP', 'STATIC'] },
-      },
-    });
-
-    if (conflictingIps.length > 0) {
-      return res.status(409).json({
-        success: false,
-        error: 'IP range conflicts with existing assigned IPs',
-        conflicts: conflictingIps.map(ip => ip.ipAddress),
-      });
-    }
+    const range: ReservedRange = {
+      subnetId,
+      startIp,
+      endIp,
+      purpose: reservationData.purpose,
+      reservedBy: reservationData.reservedBy || holder.name || req.user?.username,
+      reservedByUserId: holder.userId,
+      reservedByTeamId: holder.teamId,
+    };
+
+    // Range checks and writes run under the subnet lock so a concurrent
+    // assignment cannot slip into the range between the check and the insert
+    let result: ReservationResult;
+    try {
+      result = await withSubnetLock(prisma, subnetId, async (tx): Promise<ReservationResult> => {
+        const unavailable = await checkRangeAvailable(tx, range);
+        if (unavailable) {
+          return unavailable;
+        }
+
+        // Create reservation
+        const reservation = await tx.reservation.create({
+          data: {
+            ...range,
+            startIpNumber: ipToNumeric(startIp),
+            endIpNumber: ipToNumeric(endIp),
+            expiresAt: reservationData.expiresAt ? new Date(reservationData.expiresAt) : null,
+          },
+        });
 
-    // Create reservation
-    const reservation = await prisma.reservation.create({
-      data: {
-        subnetId,
-        startIp,
-        endIp,
-        purpose: reservationData.purpose,
-        reservedBy: reservationData.reservedBy || req.user?.username,
-        expiresAt: reservationData.expiresAt ? new Date(reservationData.expiresAt) : null,
-      },
-    });
+        await reserveRange(tx, range, subnet.ipVersion);
 
-    // Reserve all IPs in the range (limit to 1000 IPs for performance)
-    const ipAddresses = [];
-    const maxIps = 1000;
-    let count = 0;
-    
-    if (ipVersion === 'IPv6') {
-      const startNum = ipv6ToBigInt(startIp);
-      const endNum = ipv6ToBigInt(endIp);
-      let current = startNum;
-      
-      while (current <= endNum && count < maxIps) {
-        const ip = bigIntToIpv6(current);
-        ipAddresses.push({
-          ipAddress: ip,
+        await recordAudit(tx, getAuditContext(req), {
+          entityType: 'Reservation',
+          entityId: reservation.id,
+          action: 'created',
           subnetId,
-          status: 'RESERVED' as const,
-          description: reservationData.purpose,
-          assignedTo: reservationData.reservedBy || req.user?.username,
+          newValue: reservation,
         });
-        current = current + BigInt(1);
-        count++;
-      }
-    } else {
-      const startNum = ipv4ToNumber(startIp);
-      const endNum = ipv4ToNumber(endIp);
-      
-      for (let i = startNum; i <= endNum && count < maxIps; i++) {
-        const ip = numberToIpv4(i);
-        ipAddresses.push({
-          ipAddress: ip,
-          subnetId,
-          status: 'RESERVED' as const,
-          description: reservationData.purpose,
-          assignedTo: reservationData.reservedBy || req.user?.username,
+
+        return { ok: true, reservation };
+      });
+    } catch (error) {
+      if (isConcurrencyConflict(error)) {
+        return res.status(409).json({
+          success: false,
+          error: CONCURRENT_CHANGE_ERROR,
         });
-        count++;
       }
+      throw error;
     }
 
-    if (ipAddresses.length > 0) {
-      await prisma.ipAddress.createMany({
-        data: ipAddresses,
-        skipDuplicates: true,
+    if (!result.ok) {
+      return res.status(result.status).json({
+        success: false,
+        error: result.error,
+        conflicts: result.conflicts,
       });
     }
 
     res.status(201).json({
       success: true,
-      data: reservation,
+      data: result.reservation,
     });
   } catch (error) {
     throw error;
@@ -148,8 +289,11 @@ export const getReservations = async (req: AuthRequest, res: Response) => {
     const { subnetId, search } = req.query;
 
     const where: any = {};
+    const visibleIds = getVisibleSubnetIds(await loadSubnetScope(prisma, req.user));
     if (subnetId) {
-      where.subnetId = subnetId as string;
+      where.subnetId = visibleIds && !visibleIds.includes(subnetId as string) ? { in: [] } : subnetId as string;
+    } else if (visibleIds) {
+      where.subnetId = { in: visibleIds };
     }
     if (search) {
       where.OR = [
@@ -195,7 +339,8 @@ export const getReservationById = async (req: AuthRequest, res: Response) => {
       },
     });
 
-    if (!reservation) {
+    const scope = await loadSubnetScope(prisma, req.user);
+    if (!reservation || !canAccessSubnet(scope, reservation.subnetId)) {
       return res.status(404).json({
         success: false,
         error: 'Reservation not found',
@@ -220,26 +365,116 @@ export const updateReservation = async (req: AuthRequest, res: Response) => {
       where: { id },
     });
 
-    if (!reservation) {
+    const scope = await loadSubnetScope(prisma, req.user);
+    if (!reservation || !canAccessSubnet(scope, reservation.subnetId)) {
       return res.status(404).json({
         success: false,
         error: 'Reservation not found',
       });
     }
 
-    const updateData: any = { ...validatedData };
-    if (validatedData.expiresAt) {
-      updateData.expiresAt = new Date(validatedData.expiresAt);
+    if (!canAccessSubnet(scope, reservation.subnetId, 'RESERVE')) {
+      return res.status(403).json({
+        success: false,
+        error: subnetAccessError('RESERVE'),
+      });
     }
 
-    const updated = await prisma.reservation.update({
-      where: { id },
-      data: updateData,
-    });
+    // Moving the reservation to another subnet needs the same access there
+    if (validatedData.subnetId && !canAccessSubnet(scope, validatedData.subnetId, 'RESERVE')) {
+      return res.status(403).json({
+        success: false,
+        error: subnetAccessError('RESERVE'),
+      });
+    }
+
+    const holder = await resolveHolder(prisma, validatedData.reservedByUserId, validatedData.reservedByTeamId);
+    if (!holder.ok) {
+      return res.status(holder.status).json({
+        success: false,
+        error: holder.error,
+      });
+    }
+
+    const subnetId = validatedData.subnetId ?? reservation.subnetId;
+
+    // Checked and re-synced under the locks of the old and new subnet, like createReservation
+    let result: ReservationResult;
+    try {
+      result = await withSubnetLock(prisma, [reservation.subnetId, subnetId], async (tx): Promise<ReservationResult> => {
+        const current = await tx.reservation.findUnique({
+          where: { id },
+        });
+        if (!current) {
+          return { ok: false, status: 404, error: 'Reservation not found' };
+        }
+        // Moved to another subnet since it was read, whose lock is not held
+        if (current.subnetId !== reservation.subnetId) {
+          return { ok: false, status: 409, error: CONCURRENT_CHANGE_ERROR };
+        }
+
+        const range: ReservedRange = {
+          subnetId,
+          startIp: validatedData.startIp ?? current.startIp,
+          endIp: validatedData.endIp ?? current.endIp,
+          purpose: validatedData.purpose ?? current.purpose,
+          reservedBy: validatedData.reservedBy ?? holder.name ?? current.reservedBy,
+          reservedByUserId: holder.userId === undefined ? current.reservedByUserId : holder.userId,
+          reservedByTeamId: holder.teamId === undefined ? current.reservedByTeamId : holder.teamId,
+        };
+
+        const unavailable = await checkRangeAvailable(tx, range, id);
+        if (unavailable) {
+          return unavailable;
+        }
+
+        const saved = await tx.reservation.update({
+          where: { id },
+          data: {
+            ...range,
+            startIpNumber: ipToNumeric(range.startIp),
+            endIpNumber: ipToNumeric(range.endIp),
+            ...(validatedData.expiresAt ? { expiresAt: new Date(validatedData.expiresAt) } : {}),
+          },
+        });
+
+        // The reserved rows follow the range and holder: release the old range, then reserve the new one
+        const subnet = await tx.subnet.findUniqueOrThrow({ where: { id: subnetId } });
+        await releaseRange(tx, current);
+        await reserveRange(tx, range, subnet.ipVersion);
+
+        await recordAudit(tx, getAuditContext(req), {
+          entityType: 'Reservation',
+          entityId: id,
+          action: 'updated',
+          subnetId: saved.subnetId,
+          oldValue: current,
+          newValue: saved,
+        });
+
+        return { ok: true, reservation: saved };
+      });
+    } catch (error) {
+      if (isConcurrencyConflict(error)) {
+        return res.status(409).json({
+          success: false,
+          error: CONCURRENT_CHANGE_ERROR,
+        });
+      }
+      throw error;
+    }
+
+    if (!result.ok) {
+      return res.status(result.status).json({
+        success: false,
+        error: result.error,
+        conflicts: result.conflicts,
+      });
+    }
 
     res.json({
       success: true,
-      data: updated,
+      data: result.reservation,
     });
   } catch (error) {
     throw error;
@@ -254,43 +489,67 @@ export const deleteReservation = async (req: AuthRequest, res: Response) => {
       where: { id },
     });
 
-    if (!reservation) {
+    const scope = await loadSubnetScope(prisma, req.user);
+    if (!reservation || !canAccessSubnet(scope, reservation.subnetId)) {
       return res.status(404).json({
         success: false,
         error: 'Reservation not found',
       });
     }
 
-    // Release reserved IPs
-    const subnet = await prisma.subnet.findUnique({
-      where: { id: reservation.subnetId },
-    });
-    
-    if (!subnet) {
-      return res.status(404).json({
+    if (!canAccessSubnet(scope, reservation.subnetId, 'RESERVE')) {
+      return res.status(403).json({
         success: false,
-        error: 'Subnet not found',
+        error: subnetAccessError('RESERVE'),
       });
     }
 
-    // For large ranges, delete by range instead of individual IPs
-    await prisma.ipAddress.updateMany({
-      where: {
-        subnetId: reservation.subnetId,
-        ipAddress: {
-          gte: reservation.startIp,
-          lte: reservation.endIp,
-        },
-        status: 'RESERVED',
-      },
-      data: {
-        status: 'AVAILABLE',
-      },
-    });
+    // Re-read under the lock: a concurrent update may have moved the range since
+    let result: ReservationResult;
+    try {
+      result = await withSubnetLock(prisma, reservation.subnetId, async (tx): Promise<ReservationResult> => {
+        const current = await tx.reservation.findUnique({
+          where: { id },
+        });
+        if (!current) {
+          return { ok: false, status: 404, error: 'Reservation not found' };
+        }
+        if (current.subnetId !== reservation.subnetId) {
+          return { ok: false, status: 409, error: CONCURRENT_CHANGE_ERROR };
+        }
 
-    await prisma.reservation.delete({
-      where: { id },
-    });
+        await releaseRange(tx, current);
+
+        await tx.reservation.delete({
+          where: { id },
+        });
+
+        await recordAudit(tx, getAuditContext(req), {
+          entityType: 'Reservation',
+          entityId: id,
+          action: 'deleted',
+          subnetId: current.subnetId,
+          oldValue: current,
+        });
+
+        return { ok: true, reservation: current };
+      });
+    } catch (error) {
+      if (isConcurrencyConflict(error)) {
+        return res.status(409).json({
+          success: false,
+          error: CONCURRENT_CHANGE_ERROR,
+        });
+      }
+      throw error;
+    }
+
+    if (!result.ok) {
+      return res.status(result.status).json({
+        success: false,
+        error: result.error,
+      });
+    }
 
     res.json({
       success: true,
@@ -1,8 +1,214 @@
 import { Response } from 'express';
-import { AuthRequest } from '../types/index.js';
+import { Prisma, Subnet } from '@prisma/client';
+import { AuthRequest, SubnetTreeNode, SubnetUtilization } from '../types/index.js';
 import { prisma } from '../index.js';
-import { generateCidr, getSubnetRange, detectIpVersion } from '../utils/ipUtils.js';
-import { createSubnetSchema, updateSubnetSchema, getSubnetsQuerySchema } from '../validations/subnet.validation.js';
+import { IpVersion, generateCidr, getSubnetRange, detectIpVersion, ipToBigInt, isValidCidr } from '../utils/ipUtils.js';
+import {
+  SubnetPrefix,
+  isSubnetWithin,
+  findContainingSubnet,
+  findOverlappingSubnets,
+  findAvailableBlock,
+  getAddressBits,
+  getPrefixBounds,
+  splitPrefix,
+  aggregatePrefixes,
+  findFreeRanges,
+  toFreeBlock,
+  AddressRange,
+} from '../utils/subnetUtils.js';
+import {
+  withSubnetLock,
+  isConcurrencyConflict,
+  CONCURRENT_CHANGE_ERROR,
+  SUBNET_TREE_LOCK,
+} from '../utils/subnetLock.js';
+import { getHostBounds } from '../utils/ipAllocator.js';
+import { AuditContext, getAuditContext, recordAudit } from '../utils/auditLog.js';
+import { diffAuditValues } from '../utils/auditDiff.js';
+import { getSubnetSnapshot } from '../utils/history.js';
+import {
+  ImportRecord,
+  ImportRowResult,
+  readCsvRecords,
+  formatRowErrors,
+  summarizeImport,
+  runImport,
+} from '../utils/csvImport.js';
+import { IMPORT } from '../config/import.js';
+import {
+  SubnetScope,
+  loadSubnetScope,
+  canAccessSubnet,
+  getVisibleSubnetIds,
+  subnetAccessError,
+  lowerLevel,
+} from '../utils/subnetAccess.js';
+import {
+  createSubnetSchema,
+  updateSubnetSchema,
+  getSubnetsQuerySchema,
+  allocateChildSubnetSchema,
+  splitSubnetSchema,
+  mergeSubnetsSchema,
+  getSubnetTreeQuerySchema,
+  subnetAccessSchema,
+  subnetSnapshotQuerySchema,
+  CreateSubnetInput,
+} from '../validations/subnet.validation.js';
+import { importQuerySchema, ImportQuery } from '../validations/import.validation.js';
+
+// Upper bound on how many subnets a single split may create
+const MAX_SPLIT_PARTS = 1024;
+
+// Split/merge transactions move every IP row of the subnet, so allow more time
+const RESTRUCTURE_TRANSACTION_TIMEOUT_MS = 30000;
+
+function buildUtilization(totalIPs: number, usedIPs: number, reservedIPs: number): SubnetUtilization {
+  return {
+    totalIPs,
+    usedIPs,
+    reservedIPs,
+    availableIPs: Math.max(0, totalIPs - usedIPs - reservedIPs),
+    utilizationPercentage: totalIPs > 0 ? ((usedIPs / totalIPs) * 100).toFixed(2) : '0.00',
+  };
+}
+
+type HierarchyCheck =
+  | { ok: true; parentSubnetId: string | null }
+  | { ok: false; status: number; error: string; conflicts?: string[] };
+
+// Outcome of a change made under the tree lock; failures are returned before anything is written
+type SubnetChange<T> =
+  | { ok: true; data: T }
+  | { ok: false; status: number; error: string; conflicts?: string[] };
+
+// Fields the hierarchy checks need, for every subnet
+const HIERARCHY_SELECT = {
+  id: true,
+  networkAddress: true,
+  subnetMask: true,
+  ipVersion: true,
+  cidr: true,
+  parentSubnetId: true,
+} satisfies Prisma.SubnetSelect;
+
+type HierarchySubnet = Prisma.SubnetGetPayload<{ select: typeof HIERARCHY_SELECT }>;
+
+/**
+ * Resolve the parent of a new or changed subnet and make sure it fits the hierarchy:
+ * the subnet must sit inside its parent, must not overlap its siblings, and (when
+ * updating) must still contain its own children. Without an explicit parent, the most
+ * specific containing subnet is used.
+ */
+async function checkSubnetHierarchy(
+  db: Prisma.TransactionClient,
+  candidate: SubnetPrefix,
+  parentSubnetId?: string | null,
+  subnetId?: string
+): Promise<HierarchyCheck> {
+  const subnets = await db.subnet.findMany({ select: HIERARCHY_SELECT });
+  return placeSubnet(candidate, subnets, parentSubnetId, subnetId);
+}
+
+/**
+ * The hierarchy check against a list of all subnets, for callers placing many at once
+ */
+function placeSubnet(
+  candidate: SubnetPrefix,
+  allSubnets: HierarchySubnet[],
+  parentSubnetId?: string | null,
+  subnetId?: string
+): HierarchyCheck {
+  const subnets = allSubnets.filter(
+    subnet => subnet.ipVersion === candidate.ipVersion && subnet.id !== subnetId
+  );
+
+  let parent: typeof subnets[number] | undefined;
+
+  if (parentSubnetId) {
+    if (parentSubnetId === subnetId) {
+      return { ok: false, status: 400, error: 'Subnet cannot be its own parent' };
+    }
+
+    parent = subnets.find(subnet => subnet.id === parentSubnetId);
+    if (!parent) {
+      return allSubnets.some(subnet => subnet.id === parentSubnetId)
+        ? { ok: false, status: 400, error: 'Parent subnet must have the same IP version' }
+        : { ok: false, status: 404, error: 'Parent subnet not found' };
+    }
+
+    if (!isSubnetWithin(candidate, parent) || candidate.subnetMask === parent.subnetMask) {
+      return {
+        ok: false,
+        status: 409,
+        error: 'Subnet is not contained within its parent subnet',
+        conflicts: [parent.cidr],
+      };
+    }
+  } else {
+    parent = findContainingSubnet(candidate, subnets);
+  }
+
+  const resolvedParentId = parent ? parent.id : null;
+
+  const siblings = subnets.filter(subnet => subnet.parentSubnetId === resolvedParentId);
+  const overlapping = findOverlappingSubnets(candidate, siblings);
+  if (overlapping.length > 0) {
+    return {
+      ok: false,
+      status: 409,
+      error: 'Subnet overlaps existing subnets',
+      conflicts: overlapping.map(subnet => subnet.cidr),
+    };
+  }
+
+  if (subnetId) {
+    const children = subnets.filter(subnet => subnet.parentSubnetId === subnetId);
+    const outside = children.filter(child => !isSubnetWithin(child, candidate));
+    if (outside.length > 0) {
+      return {
+        ok: false,
+        status: 409,
+        error: 'Child subnets would fall outside the updated subnet',
+        conflicts: outside.map(subnet => subnet.cidr),
+      };
+    }
+  }
+
+  return { ok: true, parentSubnetId: resolvedParentId };
+}
+
+/**
+ * Addresses and reservations of a subnet that would fall outside the host range of a new prefix
+ */
+async function findOutsideHostRange(
+  tx: Prisma.TransactionClient,
+  subnetId: string,
+  prefix: SubnetPrefix
+): Promise<string[]> {
+  const host = getHostBounds({ id: subnetId, ...prefix });
+  const [ipAddresses, reservations] = await Promise.all([
+    tx.ipAddress.findMany({
+      where: {
+        subnetId,
+        OR: [{ ipNumber: { lt: host.start.toString() } }, { ipNumber: { gt: host.end.toString() } }],
+      },
+      select: { ipAddress: true },
+    }),
+    tx.reservation.findMany({
+      where: { subnetId },
+      select: { startIp: true, endIp: true },
+    }),
+  ]);
+
+  return [
+    ...ipAddresses.map(ip => ip.ipAddress),
+    ...reservations
+      .filter(reservation => ipToBigInt(reservation.startIp) < host.start || ipToBigInt(reservation.endIp) > host.end)
+      .map(reservation => `${reservation.startIp}-${reservation.endIp}`),
+  ];
+}
 
 export const createSubnet = async (req: AuthRequest, res: Response) => {
   try {
@@ -14,41 +220,80 @@ export const createSubnet = async (req: AuthRequest, res: Response) => {
     // Generate CIDR
     const cidr = generateCidr(validatedData.networkAddress, validatedData.subnetMask, ipVersion);
 
-    // Check if subnet already exists (with IP version)
-    const existingSubnet = await prisma.subnet.findUnique({
-      where: {
-        networkAddress_subnetMask_ipVersion: {
+    const scope = await loadSubnetScope(prisma, req.user);
+
+    // Checked and created under the tree lock, so concurrent creates cannot both pass the overlap check
+    const result = await withSubnetLock(prisma, SUBNET_TREE_LOCK, async (tx): Promise<SubnetChange<Subnet>> => {
+      // Check if subnet already exists (with IP version)
+      const existingSubnet = await tx.subnet.findUnique({
+        where: {
+          networkAddress_subnetMask_ipVersion: {
+            networkAddress: validatedData.networkAddress,
+            subnetMask: validatedData.subnetMask,
+            ipVersion: ipVersion,
+          },
+        },
+      });
+
+      if (existingSubnet) {
+        return { ok: false, status: 409, error: 'Subnet with this network address and mask already exists' };
+      }
+
+      // Validate placement in the subnet hierarchy
+      const hierarchy = await checkSubnetHierarchy(
+        tx,
+        {
+          networkAddress: validatedData.networkAddress,
+          subnetMask: validatedData.subnetMask,
+          ipVersion,
+        },
+        validatedData.parentSubnetId
+      );
+
+      if (!hierarchy.ok) {
+        return hierarchy;
+      }
+
+      // Creating a subnet inside a scoped parent requires administering the parent
+      if (hierarchy.parentSubnetId && !canAccessSubnet(scope, hierarchy.parentSubnetId, 'ADMIN')) {
+        return { ok: false, status: 403, error: subnetAccessError('ADMIN') };
+      }
+
+      const created = await tx.subnet.create({
+        data: {
           networkAddress: validatedData.networkAddress,
           subnetMask: validatedData.subnetMask,
           ipVersion: ipVersion,
+          cidr,
+          description: validatedData.description,
+          vlanId: validatedData.vlanId,
+          location: validatedData.location,
+          parentSubnetId: hierarchy.parentSubnetId,
         },
-      },
+      });
+
+      await recordAudit(tx, getAuditContext(req), {
+        entityType: 'Subnet',
+        entityId: created.id,
+        action: 'created',
+        subnetId: created.id,
+        newValue: created,
+      });
+
+      return { ok: true, data: created };
     });
 
-    if (existingSubnet) {
-      return res.status(409).json({
+    if (!result.ok) {
+      return res.status(result.status).json({
         success: false,
-        error: 'Subnet with this network address and mask already exists',
+        error: result.error,
+        conflicts: result.conflicts,
       });
     }
 
-    // Create subnet
-    const subnet = await prisma.subnet.create({
-      data: {
-        networkAddress: validatedData.networkAddress,
-        subnetMask: validatedData.subnetMask,
-        ipVersion: ipVersion,
-        cidr,
-        description: validatedData.description,
-        vlanId: validatedData.vlanId,
-        location: validatedData.location,
-        parentSubnetId: validatedData.parentSubnetId,
-      },
-    });
-
     res.status(201).json({
       success: true,
-      data: subnet,
+      data: result.data,
     });
   } catch (error) {
     throw error;
@@ -79,6 +324,11 @@ export const getSubnets = async (req: AuthRequest, res: Response) => {
       where.vlanId = vlanId;
     }
 
+    const visibleIds = getVisibleSubnetIds(await loadSubnetScope(prisma, req.user));
+    if (visibleIds) {
+      where.id = { in: visibleIds };
+    }
+
     const [subnets, total] = await Promise.all([
       prisma.subnet.findMany({
         where,
@@ -115,6 +365,201 @@ export const getSubnets = async (req: AuthRequest, res: Response) => {
   }
 };
 
+export const getSubnetTree = async (req: AuthRequest, res: Response) => {
+  try {
+    const query = getSubnetTreeQuerySchema.parse(req.query);
+    const visibleIds = getVisibleSubnetIds(await loadSubnetScope(prisma, req.user));
+
+    const [subnets, statusCounts] = await Promise.all([
+      prisma.subnet.findMany({
+        where: {
+          ...(query.ipVersion ? { ipVersion: query.ipVersion } : {}),
+          ...(visibleIds ? { id: { in: visibleIds } } : {}),
+        },
+      }),
+      prisma.ipAddress.groupBy({
+        by: ['subnetId', 'status'],
+        _count: { _all: true },
+      }),
+    ]);
+
+    // Own used/reserved counts per subnet, from a single grouped query
+    const counts = new Map<string, { used: number; reserved: number }>();
+    for (const row of statusCounts) {
+      const entry = counts.get(row.subnetId) || { used: 0, reserved: 0 };
+      if (row.status === 'RESERVED') {
+        entry.reserved += row._count._all;
+      } else if (row.status !== 'AVAILABLE') {
+        entry.used += row._count._all;
+      }
+      counts.set(row.subnetId, entry);
+    }
+
+    const childrenByParent = new Map<string | null, typeof subnets>();
+    for (const subnet of subnets) {
+      const siblings = childrenByParent.get(subnet.parentSubnetId) || [];
+      siblings.push(subnet);
+      childrenByParent.set(subnet.parentSubnetId, siblings);
+    }
+
+    const visited = new Set<string>();
+    const buildNode = (subnet: typeof subnets[number]): SubnetTreeNode => {
+      visited.add(subnet.id);
+
+      const bounds = getPrefixBounds(subnet);
+      const childSubnets = (childrenByParent.get(subnet.id) || [])
+        .filter(child => !visited.has(child.id))
+        .map(child => ({ child, bounds: getPrefixBounds(child) }))
+        .sort((a, b) => (a.bounds.start < b.bounds.start ? -1 : a.bounds.start > b.bounds.start ? 1 : 0));
+      const children = childSubnets.map(({ child }) => buildNode(child));
+
+      const range = getSubnetRange(subnet.networkAddress, subnet.subnetMask, subnet.ipVersion);
+      const own = counts.get(subnet.id) || { used: 0, reserved: 0 };
+      const rolledUp = children.reduce(
+        (acc, child) => ({
+          used: acc.used + child.rolledUpUtilization.usedIPs,
+          reserved: acc.reserved + child.rolledUpUtilization.reservedIPs,
+        }),
+        own
+      );
+
+      return {
+        id: subnet.id,
+        cidr: subnet.cidr,
+        networkAddress: subnet.networkAddress,
+        subnetMask: subnet.subnetMask,
+        ipVersion: subnet.ipVersion,
+        description: subnet.description,
+        vlanId: subnet.vlanId,
+        location: subnet.location,
+        parentSubnetId: subnet.parentSubnetId,
+        utilization: buildUtilization(range.total, own.used, own.reserved),
+        rolledUpUtilization: buildUtilization(range.total, rolledUp.used, rolledUp.reserved),
+        freeBlocks: findFreeRanges(bounds, childSubnets.map(({ bounds }) => bounds))
+          .map(gap => toFreeBlock(gap, subnet.ipVersion)),
+        children,
+      };
+    };
+
+    let roots: typeof subnets;
+    if (query.rootId) {
+      const root = subnets.find(subnet => subnet.id === query.rootId);
+      if (!root) {
+        return res.status(404).json({
+          success: false,
+          error: 'Subnet not found',
+        });
+      }
+      roots = [root];
+    } else {
+      // Subnets whose parent was filtered out (other IP version, not visible) are shown as roots
+      const ids = new Set(subnets.map(subnet => subnet.id));
+      roots = subnets.filter(subnet => !subnet.parentSubnetId || !ids.has(subnet.parentSubnetId));
+    }
+
+    res.json({
+      success: true,
+      data: roots.map(buildNode),
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const getSubnetSnapshotAt = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { at } = subnetSnapshotQuerySchema.parse(req.query);
+
+    const subnet = await prisma.subnet.findUnique({
+      where: { id },
+    });
+
+    const scope = await loadSubnetScope(prisma, req.user);
+    if (!subnet || !canAccessSubnet(scope, subnet.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Subnet not found',
+      });
+    }
+
+    const result = await getSubnetSnapshot(prisma, subnet, at);
+
+    if (!result.ok) {
+      return res.status(result.status).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    res.json({
+      success: true,
+      data: result.snapshot,
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const getSubnetFreeBlocks = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const subnet = await prisma.subnet.findUnique({
+      where: { id },
+      include: {
+        childSubnets: true,
+        reservations: true,
+      },
+    });
+
+    const scope = await loadSubnetScope(prisma, req.user);
+    if (!subnet || !canAccessSubnet(scope, subnet.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Subnet not found',
+      });
+    }
+
+    const usedIps = await prisma.ipAddress.findMany({
+      where: {
+        subnetId: id,
+        status: { not: 'AVAILABLE' },
+      },
+      select: { ipAddress: true },
+    });
+
+    // Everything that occupies address space, as ranges; gaps are computed
+    // from these instead of walking individual addresses
+    const used: AddressRange[] = [
+      ...subnet.childSubnets.map(child => getPrefixBounds(child)),
+      ...subnet.reservations.map(reservation => ({
+        start: ipToBigInt(reservation.startIp),
+        end: ipToBigInt(reservation.endIp),
+      })),
+      ...usedIps.map(ip => {
+        const value = ipToBigInt(ip.ipAddress);
+        return { start: value, end: value };
+      }),
+    ];
+
+    const gaps = findFreeRanges(getPrefixBounds(subnet), used);
+    const totalFree = gaps.reduce((sum, gap) => sum + gap.end - gap.start + BigInt(1), BigInt(0));
+
+    res.json({
+      success: true,
+      data: {
+        subnetId: subnet.id,
+        cidr: subnet.cidr,
+        totalFree: totalFree.toString(),
+        freeBlocks: gaps.map(gap => toFreeBlock(gap, subnet.ipVersion)),
+      },
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
 export const getSubnetById = async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
@@ -129,6 +574,12 @@ export const getSubnetById = async (req: AuthRequest, res: Response) => {
         reservations: true,
         parentSubnet: true,
         childSubnets: true,
+        access: {
+          include: {
+            user: { select: { id: true, username: true } },
+            team: { select: { id: true, name: true } },
+          },
+        },
         _count: {
           select: {
             ipAddresses: true,
@@ -138,7 +589,8 @@ export const getSubnetById = async (req: AuthRequest, res: Response) => {
       },
     });
 
-    if (!subnet) {
+    const scope = await loadSubnetScope(prisma, req.user);
+    if (!subnet || !canAccessSubnet(scope, subnet.id)) {
       return res.status(404).json({
         success: false,
         error: 'Subnet not found',
@@ -199,33 +651,103 @@ export const updateSubnet = async (req: AuthRequest, res: Response) => {
       where: { id },
     });
 
-    if (!existingSubnet) {
+    const scope = await loadSubnetScope(prisma, req.user);
+    if (!existingSubnet || !canAccessSubnet(scope, id)) {
       return res.status(404).json({
         success: false,
         error: 'Subnet not found',
       });
     }
 
-    // Update CIDR if network address or mask changed
-    let updateData: any = { ...validatedData };
-    if (validatedData.networkAddress || validatedData.subnetMask !== undefined) {
-      const networkAddress = validatedData.networkAddress || existingSubnet.networkAddress;
-      const subnetMask = validatedData.subnetMask ?? existingSubnet.subnetMask;
-      const ipVersion = validatedData.ipVersion || existingSubnet.ipVersion || detectIpVersion(networkAddress);
-      updateData.cidr = generateCidr(networkAddress, subnetMask, ipVersion);
-      if (!updateData.ipVersion) {
-        updateData.ipVersion = ipVersion;
-      }
+    if (!canAccessSubnet(scope, id, 'ADMIN')) {
+      return res.status(403).json({
+        success: false,
+        error: subnetAccessError('ADMIN'),
+      });
     }
 
-    const subnet = await prisma.subnet.update({
-      where: { id },
-      data: updateData,
+    const result = await withSubnetLock(prisma, [SUBNET_TREE_LOCK, id], async (tx): Promise<SubnetChange<Subnet>> => {
+      // Re-read under the lock, the tree may have changed since
+      const current = await tx.subnet.findUnique({
+        where: { id },
+      });
+
+      if (!current) {
+        return { ok: false, status: 404, error: 'Subnet not found' };
+      }
+
+      const networkAddress = validatedData.networkAddress || current.networkAddress;
+      const subnetMask = validatedData.subnetMask ?? current.subnetMask;
+      const ipVersion = validatedData.ipVersion || current.ipVersion || detectIpVersion(networkAddress);
+      const candidate = { networkAddress, subnetMask, ipVersion };
+
+      // Placement is re-checked on every update; a null parent places the subnet automatically
+      const hierarchy = await checkSubnetHierarchy(
+        tx,
+        candidate,
+        validatedData.parentSubnetId === undefined ? current.parentSubnetId : validatedData.parentSubnetId,
+        id
+      );
+
+      if (!hierarchy.ok) {
+        return hierarchy;
+      }
+
+      // Moving under another parent requires administering that parent too
+      if (
+        hierarchy.parentSubnetId &&
+        hierarchy.parentSubnetId !== current.parentSubnetId &&
+        !canAccessSubnet(scope, hierarchy.parentSubnetId, 'ADMIN')
+      ) {
+        return { ok: false, status: 403, error: subnetAccessError('ADMIN') };
+      }
+
+      // A resized or renumbered subnet must still hold its addresses and reservations
+      if (networkAddress !== current.networkAddress || subnetMask !== current.subnetMask) {
+        const outside = await findOutsideHostRange(tx, id, candidate);
+        if (outside.length > 0) {
+          return {
+            ok: false,
+            status: 409,
+            error: 'IP addresses or reservations would fall outside the updated subnet',
+            conflicts: outside,
+          };
+        }
+      }
+
+      const updated = await tx.subnet.update({
+        where: { id },
+        data: {
+          ...validatedData,
+          ipVersion,
+          cidr: generateCidr(networkAddress, subnetMask, ipVersion),
+          parentSubnetId: hierarchy.parentSubnetId,
+        },
+      });
+
+      await recordAudit(tx, getAuditContext(req), {
+        entityType: 'Subnet',
+        entityId: id,
+        action: 'updated',
+        subnetId: id,
+        oldValue: current,
+        newValue: updated,
+      });
+
+      return { ok: true, data: updated };
     });
 
+    if (!result.ok) {
+      return res.status(result.status).json({
+        success: false,
+        error: result.error,
+        conflicts: result.conflicts,
+      });
+    }
+
     res.json({
       success: true,
-      data: subnet,
+      data: result.data,
     });
   } catch (error) {
     throw error;
@@ -240,17 +762,54 @@ export const deleteSubnet = async (req: AuthRequest, res: Response) => {
       where: { id },
     });
 
-    if (!subnet) {
+    const scope = await loadSubnetScope(prisma, req.user);
+    if (!subnet || !canAccessSubnet(scope, id)) {
       return res.status(404).json({
         success: false,
         error: 'Subnet not found',
       });
     }
 
-    await prisma.subnet.delete({
-      where: { id },
+    if (!canAccessSubnet(scope, id, 'ADMIN')) {
+      return res.status(403).json({
+        success: false,
+        error: subnetAccessError('ADMIN'),
+      });
+    }
+
+    // Under the tree lock and the subnet's own, so no assignment, reservation or
+    // restructuring of this subnet runs at the same time
+    const result = await withSubnetLock(prisma, [SUBNET_TREE_LOCK, id], async (tx): Promise<SubnetChange<Subnet>> => {
+      const current = await tx.subnet.findUnique({
+        where: { id },
+      });
+
+      if (!current) {
+        return { ok: false, status: 404, error: 'Subnet not found' };
+      }
+
+      await tx.subnet.delete({
+        where: { id },
+      });
+
+      await recordAudit(tx, getAuditContext(req), {
+        entityType: 'Subnet',
+        entityId: id,
+        action: 'deleted',
+        subnetId: id,
+        oldValue: current,
+      });
+
+      return { ok: true, data: current };
     });
 
+    if (!result.ok) {
+      return res.status(result.status).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
     res.json({
       success: true,
       message: 'Subnet deleted successfully',
@@ -260,3 +819,895 @@ export const deleteSubnet = async (req: AuthRequest, res: Response) => {
   }
 };
 
+
+export const allocateChildSubnet = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const validatedData = allocateChildSubnetSchema.parse(req.body);
+
+    const parent = await prisma.subnet.findUnique({
+      where: { id },
+    });
+
+    const scope = await loadSubnetScope(prisma, req.user);
+    if (!parent || !canAccessSubnet(scope, id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Subnet not found',
+      });
+    }
+
+    if (!canAccessSubnet(scope, id, 'ADMIN')) {
+      return res.status(403).json({
+        success: false,
+        error: subnetAccessError('ADMIN'),
+      });
+    }
+
+    const ipVersion = parent.ipVersion;
+    if (
+      validatedData.prefixLength <= parent.subnetMask ||
+      validatedData.prefixLength > getAddressBits(ipVersion)
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: `Prefix length must be between ${parent.subnetMask + 1} and ${getAddressBits(ipVersion)} for this subnet`,
+      });
+    }
+
+    // The free block is searched and taken under the lock, so concurrent
+    // allocations cannot pick overlapping blocks
+    const result = await withSubnetLock(prisma, [SUBNET_TREE_LOCK, id], async (tx): Promise<SubnetChange<Subnet>> => {
+      const current = await tx.subnet.findUnique({
+        where: { id },
+        include: {
+          childSubnets: true,
+        },
+      });
+
+      if (!current) {
+        return { ok: false, status: 404, error: 'Subnet not found' };
+      }
+
+      const block = findAvailableBlock(
+        current,
+        current.childSubnets.map(child => getPrefixBounds(child)),
+        validatedData.prefixLength,
+        validatedData.strategy
+      );
+
+      if (!block) {
+        return {
+          ok: false,
+          status: 409,
+          error: `No free /${validatedData.prefixLength} block available in ${current.cidr}`,
+        };
+      }
+
+      const created = await tx.subnet.create({
+        data: {
+          networkAddress: block.networkAddress,
+          subnetMask: block.subnetMask,
+          ipVersion: current.ipVersion,
+          cidr: generateCidr(block.networkAddress, block.subnetMask, current.ipVersion),
+          description: validatedData.description,
+          vlanId: validatedData.vlanId,
+          location: validatedData.location,
+          parentSubnetId: current.id,
+        },
+      });
+
+      await recordAudit(tx, getAuditContext(req), {
+        entityType: 'Subnet',
+        entityId: created.id,
+        action: 'created',
+        subnetId: created.id,
+        newValue: created,
+      });
+
+      return { ok: true, data: created };
+    });
+
+    if (!result.ok) {
+      return res.status(result.status).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const splitSubnet = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const validatedData = splitSubnetSchema.parse(req.body);
+
+    const subnet = await prisma.subnet.findUnique({
+      where: { id },
+    });
+
+    const scope = await loadSubnetScope(prisma, req.user);
+    if (!subnet || !canAccessSubnet(scope, id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Subnet not found',
+      });
+    }
+
+    if (!canAccessSubnet(scope, id, 'ADMIN')) {
+      return res.status(403).json({
+        success: false,
+        error: subnetAccessError('ADMIN'),
+      });
+    }
+
+    // Everything is read and checked under the lock: a row added after the checks
+    // would be cascade-deleted with the original subnet
+    const result = await withSubnetLock(prisma, [SUBNET_TREE_LOCK, id], async (tx): Promise<SubnetChange<Subnet[]>> => {
+      const current = await tx.subnet.findUnique({
+        where: { id },
+        include: {
+          childSubnets: true,
+          reservations: true,
+          access: true,
+        },
+      });
+
+      if (!current) {
+        return { ok: false, status: 404, error: 'Subnet not found' };
+      }
+
+      const ipVersion = current.ipVersion;
+      const bits = getAddressBits(ipVersion);
+      const prefixLength = validatedData.prefixLength ?? current.subnetMask + Math.log2(validatedData.count!);
+
+      if (!Number.isInteger(prefixLength) || prefixLength <= current.subnetMask || prefixLength > bits) {
+        return {
+          ok: false,
+          status: 400,
+          error: `Split must produce a power-of-two number of subnets with a prefix length between ${current.subnetMask + 1} and ${bits}`,
+        };
+      }
+
+      if (2 ** (prefixLength - current.subnetMask) > MAX_SPLIT_PARTS) {
+        return { ok: false, status: 400, error: `Split would create more than ${MAX_SPLIT_PARTS} subnets` };
+      }
+
+      const parts = splitPrefix(current, prefixLength);
+      const start = getPrefixBounds(current).start;
+      const partSize = BigInt(1) << BigInt(bits - prefixLength);
+      const partIndex = (ip: string) => Number((ipToBigInt(ip) - start) / partSize);
+
+      // Assigned addresses and reservations must each fit in the host range of one
+      // of the new subnets, so none becomes a network or broadcast address
+      const partHosts = parts.map(part => getHostBounds({ id, ...part }));
+      const fitsPart = (startIp: string, endIp: string) => {
+        const host = partHosts[partIndex(startIp)];
+        return host !== undefined && ipToBigInt(startIp) >= host.start && ipToBigInt(endIp) <= host.end;
+      };
+
+      const ipAddresses = await tx.ipAddress.findMany({
+        where: { subnetId: id },
+        select: { id: true, ipAddress: true, status: true },
+      });
+
+      const strandedIps = ipAddresses.filter(ip =>
+        ip.status === 'AVAILABLE'
+          ? parts[partIndex(ip.ipAddress)] === undefined
+          : !fitsPart(ip.ipAddress, ip.ipAddress)
+      );
+      const crossingReservations = current.reservations.filter(
+        reservation => !fitsPart(reservation.startIp, reservation.endIp)
+      );
+      // A child as large as a part would be created again as that part
+      const oversizedChildren = current.childSubnets.filter(child => child.subnetMask <= prefixLength);
+
+      if (strandedIps.length > 0 || crossingReservations.length > 0 || oversizedChildren.length > 0) {
+        return {
+          ok: false,
+          status: 409,
+          error: 'IP addresses, reservations or child subnets do not fit in the host range of one of the resulting subnets, or child subnets are not smaller than them',
+          conflicts: [
+            ...strandedIps.map(ip => ip.ipAddress),
+            ...crossingReservations.map(reservation => `${reservation.startIp}-${reservation.endIp}`),
+            ...oversizedChildren.map(child => child.cidr),
+          ],
+        };
+      }
+
+      const newSubnets: Subnet[] = [];
+      for (const part of parts) {
+        newSubnets.push(
+          await tx.subnet.create({
+            data: {
+              networkAddress: part.networkAddress,
+              subnetMask: part.subnetMask,
+              ipVersion,
+              cidr: generateCidr(part.networkAddress, part.subnetMask, ipVersion),
+              description: current.description,
+              vlanId: current.vlanId,
+              location: current.location,
+              parentSubnetId: current.parentSubnetId,
+            },
+          })
+        );
+      }
+
+      // Group IP rows by the part they fall into, then move each group at once
+      const groups = new Map<number, string[]>();
+      for (const ip of ipAddresses) {
+        const index = partIndex(ip.ipAddress);
+        groups.set(index, [...(groups.get(index) || []), ip.id]);
+      }
+      for (const [index, ids] of groups) {
+        await tx.ipAddress.updateMany({
+          where: { id: { in: ids } },
+          data: { subnetId: newSubnets[index].id },
+        });
+      }
+
+      for (const reservation of current.reservations) {
+        await tx.reservation.update({
+          where: { id: reservation.id },
+          data: { subnetId: newSubnets[partIndex(reservation.startIp)].id },
+        });
+      }
+
+      for (const child of current.childSubnets) {
+        await tx.subnet.update({
+          where: { id: child.id },
+          data: { parentSubnetId: newSubnets[partIndex(child.networkAddress)].id },
+        });
+      }
+
+      // Every part keeps the grants of the original subnet
+      if (current.access.length > 0) {
+        await tx.subnetAccess.createMany({
+          data: newSubnets.flatMap(newSubnet =>
+            current.access.map(grant => ({
+              subnetId: newSubnet.id,
+              userId: grant.userId,
+              teamId: grant.teamId,
+              level: grant.level,
+            }))
+          ),
+        });
+      }
+
+      await tx.subnet.delete({
+        where: { id },
+      });
+
+      const audit = getAuditContext(req);
+      const { childSubnets, reservations, access, ...original } = current;
+      await recordAudit(tx, audit, {
+        entityType: 'Subnet',
+        entityId: id,
+        action: 'split',
+        subnetId: id,
+        oldValue: original,
+        newValue: { subnets: newSubnets.map(newSubnet => ({ id: newSubnet.id, cidr: newSubnet.cidr })) },
+      });
+      for (const newSubnet of newSubnets) {
+        await recordAudit(tx, audit, {
+          entityType: 'Subnet',
+          entityId: newSubnet.id,
+          action: 'created',
+          subnetId: newSubnet.id,
+          newValue: newSubnet,
+        });
+      }
+
+      return { ok: true, data: newSubnets };
+    }, { timeout: RESTRUCTURE_TRANSACTION_TIMEOUT_MS });
+
+    if (!result.ok) {
+      return res.status(result.status).json({
+        success: false,
+        error: result.error,
+        conflicts: result.conflicts,
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const mergeSubnets = async (req: AuthRequest, res: Response) => {
+  try {
+    const validatedData = mergeSubnetsSchema.parse(req.body);
+    const subnetIds = [...new Set(validatedData.subnetIds)];
+
+    const scope = await loadSubnetScope(prisma, req.user);
+    if (!subnetIds.every(id => canAccessSubnet(scope, id))) {
+      return res.status(404).json({
+        success: false,
+        error: 'One or more subnets not found',
+      });
+    }
+
+    if (subnetIds.length < 2) {
+      return res.status(400).json({
+        success: false,
+        error: 'At least two different subnets are required',
+      });
+    }
+
+    if (!subnetIds.every(id => canAccessSubnet(scope, id, 'ADMIN'))) {
+      return res.status(403).json({
+        success: false,
+        error: subnetAccessError('ADMIN'),
+      });
+    }
+
+    // Checked and merged under the lock, so the subnets and their surroundings cannot change in between
+    const result = await withSubnetLock(prisma, [SUBNET_TREE_LOCK, ...subnetIds], async (tx): Promise<SubnetChange<Subnet>> => {
+      const subnets = await tx.subnet.findMany({
+        where: { id: { in: subnetIds } },
+        include: { access: true },
+      });
+
+      if (subnets.length !== subnetIds.length) {
+        return { ok: false, status: 404, error: 'One or more subnets not found' };
+      }
+
+      const [first] = subnets;
+      if (subnets.some(subnet => subnet.ipVersion !== first.ipVersion || subnet.parentSubnetId !== first.parentSubnetId)) {
+        return { ok: false, status: 400, error: 'Only sibling subnets of the same IP version can be merged' };
+      }
+
+      const aggregate = aggregatePrefixes(subnets);
+      if (!aggregate) {
+        return {
+          ok: false,
+          status: 409,
+          error: 'Subnets are not adjacent or do not form a single CIDR block',
+          conflicts: subnets.map(subnet => subnet.cidr),
+        };
+      }
+
+      // The aggregate must not collide with an existing subnet or swallow the whole parent
+      const existing = await tx.subnet.findFirst({
+        where: {
+          id: { notIn: subnetIds },
+          networkAddress: aggregate.networkAddress,
+          subnetMask: aggregate.subnetMask,
+          ipVersion: aggregate.ipVersion,
+        },
+      });
+      const parent = first.parentSubnetId
+        ? await tx.subnet.findUnique({ where: { id: first.parentSubnetId } })
+        : null;
+
+      if (parent && aggregate.subnetMask <= parent.subnetMask) {
+        return {
+          ok: false,
+          status: 409,
+          error: 'Merged subnet would cover its entire parent subnet',
+          conflicts: [parent.cidr],
+        };
+      }
+
+      if (existing) {
+        return {
+          ok: false,
+          status: 409,
+          error: 'A subnet with the merged prefix already exists',
+          conflicts: [existing.cidr],
+        };
+      }
+
+      const subnet = await tx.subnet.create({
+        data: {
+          networkAddress: aggregate.networkAddress,
+          subnetMask: aggregate.subnetMask,
+          ipVersion: aggregate.ipVersion,
+          cidr: generateCidr(aggregate.networkAddress, aggregate.subnetMask, aggregate.ipVersion),
+          description: validatedData.description ?? first.description,
+          vlanId: validatedData.vlanId ?? first.vlanId,
+          location: validatedData.location ?? first.location,
+          parentSubnetId: first.parentSubnetId,
+        },
+      });
+
+      await tx.ipAddress.updateMany({
+        where: { subnetId: { in: subnetIds } },
+        data: { subnetId: subnet.id },
+      });
+
+      await tx.reservation.updateMany({
+        where: { subnetId: { in: subnetIds } },
+        data: { subnetId: subnet.id },
+      });
+
+      await tx.subnet.updateMany({
+        where: { parentSubnetId: { in: subnetIds } },
+        data: { parentSubnetId: subnet.id },
+      });
+
+      // A grant survives the merge only if every merged subnet had it, at the lowest level
+      const grants = subnets.map(merged => merged.access);
+      const common = grants[0].filter(grant =>
+        grants.every(access =>
+          access.some(other => other.userId === grant.userId && other.teamId === grant.teamId)
+        )
+      );
+      if (common.length > 0) {
+        await tx.subnetAccess.createMany({
+          data: common.map(grant => ({
+            subnetId: subnet.id,
+            userId: grant.userId,
+            teamId: grant.teamId,
+            level: grants.reduce(
+              (level, access) =>
+                lowerLevel(
+                  level,
+                  access.find(other => other.userId === grant.userId && other.teamId === grant.teamId)!.level
+                ),
+              grant.level
+            ),
+          })),
+        });
+      }
+
+      await tx.subnet.deleteMany({
+        where: { id: { in: subnetIds } },
+      });
+
+      const audit = getAuditContext(req);
+      for (const { access, ...source } of subnets) {
+        await recordAudit(tx, audit, {
+          entityType: 'Subnet',
+          entityId: source.id,
+          action: 'merged',
+          subnetId: source.id,
+          oldValue: source,
+          newValue: { subnet: { id: subnet.id, cidr: subnet.cidr } },
+        });
+      }
+      await recordAudit(tx, audit, {
+        entityType: 'Subnet',
+        entityId: subnet.id,
+        action: 'created',
+        subnetId: subnet.id,
+        newValue: subnet,
+      });
+
+      return { ok: true, data: subnet };
+    }, { timeout: RESTRUCTURE_TRANSACTION_TIMEOUT_MS });
+
+    if (!result.ok) {
+      return res.status(result.status).json({
+        success: false,
+        error: result.error,
+        conflicts: result.conflicts,
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const getSubnetAccess = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const subnet = await prisma.subnet.findUnique({
+      where: { id },
+    });
+
+    const scope = await loadSubnetScope(prisma, req.user);
+    if (!subnet || !canAccessSubnet(scope, id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Subnet not found',
+      });
+    }
+
+    // Collect the subnet and its ancestors so inherited grants are listed too
+    const lineage = [subnet];
+    const seen = new Set([subnet.id]);
+    let parentId = subnet.parentSubnetId;
+    while (parentId && !seen.has(parentId)) {
+      const parent = await prisma.subnet.findUnique({ where: { id: parentId } });
+      if (!parent) break;
+      lineage.push(parent);
+      seen.add(parent.id);
+      parentId = parent.parentSubnetId;
+    }
+
+    const grants = await prisma.subnetAccess.findMany({
+      where: { subnetId: { in: lineage.map(item => item.id) } },
+      include: {
+        user: { select: { id: true, username: true } },
+        team: { select: { id: true, name: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const cidrs = new Map(lineage.map(item => [item.id, item.cidr]));
+
+    res.json({
+      success: true,
+      data: grants.map(grant => ({
+        ...grant,
+        inherited: grant.subnetId !== id,
+        inheritedFrom: grant.subnetId !== id ? cidrs.get(grant.subnetId) : undefined,
+      })),
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const grantSubnetAccess = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const validatedData = subnetAccessSchema.parse(req.body);
+
+    const subnet = await prisma.subnet.findUnique({
+      where: { id },
+    });
+
+    const scope = await loadSubnetScope(prisma, req.user);
+    if (!subnet || !canAccessSubnet(scope, id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Subnet not found',
+      });
+    }
+
+    if (!canAccessSubnet(scope, id, 'ADMIN')) {
+      return res.status(403).json({
+        success: false,
+        error: subnetAccessError('ADMIN'),
+      });
+    }
+
+    const principal = validatedData.userId
+      ? await prisma.user.findUnique({ where: { id: validatedData.userId } })
+      : await prisma.team.findUnique({ where: { id: validatedData.teamId! } });
+
+    if (!principal) {
+      return res.status(404).json({
+        success: false,
+        error: validatedData.userId ? 'User not found' : 'Team not found',
+      });
+    }
+
+    const existing = await prisma.subnetAccess.findFirst({
+      where: {
+        subnetId: id,
+        ...(validatedData.userId ? { userId: validatedData.userId } : { teamId: validatedData.teamId }),
+      },
+    });
+
+    const grant = await prisma.$transaction(async (tx) => {
+      const saved = existing
+        ? await tx.subnetAccess.update({
+            where: { id: existing.id },
+            data: { level: validatedData.level },
+          })
+        : await tx.subnetAccess.create({
+            data: {
+              subnetId: id,
+              userId: validatedData.userId,
+              teamId: validatedData.teamId,
+              level: validatedData.level,
+            },
+          });
+
+      await recordAudit(tx, getAuditContext(req), {
+        entityType: 'SubnetAccess',
+        entityId: saved.id,
+        action: existing ? 'updated' : 'created',
+        subnetId: id,
+        oldValue: existing ?? undefined,
+        newValue: saved,
+      });
+
+      return saved;
+    });
+
+    res.status(existing ? 200 : 201).json({
+      success: true,
+      data: grant,
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const revokeSubnetAccess = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id, accessId } = req.params;
+
+    const grant = await prisma.subnetAccess.findFirst({
+      where: { id: accessId, subnetId: id },
+    });
+
+    const scope = await loadSubnetScope(prisma, req.user);
+    if (!grant || !canAccessSubnet(scope, id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Access grant not found',
+      });
+    }
+
+    if (!canAccessSubnet(scope, id, 'ADMIN')) {
+      return res.status(403).json({
+        success: false,
+        error: subnetAccessError('ADMIN'),
+      });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.subnetAccess.delete({
+        where: { id: accessId },
+      });
+
+      await recordAudit(tx, getAuditContext(req), {
+        entityType: 'SubnetAccess',
+        entityId: accessId,
+        action: 'deleted',
+        subnetId: id,
+        oldValue: grant,
+      });
+    });
+
+    res.json({
+      success: true,
+      message: 'Access grant removed successfully',
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+// Columns of a subnet import; cidr can stand in for networkAddress and subnetMask
+const SUBNET_IMPORT_FIELDS = ['cidr', 'networkAddress', 'subnetMask', 'description', 'vlanId', 'location'] as const;
+
+type SubnetImportRow =
+  | { ok: true; row: number; key: string; data: CreateSubnetInput & { ipVersion: IpVersion } }
+  | { ok: false; row: number; key: string; errors: string[] };
+
+interface SubnetImportContext {
+  subnets: HierarchySubnet[]; // every subnet, including those created by the import so far
+  createdIds: Set<string>;
+  scope: SubnetScope;
+  audit: AuditContext;
+  onExisting: ImportQuery['onExisting'];
+}
+
+// CSV cells are text; numeric fields are converted so the schema can check them
+function toNumber(value?: string): number | undefined {
+  return value === undefined ? undefined : Number(value);
+}
+
+/**
+ * Validate a CSV row as a new subnet
+ */
+function parseSubnetImportRow({ row, values }: ImportRecord): SubnetImportRow {
+  const key = values.cidr ?? [values.networkAddress, values.subnetMask].filter(Boolean).join('/');
+
+  if (values.cidr && !isValidCidr(values.cidr)) {
+    return { ok: false, row, key, errors: ['cidr: Must be a CIDR'] };
+  }
+
+  const [cidrAddress, cidrMask] = values.cidr?.split('/') ?? [];
+  const parsed = createSubnetSchema.safeParse({
+    networkAddress: values.networkAddress ?? cidrAddress,
+    subnetMask: toNumber(values.subnetMask ?? cidrMask),
+    description: values.description,
+    vlanId: toNumber(values.vlanId),
+    location: values.location,
+  });
+  if (!parsed.success) {
+    return { ok: false, row, key, errors: formatRowErrors(parsed.error) };
+  }
+
+  const data = { ...parsed.data, ipVersion: detectIpVersion(parsed.data.networkAddress) };
+  if (getPrefixBounds(data).start !== ipToBigInt(data.networkAddress)) {
+    return { ok: false, row, key, errors: ['networkAddress: Host bits must be zero for this subnet mask'] };
+  }
+
+  return { ok: true, row, key: generateCidr(data.networkAddress, data.subnetMask, data.ipVersion), data };
+}
+
+/**
+ * Create the subnet of a row, or update the existing one with the same prefix
+ */
+async function importSubnetRow(
+  tx: Prisma.TransactionClient,
+  row: Extract<SubnetImportRow, { ok: true }>,
+  context: SubnetImportContext
+): Promise<ImportRowResult> {
+  const { data } = row;
+  const result = { row: row.row, key: row.key };
+  const fail = (error: string): ImportRowResult => ({ ...result, action: 'error', errors: [error] });
+
+  const existing = await tx.subnet.findUnique({
+    where: {
+      networkAddress_subnetMask_ipVersion: {
+        networkAddress: data.networkAddress,
+        subnetMask: data.subnetMask,
+        ipVersion: data.ipVersion,
+      },
+    },
+  });
+
+  if (existing) {
+    // Empty cells leave the existing values as they are
+    const changes = { description: data.description, vlanId: data.vlanId, location: data.location };
+    const changed = (Object.keys(changes) as (keyof typeof changes)[]).some(
+      field => changes[field] !== undefined && changes[field] !== existing[field]
+    );
+    if (context.onExisting === 'skip' || !changed) {
+      return { ...result, action: 'skip' };
+    }
+
+    if (!canAccessSubnet(context.scope, existing.id, 'ADMIN')) {
+      return fail(subnetAccessError('ADMIN'));
+    }
+
+    const updated = await tx.subnet.update({
+      where: { id: existing.id },
+      data: changes,
+    });
+
+    await recordAudit(tx, context.audit, {
+      entityType: 'Subnet',
+      entityId: existing.id,
+      action: 'updated',
+      subnetId: existing.id,
+      oldValue: existing,
+      newValue: updated,
+    });
+
+    return { ...result, action: 'update', data: updated, changes: diffAuditValues(existing, updated) };
+  }
+
+  const hierarchy = placeSubnet(data, context.subnets);
+  if (!hierarchy.ok) {
+    return fail(hierarchy.conflicts ? `${hierarchy.error}: ${hierarchy.conflicts.join(', ')}` : hierarchy.error);
+  }
+
+  // Creating a subnet inside a scoped parent requires administering the parent,
+  // unless the parent comes from this import
+  if (
+    hierarchy.parentSubnetId &&
+    !context.createdIds.has(hierarchy.parentSubnetId) &&
+    !canAccessSubnet(context.scope, hierarchy.parentSubnetId, 'ADMIN')
+  ) {
+    return fail(subnetAccessError('ADMIN'));
+  }
+
+  const created = await tx.subnet.create({
+    data: {
+      networkAddress: data.networkAddress,
+      subnetMask: data.subnetMask,
+      ipVersion: data.ipVersion,
+      cidr: row.key,
+      description: data.description,
+      vlanId: data.vlanId,
+      location: data.location,
+      parentSubnetId: hierarchy.parentSubnetId,
+    },
+  });
+
+  await recordAudit(tx, context.audit, {
+    entityType: 'Subnet',
+    entityId: created.id,
+    action: 'created',
+    subnetId: created.id,
+    newValue: created,
+  });
+
+  context.subnets.push(created);
+  context.createdIds.add(created.id);
+
+  return { ...result, action: 'create', data: created };
+}
+
+export const importSubnets = async (req: AuthRequest, res: Response) => {
+  try {
+    const { dryRun, onExisting, mapping } = importQuerySchema.parse(req.query);
+
+    const csv = readCsvRecords(req.body, SUBNET_IMPORT_FIELDS, mapping);
+    if (!csv.ok) {
+      return res.status(csv.status).json({
+        success: false,
+        error: csv.error,
+      });
+    }
+
+    // Wider prefixes first, so parents listed in the file exist before their children are placed
+    const rows = csv.records
+      .map(parseSubnetImportRow)
+      .sort((a, b) => (a.ok ? a.data.subnetMask : -1) - (b.ok ? b.data.subnetMask : -1));
+
+    const scope = await loadSubnetScope(prisma, req.user);
+    const audit = getAuditContext(req);
+
+    let outcome: Awaited<ReturnType<typeof runImport>>;
+    try {
+      outcome = await runImport(
+        // Placement reads the whole tree, like createSubnet
+        (fn) => withSubnetLock(prisma, SUBNET_TREE_LOCK, fn, { timeout: IMPORT.transactionTimeoutMs }),
+        async (tx) => {
+          const context: SubnetImportContext = {
+            subnets: await tx.subnet.findMany({ select: HIERARCHY_SELECT }),
+            createdIds: new Set(),
+            scope,
+            audit,
+            onExisting,
+          };
+          const seen = new Map<string, number>();
+          const results: ImportRowResult[] = [];
+
+          for (const row of rows) {
+            if (!row.ok) {
+              results.push({ row: row.row, key: row.key, action: 'error', errors: row.errors });
+              continue;
+            }
+
+            const duplicateOf = seen.get(row.key);
+            if (duplicateOf !== undefined) {
+              results.push({ row: row.row, key: row.key, action: 'error', errors: [`Duplicate of row ${duplicateOf}`] });
+              continue;
+            }
+            seen.set(row.key, row.row);
+
+            results.push(await importSubnetRow(tx, row, context));
+          }
+
+          return results;
+        },
+        dryRun
+      );
+    } catch (error) {
+      if (isConcurrencyConflict(error)) {
+        return res.status(409).json({
+          success: false,
+          error: CONCURRENT_CHANGE_ERROR,
+        });
+      }
+      throw error;
+    }
+
+    const summary = summarizeImport(outcome.results);
+    const data = { dryRun, committed: outcome.committed, summary, results: outcome.results };
+
+    if (!dryRun && !outcome.committed) {
+      return res.status(400).json({
+        success: false,
+        error: `${summary.error} row(s) failed. No changes were made`,
+        data,
+      });
+    }
+
+    res.json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    throw error;
+  }
+};
@@ -0,0 +1,305 @@
+import { Response } from 'express';
+import { AuthRequest } from '../types/index.js';
+import { prisma } from '../index.js';
+import { getAuditContext, recordAudit } from '../utils/auditLog.js';
+import { createTeamSchema, updateTeamSchema, addTeamMemberSchema } from '../validations/team.validation.js';
+
+const memberSelect = {
+  id: true,
+  createdAt: true,
+  user: {
+    select: {
+      id: true,
+      username: true,
+      email: true,
+    },
+  },
+};
+
+export const getTeams = async (_req: AuthRequest, res: Response) => {
+  try {
+    const teams = await prisma.team.findMany({
+      include: {
+        _count: {
+          select: {
+            members: true,
+            assignedIps: true,
+            reservations: true,
+          },
+        },
+      },
+      orderBy: {
+        name: 'asc',
+      },
+    });
+
+    res.json({
+      success: true,
+      data: teams,
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const getTeamById = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const team = await prisma.team.findUnique({
+      where: { id },
+      include: {
+        members: {
+          select: memberSelect,
+          orderBy: { createdAt: 'asc' },
+        },
+        _count: {
+          select: {
+            assignedIps: true,
+            reservations: true,
+          },
+        },
+      },
+    });
+
+    if (!team) {
+      return res.status(404).json({
+        success: false,
+        error: 'Team not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: team,
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const createTeam = async (req: AuthRequest, res: Response) => {
+  try {
+    const validatedData = createTeamSchema.parse(req.body);
+
+    const existingTeam = await prisma.team.findUnique({
+      where: { name: validatedData.name },
+    });
+
+    if (existingTeam) {
+      return res.status(409).json({
+        success: false,
+        error: 'Team with this name already exists',
+      });
+    }
+
+    const team = await prisma.team.create({
+      data: validatedData,
+    });
+
+    await recordAudit(prisma, getAuditContext(req), {
+      entityType: 'Team',
+      entityId: team.id,
+      action: 'created',
+      newValue: team,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: team,
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const updateTeam = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const validatedData = updateTeamSchema.parse(req.body);
+
+    const team = await prisma.team.findUnique({
+      where: { id },
+    });
+
+    if (!team) {
+      return res.status(404).json({
+        success: false,
+        error: 'Team not found',
+      });
+    }
+
+    if (validatedData.name && validatedData.name !== team.name) {
+      const existingTeam = await prisma.team.findUnique({
+        where: { name: validatedData.name },
+      });
+
+      if (existingTeam) {
+        return res.status(409).json({
+          success: false,
+          error: 'Team with this name already exists',
+        });
+      }
+    }
+
+    const updated = await prisma.team.update({
+      where: { id },
+      data: validatedData,
+    });
+
+    await recordAudit(prisma, getAuditContext(req), {
+      entityType: 'Team',
+      entityId: id,
+      action: 'updated',
+      oldValue: team,
+      newValue: updated,
+    });
+
+    res.json({
+      success: true,
+      data: updated,
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const deleteTeam = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const team = await prisma.team.findUnique({
+      where: { id },
+    });
+
+    if (!team) {
+      return res.status(404).json({
+        success: false,
+        error: 'Team not found',
+      });
+    }
+
+    // Memberships and subnet grants are removed; held addresses keep their free-text holder
+    await prisma.team.delete({
+      where: { id },
+    });
+
+    await recordAudit(prisma, getAuditContext(req), {
+      entityType: 'Team',
+      entityId: id,
+      action: 'deleted',
+      oldValue: team,
+    });
+
+    res.json({
+      success: true,
+      message: 'Team deleted successfully',
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const addTeamMember = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const validatedData = addTeamMemberSchema.parse(req.body);
+
+    const [team, user] = await Promise.all([
+      prisma.team.findUnique({ where: { id } }),
+      prisma.user.findUnique({ where: { id: validatedData.userId } }),
+    ]);
+
+    if (!team) {
+      return res.status(404).json({
+        success: false,
+        error: 'Team not found',
+      });
+    }
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    const existingMember = await prisma.teamMember.findUnique({
+      where: {
+        teamId_userId: {
+          teamId: id,
+          userId: validatedData.userId,
+        },
+      },
+    });
+
+    if (existingMember) {
+      return res.status(409).json({
+        success: false,
+        error: 'User is already a member of this team',
+      });
+    }
+
+    const member = await prisma.teamMember.create({
+      data: {
+        teamId: id,
+        userId: validatedData.userId,
+      },
+      select: memberSelect,
+    });
+
+    await recordAudit(prisma, getAuditContext(req), {
+      entityType: 'TeamMember',
+      entityId: member.id,
+      action: 'created',
+      newValue: { teamId: id, userId: validatedData.userId },
+    });
+
+    res.status(201).json({
+      success: true,
+      data: member,
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const removeTeamMember = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id, userId } = req.params;
+
+    const member = await prisma.teamMember.findUnique({
+      where: {
+        teamId_userId: {
+          teamId: id,
+          userId,
+        },
+      },
+    });
+
+    if (!member) {
+      return res.status(404).json({
+        success: false,
+        error: 'Team member not found',
+      });
+    }
+
+    await prisma.teamMember.delete({
+      where: { id: member.id },
+    });
+
+    await recordAudit(prisma, getAuditContext(req), {
+      entityType: 'TeamMember',
+      entityId: member.id,
+      action: 'deleted',
+      oldValue: member,
+    });
+
+    res.json({
+      success: true,
+      message: 'Team member removed successfully',
+    });
+  } catch (error) {
+    throw error;
+  }
+};
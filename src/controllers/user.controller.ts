@@ -2,20 +2,27 @@ import { Response } from 'express';
 import { AuthRequest } from '../types/index.js';
 import { prisma } from '../index.js';
 import { hashPassword } from '../utils/password.js';
+import { revokeUserSessions } from '../utils/session.js';
+import { clearAccountFailures, getLoginAttemptInfo } from '../utils/loginThrottle.js';
+import { sendPasswordResetEmail } from '../utils/accountEmail.js';
+import { setUserPassword } from '../utils/passwordPolicy.js';
+import { getAuditContext, recordAudit } from '../utils/auditLog.js';
+import { passwordSchema } from '../validations/auth.validation.js';
 import { z } from 'zod';
 
 const createUserSchema = z.object({
   username: z.string().min(3).max(50),
   email: z.string().email(),
-  password: z.string().min(6),
+  password: passwordSchema,
   role: z.enum(['admin', 'user', 'readonly']).default('user'),
 });
 
 const updateUserSchema = z.object({
   username: z.string().min(3).max(50).optional(),
   email: z.string().email().optional(),
-  password: z.string().min(6).optional(),
+  password: passwordSchema.optional(),
   role: z.enum(['admin', 'user', 'readonly']).optional(),
+  emailVerified: z.boolean().optional(),
 });
 
 export const getUsers = async (_req: AuthRequest, res: Response) => {
@@ -26,6 +33,8 @@ export const getUsers = async (_req: AuthRequest, res: Response) => {
         username: true,
         email: true,
         role: true,
+        emailVerified: true,
+        authProvider: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -54,6 +63,8 @@ export const getUserById = async (req: AuthRequest, res: Response) => {
         username: true,
         email: true,
         role: true,
+        emailVerified: true,
+        authProvider: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -114,6 +125,13 @@ export const createUser = async (req: AuthRequest, res: Response) => {
       },
     });
 
+    await recordAudit(prisma, getAuditContext(req), {
+      entityType: 'User',
+      entityId: user.id,
+      action: 'created',
+      newValue: user,
+    });
+
     res.status(201).json({
       success: true,
       data: user,
@@ -139,10 +157,18 @@ export const updateUser = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    const updateData: any = { ...validatedData };
-    if (validatedData.password) {
-      updateData.passwordHash = await hashPassword(validatedData.password);
-      delete updateData.password;
+    const { password, ...updateData } = validatedData;
+
+    // Goes through the password history like a self-service change
+    if (password) {
+      const result = await setUserPassword(prisma, user, password);
+
+      if (!result.ok) {
+        return res.status(result.status).json({
+          success: false,
+          error: result.error,
+        });
+      }
     }
 
     const updated = await prisma.user.update({
@@ -153,10 +179,30 @@ export const updateUser = async (req: AuthRequest, res: Response) => {
         username: true,
         email: true,
         role: true,
+        emailVerified: true,
         updatedAt: true,
       },
     });
 
+    // A password reset signs the user out everywhere; role changes apply on the next request anyway
+    if (validatedData.password) {
+      await revokeUserSessions(prisma, id);
+    }
+
+    await recordAudit(prisma, getAuditContext(req), {
+      entityType: 'User',
+      entityId: id,
+      action: 'updated',
+      oldValue: {
+        id: user.id,
+        username: user.username,
+        email: user.email,
+        role: user.role,
+        emailVerified: user.emailVerified,
+      },
+      newValue: { ...updated, passwordChanged: Boolean(password) },
+    });
+
     res.json({
       success: true,
       data: updated,
@@ -193,6 +239,13 @@ export const deleteUser = async (req: AuthRequest, res: Response) => {
       where: { id },
     });
 
+    await recordAudit(prisma, getAuditContext(req), {
+      entityType: 'User',
+      entityId: id,
+      action: 'deleted',
+      oldValue: user,
+    });
+
     res.json({
       success: true,
       message: 'User deleted successfully',
@@ -202,3 +255,159 @@ export const deleteUser = async (req: AuthRequest, res: Response) => {
   }
 };
 
+
+export const revokeSessions = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    const revoked = await revokeUserSessions(prisma, id);
+
+    await recordAudit(prisma, getAuditContext(req), {
+      entityType: 'User',
+      entityId: id,
+      action: 'sessions_revoked',
+      newValue: { revoked },
+    });
+
+    res.json({
+      success: true,
+      data: { revoked },
+      message: 'All sessions revoked',
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const unlockUser = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    const previous = await getLoginAttemptInfo(prisma, user.email);
+    await clearAccountFailures(prisma, user.email);
+
+    await recordAudit(prisma, getAuditContext(req), {
+      entityType: 'User',
+      entityId: id,
+      action: 'unlocked',
+      oldValue: previous,
+    });
+
+    res.json({
+      success: true,
+      data: { previous },
+      message: 'Failed login attempts cleared and account unlocked',
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const resetUserMfa = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    // For a user who lost both their authenticator and recovery codes; if the MFA
+    // policy applies to them they must enrol again before using the API
+    await prisma.user.update({
+      where: { id },
+      data: {
+        mfaEnabled: false,
+        mfaEnabledAt: null,
+        mfaSecret: null,
+        mfaLastUsedStep: null,
+        mfaRecoveryCodes: [],
+      },
+    });
+
+    await recordAudit(prisma, getAuditContext(req), {
+      entityType: 'User',
+      entityId: id,
+      action: 'mfa_reset',
+    });
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication reset',
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const sendUserPasswordReset = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    if (user.authProvider !== 'local') {
+      return res.status(400).json({
+        success: false,
+        error: 'This user signs in through a directory; reset the password there',
+      });
+    }
+
+    // The link goes to the user; the admin never sees the token or the new password
+    const result = await sendPasswordResetEmail(prisma, user, { force: true });
+
+    await recordAudit(prisma, getAuditContext(req), {
+      entityType: 'User',
+      entityId: id,
+      action: 'password_reset_sent',
+    });
+
+    res.json({
+      success: true,
+      data: {
+        email: user.email,
+        expiresAt: result.sent ? result.expiresAt : null,
+      },
+      message: 'Password reset link sent',
+    });
+  } catch (error) {
+    throw error;
+  }
+};
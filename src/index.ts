@@ -1,6 +1,7 @@
+// Load environment variables first: config modules read them when they are imported
+import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
-import dotenv from 'dotenv';
 import swaggerUi from 'swagger-ui-express';
 import { PrismaClient } from '@prisma/client';
 
@@ -12,24 +13,36 @@ import reservationRoutes from './routes/reservation.routes.js';
 import reportRoutes from './routes/report.routes.js';
 import auditRoutes from './routes/audit.routes.js';
 import userRoutes from './routes/user.routes.js';
+import teamRoutes from './routes/team.routes.js';
+import importRoutes from './routes/import.routes.js';
 
 // Import middleware
 import { errorHandler } from './middleware/errorHandler.js';
 import { notFoundHandler } from './middleware/notFoundHandler.js';
 
+// Import audit chain appender
+import { startChainAppender } from './utils/auditChain.js';
+
 // Import Swagger
 import { swaggerSpec } from './config/swagger.js';
 
-// Load environment variables
-dotenv.config();
-
 // Initialize Prisma Client
 export const prisma = new PrismaClient();
 
+// Link audit entries into their hash chains once their transactions commit
+startChainAppender(prisma);
+
 // Create Express app
 const app = express();
 const PORT = process.env.PORT || 3000;
 
+// Behind a reverse proxy, trust its X-Forwarded-For so req.ip is the client address
+// (login throttling counts failures per client IP)
+if (process.env.TRUST_PROXY) {
+  const trustProxy = process.env.TRUST_PROXY;
+  app.set('trust proxy', /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy === 'true' || trustProxy);
+}
+
 // Middleware - CORS configuration
 const allowedOrigins = process.env.CORS_ORIGIN 
   ? process.env.CORS_ORIGIN.split(',').map(origin => origin.trim())
@@ -103,6 +116,8 @@ app.use('/api/reservations', reservationRoutes);
 app.use('/api/reports', reportRoutes);
 app.use('/api/audit', auditRoutes);
 app.use('/api/users', userRoutes);
+app.use('/api/teams', teamRoutes);
+app.use('/api/import', importRoutes);
 
 // Log registered routes for debugging
 console.log('Registered routes:');
@@ -115,7 +130,7 @@ app.use(notFoundHandler);
 app.use(errorHandler);
 
 // Start server
-const server = app.listen(PORT, () => {
+export const server = app.listen(PORT, () => {
   console.log(`🚀 Server running on http://localhost:${PORT}`);
   console.log(`📊 Health check: http://localhost:${PORT}/health`);
   console.log(`📚 API Documentation: http://localhost:${PORT}/api-docs`);
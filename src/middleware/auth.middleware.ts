@@ -1,8 +1,19 @@
 import { Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { AuthRequest, JwtUserPayload } from '../types/index.js';
+import { prisma } from '../index.js';
+import { Permission, getEffectivePermissions } from '../config/permissions.js';
+import { isApiToken, hashApiToken, LAST_USED_UPDATE_INTERVAL_MS } from '../utils/apiToken.js';
+import { isMfaRequired } from '../utils/mfa.js';
 
-export const authenticate = (
+const authUserSelect = { id: true, username: true, email: true, role: true, mfaEnabled: true };
+
+// Users the MFA policy applies to may only reach /api/auth (to enrol) until they have a second factor
+async function needsMfaSetup(user: { role: string; mfaEnabled: boolean }): Promise<boolean> {
+  return !user.mfaEnabled && (await isMfaRequired(prisma, user.role));
+}
+
+export const authenticate = async (
   req: AuthRequest,
   res: Response,
   next: NextFunction
@@ -18,6 +29,43 @@ export const authenticate = (
     }
 
     const token = authHeader.substring(7);
+
+    if (isApiToken(token)) {
+      const apiToken = await prisma.apiToken.findUnique({
+        where: { tokenHash: hashApiToken(token) },
+        include: {
+          user: {
+            select: authUserSelect,
+          },
+        },
+      });
+
+      if (!apiToken || apiToken.revokedAt || (apiToken.expiresAt && apiToken.expiresAt <= new Date())) {
+        return res.status(401).json({
+          success: false,
+          error: 'Invalid or expired token',
+        });
+      }
+
+      const now = new Date();
+      if (!apiToken.lastUsedAt || now.getTime() - apiToken.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS) {
+        await prisma.apiToken.update({
+          where: { id: apiToken.id },
+          data: { lastUsedAt: now },
+        });
+      }
+
+      const { mfaEnabled, ...user } = apiToken.user;
+      req.user = {
+        ...user,
+        apiTokenId: apiToken.id,
+        scopes: apiToken.scopes,
+        mfaSetupRequired: await needsMfaSetup(apiToken.user),
+      };
+
+      return next();
+    }
+
     const secret = process.env.JWT_SECRET;
 
     if (!secret) {
@@ -25,12 +73,32 @@ export const authenticate = (
     }
 
     const decoded = jwt.verify(token, secret) as JwtUserPayload;
-    
+
+    // The session must still be active, and the user's current role (not the
+    // one in the token) applies, so revocations and role changes take effect at once
+    const session = decoded.sid
+      ? await prisma.session.findUnique({
+          where: { id: decoded.sid },
+          include: {
+            user: {
+              select: authUserSelect,
+            },
+          },
+        })
+      : null;
+
+    if (!session || session.userId !== decoded.id || session.revokedAt || session.expiresAt <= new Date()) {
+      return res.status(401).json({
+        success: false,
+        error: 'Session has been revoked or expired',
+      });
+    }
+
+    const { mfaEnabled, ...user } = session.user;
     req.user = {
-      id: decoded.id,
-      username: decoded.username,
-      email: decoded.email,
-      role: decoded.role,
+      ...user,
+      sessionId: session.id,
+      mfaSetupRequired: await needsMfaSetup(session.user),
     };
 
     next();
@@ -62,3 +130,42 @@ export const authorize = (...allowedRoles: string[]) => {
   };
 };
 
+// Managing credentials needs an interactive login, so a leaked API token cannot mint or revoke tokens
+export const requireSession = (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (req.user?.apiTokenId) {
+    return res.status(403).json({
+      success: false,
+      error: 'This action is not available with an API token',
+    });
+  }
+
+  next();
+};
+
+export const requirePermission = (permission: Permission) => {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+      });
+    }
+
+    if (req.user.mfaSetupRequired) {
+      return res.status(403).json({
+        success: false,
+        error: 'Two-factor authentication must be set up before using this endpoint',
+      });
+    }
+
+    if (!getEffectivePermissions(req.user).includes(permission)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Insufficient permissions',
+        required: permission,
+      });
+    }
+
+    next();
+  };
+};
@@ -2,64 +2,68 @@ import { Request, Response, NextFunction } from 'express';
 import { Prisma } from '@prisma/client';
 import { ZodError } from 'zod';
 
-export const errorHandler = (
-  err: Error,
-  _req: Request,
-  res: Response,
-  _next: NextFunction
-) => {
-  console.error('Error:', err);
+interface ErrorResponse {
+  status: number;
+  body: { success: false; error: string; details?: unknown };
+}
 
+/**
+ * The status and body an error is reported with, also used for the items of
+ * best-effort bulk requests
+ */
+export function errorResponse(err: unknown): ErrorResponse {
   // Prisma errors
   if (err instanceof Prisma.PrismaClientKnownRequestError) {
     if (err.code === 'P2002') {
-      return res.status(409).json({
-        success: false,
-        error: 'A record with this value already exists',
-      });
+      return { status: 409, body: { success: false, error: 'A record with this value already exists' } };
     }
     if (err.code === 'P2025') {
-      return res.status(404).json({
-        success: false,
-        error: 'Record not found',
-      });
+      return { status: 404, body: { success: false, error: 'Record not found' } };
     }
-    return res.status(400).json({
-      success: false,
-      error: 'Database error occurred',
-    });
+    return { status: 400, body: { success: false, error: 'Database error occurred' } };
   }
 
   // Zod validation errors
   if (err instanceof ZodError) {
-    return res.status(400).json({
-      success: false,
-      error: 'Validation error',
-      details: err.errors,
-    });
+    return { status: 400, body: { success: false, error: 'Validation error', details: err.errors } };
   }
 
+  const { name, message, type } = (err ?? {}) as { name?: string; message?: string; type?: string };
+
   // JWT errors
-  if (err.name === 'JsonWebTokenError') {
-    return res.status(401).json({
-      success: false,
-      error: 'Invalid token',
-    });
+  if (name === 'JsonWebTokenError') {
+    return { status: 401, body: { success: false, error: 'Invalid token' } };
   }
 
-  if (err.name === 'TokenExpiredError') {
-    return res.status(401).json({
-      success: false,
-      error: 'Token expired',
-    });
+  if (name === 'TokenExpiredError') {
+    return { status: 401, body: { success: false, error: 'Token expired' } };
+  }
+
+  // Bodies over the size limit of a body parser (CSV imports)
+  if (type === 'entity.too.large') {
+    return { status: 413, body: { success: false, error: 'Request body is too large' } };
   }
 
   // Default error
-  res.status(500).json({
-    success: false,
-    error: process.env.NODE_ENV === 'production' 
-      ? 'Internal server error' 
-      : err.message,
-  });
-};
+  return {
+    status: 500,
+    body: {
+      success: false,
+      error: process.env.NODE_ENV === 'production' || message === undefined
+        ? 'Internal server error'
+        : message,
+    },
+  };
+}
+
+export const errorHandler = (
+  err: Error,
+  _req: Request,
+  res: Response,
+  _next: NextFunction
+) => {
+  console.error('Error:', err);
 
+  const { status, body } = errorResponse(err);
+  res.status(status).json(body);
+};
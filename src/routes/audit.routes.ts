@@ -1,6 +1,16 @@
 import { Router } from 'express';
-import { getAuditLogs, getAuditLogById } from '../controllers/audit.controller.js';
-import { authenticate } from '../middleware/auth.middleware.js';
+import {
+  getAuditLogs,
+  getAuditLogById,
+  revertAuditLog,
+  verifyAuditLog,
+  exportSignedAuditLog,
+  getAuditSigningKey,
+  exportAuditLogs,
+  getAuditArchives,
+  downloadAuditArchive,
+} from '../controllers/audit.controller.js';
+import { authenticate, requirePermission } from '../middleware/auth.middleware.js';
 
 const router = Router();
 
@@ -9,6 +19,10 @@ const router = Router();
  * /api/audit:
  *   get:
  *     summary: List audit logs
+ *     description: |
+ *       Lists IP address history together with changes to subnets, reservations, users,
+ *       API tokens, teams and settings, and logins, newest first. Callers limited to some
+ *       subnets only see entries about those subnets.
  *     tags: [Audit]
  *     security:
  *       - bearerAuth: []
@@ -23,13 +37,57 @@ const router = Router();
  *         name: limit
  *         schema:
  *           type: integer
- *           default: 10
+ *           default: 50
  *         description: Items per page
  *       - in: query
+ *         name: entityType
+ *         schema:
+ *           type: string
+ *         description: Filter by entity type (IpAddress, Subnet, SubnetAccess, Reservation, User, ApiToken, Team, TeamMember, Setting)
+ *       - in: query
+ *         name: entityId
+ *         schema:
+ *           type: string
+ *         description: Filter by entity ID
+ *       - in: query
+ *         name: actor
+ *         schema:
+ *           type: string
+ *         description: Filter by the user who made the change (user ID or username)
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only entries at or after this time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only entries at or before this time
+ *       - in: query
  *         name: action
  *         schema:
  *           type: string
- *         description: Filter by action type
+ *         description: Filter by action; several as a comma-separated list (e.g. assigned,updated)
+ *       - in: query
+ *         name: field
+ *         schema:
+ *           type: string
+ *         description: Only entries that changed this field; several as a comma-separated list (e.g. macAddress)
+ *       - in: query
+ *         name: subnetId
+ *         schema:
+ *           type: string
+ *         description: Only entries about this subnet or the addresses in it
+ *       - in: query
+ *         name: subnet
+ *         schema:
+ *           type: string
+ *         description: |
+ *           IP address or CIDR (e.g. 10.20.0.0/16). A CIDR matches addresses in its range and
+ *           subnets within it; an address matches itself and the subnets containing it
  *       - in: query
  *         name: ipAddressId
  *         schema:
@@ -39,7 +97,7 @@ const router = Router();
  *         name: search
  *         schema:
  *           type: string
- *         description: Search by IP address or changed by
+ *         description: Search by changed by, action or entity type
  *     responses:
  *       200:
  *         description: List of audit logs
@@ -61,7 +119,322 @@ const router = Router();
  *                     pagination:
  *                       $ref: '#/components/schemas/Pagination'
  */
-router.get('/', authenticate, getAuditLogs);
+router.get('/', authenticate, requirePermission('audit:read'), getAuditLogs);
+
+/**
+ * @swagger
+ * /api/audit/export:
+ *   get:
+ *     summary: Export audit logs as CSV or NDJSON
+ *     description: |
+ *       Streams every entry matching the filters, newest first, in the same shape as
+ *       GET /api/audit (CSV flattens it to one row per entry with oldValue and newValue as JSON).
+ *       Takes the same filters as GET /api/audit, without paging.
+ *     tags: [Audit]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, ndjson]
+ *           default: ndjson
+ *       - in: query
+ *         name: entityType
+ *         schema:
+ *           type: string
+ *         description: Filter by entity type (IpAddress, Subnet, SubnetAccess, Reservation, User, ApiToken, Team, TeamMember, Setting)
+ *       - in: query
+ *         name: entityId
+ *         schema:
+ *           type: string
+ *         description: Filter by entity ID
+ *       - in: query
+ *         name: actor
+ *         schema:
+ *           type: string
+ *         description: Filter by the user who made the change (user ID or username)
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only entries at or after this time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only entries at or before this time
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *         description: Filter by action; several as a comma-separated list (e.g. assigned,updated)
+ *       - in: query
+ *         name: field
+ *         schema:
+ *           type: string
+ *         description: Only entries that changed this field; several as a comma-separated list (e.g. macAddress)
+ *       - in: query
+ *         name: subnetId
+ *         schema:
+ *           type: string
+ *         description: Only entries about this subnet or the addresses in it
+ *       - in: query
+ *         name: subnet
+ *         schema:
+ *           type: string
+ *         description: |
+ *           IP address or CIDR (e.g. 10.20.0.0/16). A CIDR matches addresses in its range and
+ *           subnets within it; an address matches itself and the subnets containing it
+ *       - in: query
+ *         name: ipAddressId
+ *         schema:
+ *           type: string
+ *         description: Filter by IP address ID
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Search by changed by, action or entity type
+ *     responses:
+ *       200:
+ *         description: Audit log export
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/x-ndjson:
+ *             schema:
+ *               type: string
+ */
+router.get('/export', authenticate, requirePermission('audit:read'), exportAuditLogs);
+
+/**
+ * @swagger
+ * /api/audit/archives:
+ *   get:
+ *     summary: List archived IP history segments
+ *     description: |
+ *       IP history older than AUDIT_RETENTION_DAYS is moved to compressed NDJSON files by
+ *       the archive job; each segment covers a range of the hash chain. Requires access to
+ *       all subnets.
+ *     tags: [Audit]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Archived segments, oldest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AuditArchive'
+ *       403:
+ *         description: Caller is limited to some subnets
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/archives', authenticate, requirePermission('audit:read'), getAuditArchives);
+
+/**
+ * @swagger
+ * /api/audit/archives/{fileName}:
+ *   get:
+ *     summary: Download an archived IP history segment
+ *     description: Gzip-compressed NDJSON, one IP history entry per line. Requires access to all subnets.
+ *     tags: [Audit]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: fileName
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: ip-history-0000000001-0000010000.ndjson.gz
+ *     responses:
+ *       200:
+ *         description: Archive file
+ *         content:
+ *           application/gzip:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       403:
+ *         description: Caller is limited to some subnets
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Archive not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/archives/:fileName', authenticate, requirePermission('audit:read'), downloadAuditArchive);
+
+/**
+ * @swagger
+ * /api/audit/verify:
+ *   get:
+ *     summary: Verify the audit hash chains
+ *     description: |
+ *       Walks the IP history and audit log hash chains from the first entry and reports the
+ *       first broken link of each: an entry whose content no longer matches its hash, whose
+ *       prevHash does not match the entry before it, or a gap left by deleted entries
+ *       (including entries removed from the end). Requires access to all subnets.
+ *     tags: [Audit]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: chain
+ *         schema:
+ *           type: string
+ *           enum: [ip_history, audit_logs]
+ *         description: Verify one chain only (both by default)
+ *     responses:
+ *       200:
+ *         description: Verification result
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     valid:
+ *                       type: boolean
+ *                     chains:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/AuditChainVerification'
+ *       403:
+ *         description: Caller is limited to some subnets
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/verify', authenticate, requirePermission('audit:read'), verifyAuditLog);
+
+/**
+ * @swagger
+ * /api/audit/export/signed:
+ *   get:
+ *     summary: Export a signed range of an audit hash chain
+ *     description: |
+ *       Returns chained entries by sequence number together with the chain head, signed with
+ *       the configured key (AUDIT_SIGNING_KEY) for archiving outside the application. The
+ *       signature covers the canonical JSON of the payload (object keys sorted, no
+ *       whitespace) and can be checked with the public key from /api/audit/signing-key.
+ *       At most AUDIT_EXPORT_MAX_ENTRIES entries are returned; continue from the returned
+ *       toSequence. Requires access to all subnets.
+ *     tags: [Audit]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: chain
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [ip_history, audit_logs]
+ *       - in: query
+ *         name: fromSequence
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: toSequence
+ *         schema:
+ *           type: integer
+ *         description: Last sequence number to include (the end of the chain by default)
+ *     responses:
+ *       200:
+ *         description: Signed export
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/SignedAuditExport'
+ *       403:
+ *         description: Caller is limited to some subnets
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: No signing key configured
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/export/signed', authenticate, requirePermission('audit:read'), exportSignedAuditLog);
+
+/**
+ * @swagger
+ * /api/audit/signing-key:
+ *   get:
+ *     summary: Get the public key that verifies signed exports
+ *     tags: [Audit]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Public key
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     algorithm:
+ *                       type: string
+ *                       example: ed25519
+ *                     publicKey:
+ *                       type: string
+ *                       description: SPKI PEM
+ *                     fingerprint:
+ *                       type: string
+ *                       description: SHA-256 of the DER-encoded public key
+ *       404:
+ *         description: No signing key configured
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/signing-key', authenticate, requirePermission('audit:read'), getAuditSigningKey);
 
 /**
  * @swagger
@@ -98,6 +471,74 @@ router.get('/', authenticate, getAuditLogs);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/:id', authenticate, getAuditLogById);
+router.get('/:id', authenticate, requirePermission('audit:read'), getAuditLogById);
+
+/**
+ * @swagger
+ * /api/audit/{id}/revert:
+ *   post:
+ *     summary: Revert an IP address change
+ *     description: |
+ *       Restores the IP address to its state before the change (an entry that assigned a new
+ *       address releases it). Refused with 409 and the differing fields if the address has
+ *       changed since; revert the later changes first. The revert is recorded as a
+ *       "reverted" history entry. Only IP address history entries can be reverted.
+ *     tags: [Audit]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Audit log ID
+ *     responses:
+ *       200:
+ *         description: Change reverted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/IpAddress'
+ *                 message:
+ *                   type: string
+ *                   example: Change reverted
+ *       400:
+ *         description: Entry is not an IP address change
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Audit log not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: The address has changed since, or the previous holder no longer exists
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: false
+ *                 error:
+ *                   type: string
+ *                 conflicts:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                   example: [hostname, status]
+ */
+router.post('/:id/revert', authenticate, requirePermission('ip-addresses:write'), revertAuditLog);
 
 export default router;
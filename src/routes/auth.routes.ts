@@ -1,6 +1,34 @@
 import { Router } from 'express';
-import { register, login, getMe, updateProfile, changePassword } from '../controllers/auth.controller.js';
-import { authenticate } from '../middleware/auth.middleware.js';
+import {
+  register,
+  login,
+  getMe,
+  updateProfile,
+  changePassword,
+  refresh,
+  logout,
+  getApiTokens,
+  createApiToken,
+  revokeApiToken,
+  forgotPassword,
+  resetPassword,
+  verifyEmail,
+  resendVerification,
+  getAuthProviders,
+  startOidc,
+  oidcCallback,
+} from '../controllers/auth.controller.js';
+import {
+  getMfaStatus,
+  setupMfa,
+  enableMfa,
+  disableMfa,
+  regenerateRecoveryCodes,
+  verifyMfaLogin,
+  getMfaPolicySetting,
+  updateMfaPolicySetting,
+} from '../controllers/mfa.controller.js';
+import { authenticate, requireSession, requirePermission } from '../middleware/auth.middleware.js';
 
 const router = Router();
 
@@ -9,6 +37,7 @@ const router = Router();
  * /api/auth/register:
  *   post:
  *     summary: Register a new user
+ *     description: New accounts always get the 'user' role; admins change roles through /api/users.
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -30,11 +59,7 @@ const router = Router();
  *               password:
  *                 type: string
  *                 format: password
- *                 example: admin123
- *               role:
- *                 type: string
- *                 enum: [admin, user, readonly]
- *                 example: admin
+ *                 example: Admin@ipam123
  *     responses:
  *       201:
  *         description: User registered successfully
@@ -53,7 +78,20 @@ const router = Router();
  *                       $ref: '#/components/schemas/User'
  *                     token:
  *                       type: string
+ *                       description: Short-lived access token
  *                       example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+ *                     refreshToken:
+ *                       type: string
+ *                       description: Single-use token for POST /api/auth/refresh
+ *                     expiresIn:
+ *                       type: string
+ *                       example: 15m
+ *                     refreshTokenExpiresAt:
+ *                       type: string
+ *                       format: date-time
+ *                     emailVerificationRequired:
+ *                       type: boolean
+ *                       description: Set instead of the tokens when REQUIRE_EMAIL_VERIFICATION is on; a verification email was sent
  *       400:
  *         description: Validation error
  *         content:
@@ -68,6 +106,7 @@ router.post('/register', register);
  * /api/auth/login:
  *   post:
  *     summary: Login user
+ *     description: Users with two-factor authentication get a challenge token instead of a session; complete the login with POST /api/auth/mfa/verify.
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -81,12 +120,12 @@ router.post('/register', register);
  *             properties:
  *               email:
  *                 type: string
- *                 format: email
+ *                 description: Email address, or directory username when LDAP login is enabled
  *                 example: admin@ipam.com
  *               password:
  *                 type: string
  *                 format: password
- *                 example: admin123
+ *                 example: Admin@ipam123
  *     responses:
  *       200:
  *         description: Login successful
@@ -105,16 +144,338 @@ router.post('/register', register);
  *                       $ref: '#/components/schemas/User'
  *                     token:
  *                       type: string
+ *                       description: Short-lived access token
  *                       example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+ *                     refreshToken:
+ *                       type: string
+ *                       description: Single-use token for POST /api/auth/refresh
+ *                     expiresIn:
+ *                       type: string
+ *                       example: 15m
+ *                     refreshTokenExpiresAt:
+ *                       type: string
+ *                       format: date-time
+ *                     mfaRequired:
+ *                       type: boolean
+ *                       description: Set instead of the tokens when a second factor is needed
+ *                     challengeToken:
+ *                       type: string
+ *                       description: Short-lived token for POST /api/auth/mfa/verify
  *       401:
  *         description: Invalid credentials
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Email address not verified, or the directory account is not in a mapped group
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         description: Too many failed attempts; the account or client IP is delayed or temporarily locked. See the Retry-After header.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  */
 router.post('/login', login);
 
+/**
+ * @swagger
+ * /api/auth/refresh:
+ *   post:
+ *     summary: Exchange a refresh token for a new access token
+ *     description: Refresh tokens are single-use; each call returns a new refresh token. Reusing an old refresh token revokes the whole session.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New token pair
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     user:
+ *                       $ref: '#/components/schemas/User'
+ *                     token:
+ *                       type: string
+ *                     refreshToken:
+ *                       type: string
+ *                     expiresIn:
+ *                       type: string
+ *                       example: 15m
+ *                     refreshTokenExpiresAt:
+ *                       type: string
+ *                       format: date-time
+ *       401:
+ *         description: Invalid, expired or revoked refresh token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/refresh', refresh);
+
+/**
+ * @swagger
+ * /api/auth/providers:
+ *   get:
+ *     summary: List the enabled sign-in methods
+ *     tags: [Authentication]
+ *     responses:
+ *       200:
+ *         description: Enabled providers
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     password:
+ *                       type: array
+ *                       description: Providers POST /api/auth/login tries, in order
+ *                       items:
+ *                         type: string
+ *                         enum: [local, ldap]
+ *                       example: [ldap, local]
+ *                     oidc:
+ *                       type: boolean
+ */
+router.get('/providers', getAuthProviders);
+
+/**
+ * @swagger
+ * /api/auth/oidc/authorize:
+ *   get:
+ *     summary: Start an OpenID Connect login
+ *     description: Returns the identity provider URL to send the browser to. The provider redirects back to OIDC_REDIRECT_URI with a code and state for POST /api/auth/oidc/callback.
+ *     tags: [Authentication]
+ *     responses:
+ *       200:
+ *         description: Authorization URL
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     authorizationUrl:
+ *                       type: string
+ *                     state:
+ *                       type: string
+ *                     expiresAt:
+ *                       type: string
+ *                       format: date-time
+ *       404:
+ *         description: OpenID Connect is not configured
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/oidc/authorize', startOidc);
+
+/**
+ * @swagger
+ * /api/auth/oidc/callback:
+ *   post:
+ *     summary: Complete an OpenID Connect login
+ *     description: Exchanges the code for the user's identity, provisions or updates the local user and maps directory groups to a role. Responds like POST /api/auth/login.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *               - state
+ *             properties:
+ *               code:
+ *                 type: string
+ *               state:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Login successful (or an MFA challenge)
+ *       401:
+ *         description: Invalid or expired login request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Not in a group allowed to use IPAM
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/oidc/callback', oidcCallback);
+
+/**
+ * @swagger
+ * /api/auth/forgot-password:
+ *   post:
+ *     summary: Request a password reset link by email
+ *     description: Always responds the same way, whether or not the account exists.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *     responses:
+ *       200:
+ *         description: Reset link sent if the account exists
+ */
+router.post('/forgot-password', forgotPassword);
+
+/**
+ * @swagger
+ * /api/auth/reset-password:
+ *   post:
+ *     summary: Set a new password with a reset token
+ *     description: The token from the email works once. All sessions are signed out and any login lockout is lifted.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - newPassword
+ *             properties:
+ *               token:
+ *                 type: string
+ *               newPassword:
+ *                 type: string
+ *                 format: password
+ *     responses:
+ *       200:
+ *         description: Password reset
+ *       400:
+ *         description: Invalid, expired or already used token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/reset-password', resetPassword);
+
+/**
+ * @swagger
+ * /api/auth/verify-email:
+ *   post:
+ *     summary: Confirm an email address with the token from the verification email
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Email address verified
+ *       400:
+ *         description: Invalid, expired or already used token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/verify-email', verifyEmail);
+
+/**
+ * @swagger
+ * /api/auth/resend-verification:
+ *   post:
+ *     summary: Send a new verification email
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *     responses:
+ *       200:
+ *         description: Verification email sent if the account exists and is unverified
+ */
+router.post('/resend-verification', resendVerification);
+
+/**
+ * @swagger
+ * /api/auth/logout:
+ *   post:
+ *     summary: End the current session
+ *     description: Revokes the session, so its access and refresh tokens stop working.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Logged out
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/logout', authenticate, logout);
+
 /**
  * @swagger
  * /api/auth/me:
@@ -135,7 +496,22 @@ router.post('/login', login);
  *                   type: boolean
  *                   example: true
  *                 data:
- *                   $ref: '#/components/schemas/User'
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/User'
+ *                     - type: object
+ *                       properties:
+ *                         permissions:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *                           example: [subnets:read, ip-addresses:read, ip-addresses:write]
+ *                         mfaEnabled:
+ *                           type: boolean
+ *                         mfaSetupRequired:
+ *                           type: boolean
+ *                           description: The MFA policy applies but no second factor is enrolled; other endpoints are refused until it is
+ *                         loginAttempts:
+ *                           $ref: '#/components/schemas/LoginAttempts'
  *       401:
  *         description: Unauthorized
  *         content:
@@ -187,7 +563,7 @@ router.get('/me', authenticate, getMe);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.put('/me', authenticate, updateProfile);
+router.put('/me', authenticate, requireSession, updateProfile);
 
 /**
  * @swagger
@@ -210,11 +586,11 @@ router.put('/me', authenticate, updateProfile);
  *               currentPassword:
  *                 type: string
  *                 format: password
- *                 example: oldpassword123
+ *                 example: Admin@ipam123
  *               newPassword:
  *                 type: string
  *                 format: password
- *                 example: newpassword123
+ *                 example: N3w-passphrase!
  *     responses:
  *       200:
  *         description: Password changed successfully
@@ -239,6 +615,407 @@ router.put('/me', authenticate, updateProfile);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.put('/password', authenticate, changePassword);
+router.put('/password', authenticate, requireSession, changePassword);
+
+/**
+ * @swagger
+ * /api/auth/tokens:
+ *   get:
+ *     summary: List your API tokens
+ *     description: Token values are never returned after creation; tokenPrefix identifies each token.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: API tokens of the current user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ApiToken'
+ *   post:
+ *     summary: Create an API token
+ *     description: Returns the token value once. Send it as `Authorization: Bearer <token>`. A token can never do more than its owner's role allows; scopes narrow it further (read = read-only, ip-assign = read plus IP address changes, admin = everything the role allows).
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - scopes
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: provisioning
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [read, ip-assign, admin]
+ *                 example: [ip-assign]
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       201:
+ *         description: Token created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/ApiToken'
+ *                     - type: object
+ *                       properties:
+ *                         token:
+ *                           type: string
+ *                           example: ipam_3q2+7w...
+ *       403:
+ *         description: Admin scope requested by a non-admin, or request made with an API token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/tokens', authenticate, getApiTokens);
+router.post('/tokens', authenticate, requireSession, createApiToken);
+
+/**
+ * @swagger
+ * /api/auth/tokens/{id}:
+ *   delete:
+ *     summary: Revoke an API token
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: API token ID
+ *     responses:
+ *       200:
+ *         description: Token revoked
+ *       404:
+ *         description: API token not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete('/tokens/:id', authenticate, requireSession, revokeApiToken);
+
+/**
+ * @swagger
+ * /api/auth/mfa:
+ *   get:
+ *     summary: Get your two-factor authentication status
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: MFA status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     enabled:
+ *                       type: boolean
+ *                     enabledAt:
+ *                       type: string
+ *                       format: date-time
+ *                       nullable: true
+ *                     setupPending:
+ *                       type: boolean
+ *                     recoveryCodesRemaining:
+ *                       type: integer
+ *                     required:
+ *                       type: boolean
+ *                       description: Whether the MFA policy applies to your role
+ */
+router.get('/mfa', authenticate, getMfaStatus);
+
+/**
+ * @swagger
+ * /api/auth/mfa/setup:
+ *   post:
+ *     summary: Start TOTP enrolment
+ *     description: Returns a new secret and an otpauth:// provisioning URI for an authenticator app. Confirm with POST /api/auth/mfa/enable.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Secret generated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     secret:
+ *                       type: string
+ *                       example: JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP
+ *                     provisioningUri:
+ *                       type: string
+ *                       example: otpauth://totp/IPAM%3Aadmin%40ipam.com?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=IPAM&algorithm=SHA1&digits=6&period=30
+ *       409:
+ *         description: Two-factor authentication is already enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/mfa/setup', authenticate, requireSession, setupMfa);
+
+/**
+ * @swagger
+ * /api/auth/mfa/enable:
+ *   post:
+ *     summary: Confirm TOTP enrolment with a code from the authenticator app
+ *     description: Returns recovery codes, which are shown only once.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     recoveryCodes:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       example: [3f9a2-c71d0, 8b14e-02fa9]
+ *       400:
+ *         description: Invalid code or no enrolment in progress
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/mfa/enable', authenticate, requireSession, enableMfa);
+
+/**
+ * @swagger
+ * /api/auth/mfa/disable:
+ *   post:
+ *     summary: Turn off two-factor authentication
+ *     description: Not allowed while the MFA policy requires it for your role. Wrong passwords and codes count as failed logins.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - password
+ *             properties:
+ *               password:
+ *                 type: string
+ *                 format: password
+ *               code:
+ *                 type: string
+ *               recoveryCode:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication disabled
+ *       401:
+ *         description: Wrong password or code
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Required by the MFA policy
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         description: Too many failed attempts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/mfa/disable', authenticate, requireSession, disableMfa);
+
+/**
+ * @swagger
+ * /api/auth/mfa/recovery-codes:
+ *   post:
+ *     summary: Replace your recovery codes
+ *     description: Wrong codes count as failed logins.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New recovery codes; the old ones stop working
+ *       401:
+ *         description: Invalid code
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         description: Too many failed attempts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/mfa/recovery-codes', authenticate, requireSession, regenerateRecoveryCodes);
+
+/**
+ * @swagger
+ * /api/auth/mfa/verify:
+ *   post:
+ *     summary: Complete a login with a second factor
+ *     description: Takes the challenge token from POST /api/auth/login and either a TOTP code or a recovery code. Wrong codes count as failed logins.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *               recoveryCode:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Login successful; same response as a login without MFA
+ *       401:
+ *         description: Invalid code or expired challenge token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         description: Too many failed attempts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/mfa/verify', verifyMfaLogin);
+
+/**
+ * @swagger
+ * /api/auth/mfa/policy:
+ *   get:
+ *     summary: Get the MFA policy (Admin only)
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Roles that must use two-factor authentication
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/MfaPolicy'
+ *   put:
+ *     summary: Set the MFA policy (Admin only)
+ *     description: Users in a required role without a second factor can only reach /api/auth until they enrol.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/MfaPolicy'
+ *     responses:
+ *       200:
+ *         description: Policy updated
+ */
+router.get('/mfa/policy', authenticate, requirePermission('users:read'), getMfaPolicySetting);
+router.put('/mfa/policy', authenticate, requireSession, requirePermission('users:write'), updateMfaPolicySetting);
 
 export default router;
@@ -0,0 +1,173 @@
+import express, { Router } from 'express';
+import { importSubnets } from '../controllers/subnet.controller.js';
+import { importIpAddresses } from '../controllers/ipAddress.controller.js';
+import { authenticate, requirePermission } from '../middleware/auth.middleware.js';
+import { IMPORT } from '../config/import.js';
+
+const router = Router();
+
+// CSV is sent as the raw request body, which the global JSON parser leaves alone
+const csvBody = express.text({ type: ['text/csv', 'text/plain'], limit: IMPORT.maxBytes });
+
+/**
+ * @swagger
+ * /api/import/subnets:
+ *   post:
+ *     summary: Import subnets from CSV
+ *     description: |
+ *       Creates a subnet for every row, placed in the hierarchy like POST /api/subnets.
+ *       A row whose prefix already exists updates its description, VLAN and location
+ *       (empty cells keep the current value), or is skipped when nothing differs.
+ *       Columns are matched to the fields networkAddress, subnetMask, cidr (instead of
+ *       networkAddress and subnetMask), description, vlanId and location by header name,
+ *       or through mapping. Every row is validated and all rows are applied in one
+ *       transaction; if any row fails, nothing is changed. With dryRun=true the result
+ *       shows what would be created, updated or skipped without changing anything.
+ *     tags: [Import]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Report what the import would do without committing it
+ *       - in: query
+ *         name: onExisting
+ *         schema:
+ *           type: string
+ *           enum: [update, skip]
+ *           default: update
+ *         description: Update existing subnets from their row, or leave them as they are
+ *       - in: query
+ *         name: mapping
+ *         style: deepObject
+ *         explode: true
+ *         schema:
+ *           type: object
+ *           additionalProperties:
+ *             type: string
+ *         description: CSV header for a field, e.g. mapping[cidr]=Network&mapping[vlanId]=VLAN
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         text/csv:
+ *           schema:
+ *             type: string
+ *             example: |
+ *               Network,VLAN,Site,description
+ *               10.20.0.0/16,,DC1,Datacenter 1
+ *               10.20.1.0/24,120,DC1,Servers
+ *     responses:
+ *       200:
+ *         description: Import committed, or the dry run result
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/ImportResult'
+ *       400:
+ *         description: Unreadable CSV or mapping, or rows failed (data lists the result of every row) and nothing was changed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: The import conflicted with a concurrent change
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       413:
+ *         description: CSV is larger than IMPORT_MAX_BYTES
+ */
+router.post('/subnets', authenticate, requirePermission('subnets:write'), csvBody, importSubnets);
+
+/**
+ * @swagger
+ * /api/import/ip-addresses:
+ *   post:
+ *     summary: Import IP addresses from CSV
+ *     description: |
+ *       Assigns the address of every row in the most specific subnet containing it, or in
+ *       the subnet named by the subnet column (a CIDR). An address that is already assigned
+ *       is updated from its row (empty cells keep the current value), or skipped when
+ *       nothing differs; rows with status AVAILABLE for unassigned addresses are skipped.
+ *       Columns are matched to the fields ipAddress, subnet, status, hostname, macAddress,
+ *       deviceName, assignedTo and description by header name, or through mapping. Every
+ *       row is validated and all rows are applied in one transaction; if any row fails,
+ *       nothing is changed. With dryRun=true the result shows what would be created,
+ *       updated or skipped without changing anything.
+ *     tags: [Import]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Report what the import would do without committing it
+ *       - in: query
+ *         name: onExisting
+ *         schema:
+ *           type: string
+ *           enum: [update, skip]
+ *           default: update
+ *         description: Update assigned addresses from their row, or leave them as they are
+ *       - in: query
+ *         name: mapping
+ *         style: deepObject
+ *         explode: true
+ *         schema:
+ *           type: object
+ *           additionalProperties:
+ *             type: string
+ *         description: CSV header for a field, e.g. mapping[ipAddress]=IP&mapping[hostname]=Host
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         text/csv:
+ *           schema:
+ *             type: string
+ *             example: |
+ *               IP,Host,MAC,status
+ *               10.20.1.10,web01,00:11:22:33:44:55,STATIC
+ *               10.20.1.11,web02,,ASSIGNED
+ *     responses:
+ *       200:
+ *         description: Import committed, or the dry run result
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/ImportResult'
+ *       400:
+ *         description: Unreadable CSV or mapping, or rows failed (data lists the result of every row) and nothing was changed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: The import conflicted with a concurrent change
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       413:
+ *         description: CSV is larger than IMPORT_MAX_BYTES
+ */
+router.post('/ip-addresses', authenticate, requirePermission('ip-addresses:write'), csvBody, importIpAddresses);
+
+export default router;
@@ -2,11 +2,13 @@ import { Router } from 'express';
 import {
   getIpAddresses,
   getIpAddressById,
+  getIpAddressAt,
   assignIpAddress,
   updateIpAddress,
   releaseIpAddress,
+  bulkIpOperations,
 } from '../controllers/ipAddress.controller.js';
-import { authenticate } from '../middleware/auth.middleware.js';
+import { authenticate, requirePermission } from '../middleware/auth.middleware.js';
 
 const router = Router();
 
@@ -68,7 +70,7 @@ const router = Router();
  *                     pagination:
  *                       $ref: '#/components/schemas/Pagination'
  */
-router.get('/', authenticate, getIpAddresses);
+router.get('/', authenticate, requirePermission('ip-addresses:read'), getIpAddresses);
 
 /**
  * @swagger
@@ -106,6 +108,14 @@ router.get('/', authenticate, getIpAddresses);
  *               assignedTo:
  *                 type: string
  *                 example: John Doe
+ *               assignedUserId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: User holding the address (assignedTo defaults to the username)
+ *               assignedTeamId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Team holding the address (assignedTo defaults to the team name)
  *               description:
  *                 type: string
  *                 example: Primary web server
@@ -113,6 +123,23 @@ router.get('/', authenticate, getIpAddresses);
  *                 type: string
  *                 enum: [AVAILABLE, RESERVED, ASSIGNED, DHCP, STATIC]
  *                 example: ASSIGNED
+ *               allocation:
+ *                 type: string
+ *                 enum: [sequential, random, eui64]
+ *                 default: sequential
+ *                 description: How to pick the address when ipAddress is omitted. random and eui64 are IPv6 only; eui64 derives the address from macAddress.
+ *               excludeRanges:
+ *                 type: array
+ *                 description: Ranges to skip during automatic allocation, in addition to reservations and child subnets
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     startIp:
+ *                       type: string
+ *                       example: 192.168.1.1
+ *                     endIp:
+ *                       type: string
+ *                       example: 192.168.1.9
  *     responses:
  *       201:
  *         description: IP address assigned successfully
@@ -132,8 +159,137 @@ router.get('/', authenticate, getIpAddresses);
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: No free address available
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  */
-router.post('/assign', authenticate, assignIpAddress);
+router.post('/assign', authenticate, requirePermission('ip-addresses:write'), assignIpAddress);
+
+/**
+ * @swagger
+ * /api/ip-addresses/bulk:
+ *   post:
+ *     summary: Assign, update and release many IP addresses in one request
+ *     description: |
+ *       Runs a list of operations in order. In atomic mode every operation runs in one transaction and any failure rolls back all of them. In best-effort mode each operation commits on its own and failures are reported per item. Every change is recorded in the IP history.
+ *     tags: [IP Addresses]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - operations
+ *             properties:
+ *               mode:
+ *                 type: string
+ *                 enum: [atomic, best-effort]
+ *                 default: atomic
+ *               operations:
+ *                 type: array
+ *                 maxItems: 500
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - action
+ *                   properties:
+ *                     action:
+ *                       type: string
+ *                       enum: [assign, update, release]
+ *                     subnetId:
+ *                       type: string
+ *                       description: Required for assign
+ *                     id:
+ *                       type: string
+ *                       description: IP address ID (update/release; ipAddress may be used instead)
+ *                     ipAddress:
+ *                       type: string
+ *                       description: Explicit IP for assign, or the IP to update/release. Omit on assign to auto-pick.
+ *                     hostname:
+ *                       type: string
+ *                     macAddress:
+ *                       type: string
+ *                     deviceName:
+ *                       type: string
+ *                     assignedTo:
+ *                       type: string
+ *                     assignedUserId:
+ *                       type: string
+ *                     assignedTeamId:
+ *                       type: string
+ *                     description:
+ *                       type: string
+ *                     status:
+ *                       type: string
+ *                       enum: [AVAILABLE, RESERVED, ASSIGNED, DHCP, STATIC]
+ *             example:
+ *               mode: atomic
+ *               operations:
+ *                 - action: assign
+ *                   subnetId: clx1234567890
+ *                   hostname: rack12-node01
+ *                   macAddress: 00:1B:44:11:3A:B7
+ *                 - action: assign
+ *                   subnetId: clx1234567890
+ *                   ipAddress: 192.168.1.60
+ *                   hostname: rack12-node02
+ *                 - action: release
+ *                   ipAddress: 192.168.1.20
+ *     responses:
+ *       200:
+ *         description: Per-item results
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     mode:
+ *                       type: string
+ *                     succeeded:
+ *                       type: integer
+ *                     failed:
+ *                       type: integer
+ *                     results:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           index:
+ *                             type: integer
+ *                           action:
+ *                             type: string
+ *                           success:
+ *                             type: boolean
+ *                           data:
+ *                             $ref: '#/components/schemas/IpAddress'
+ *                           error:
+ *                             type: string
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Atomic mode only - an operation conflicted and nothing was changed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/bulk', authenticate, requirePermission('ip-addresses:write'), bulkIpOperations);
 
 /**
  * @swagger
@@ -170,7 +326,7 @@ router.post('/assign', authenticate, assignIpAddress);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/:id/release', authenticate, releaseIpAddress);
+router.post('/:id/release', authenticate, requirePermission('ip-addresses:write'), releaseIpAddress);
 
 /**
  * @swagger
@@ -207,7 +363,62 @@ router.post('/:id/release', authenticate, releaseIpAddress);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/:id', authenticate, getIpAddressById);
+router.get('/:id', authenticate, requirePermission('ip-addresses:read'), getIpAddressById);
+
+/**
+ * @swagger
+ * /api/ip-addresses/{id}/at:
+ *   get:
+ *     summary: Get an IP address as it was at a point in time
+ *     description: Reconstructed from the address's history. 404 if the address did not exist then or its state at that time was not recorded.
+ *     tags: [IP Addresses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: IP Address ID
+ *       - in: query
+ *         name: timestamp
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Point in time
+ *     responses:
+ *       200:
+ *         description: IP address state at that time
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     timestamp:
+ *                       type: string
+ *                       format: date-time
+ *                     historyId:
+ *                       type: string
+ *                       nullable: true
+ *                       description: History entry the state comes from (null if from before the first recorded change, or unchanged since)
+ *                     ipAddress:
+ *                       $ref: '#/components/schemas/IpAddress'
+ *       404:
+ *         description: IP address not found, or no state at that time
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/at', authenticate, requirePermission('ip-addresses:read'), getIpAddressAt);
 
 /**
  * @swagger
@@ -243,6 +454,14 @@ router.get('/:id', authenticate, getIpAddressById);
  *               assignedTo:
  *                 type: string
  *                 example: Jane Smith
+ *               assignedUserId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: User holding the address (assignedTo defaults to the username)
+ *               assignedTeamId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Team holding the address (assignedTo defaults to the team name)
  *               description:
  *                 type: string
  *                 example: Updated description
@@ -270,6 +489,6 @@ router.get('/:id', authenticate, getIpAddressById);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.put('/:id', authenticate, updateIpAddress);
+router.put('/:id', authenticate, requirePermission('ip-addresses:write'), updateIpAddress);
 
 export default router;
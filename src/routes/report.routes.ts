@@ -1,6 +1,6 @@
 import { Router } from 'express';
-import { getUtilizationReport, getStatusReport } from '../controllers/report.controller.js';
-import { authenticate } from '../middleware/auth.middleware.js';
+import { getUtilizationReport, getStatusReport, getHoldingsReport } from '../controllers/report.controller.js';
+import { authenticate, requirePermission } from '../middleware/auth.middleware.js';
 
 const router = Router();
 
@@ -26,7 +26,7 @@ const router = Router();
  *                 data:
  *                   $ref: '#/components/schemas/UtilizationReport'
  */
-router.get('/utilization', authenticate, getUtilizationReport);
+router.get('/utilization', authenticate, requirePermission('reports:read'), getUtilizationReport);
 
 /**
  * @swagger
@@ -50,6 +50,75 @@ router.get('/utilization', authenticate, getUtilizationReport);
  *                 data:
  *                   $ref: '#/components/schemas/StatusReport'
  */
-router.get('/status', authenticate, getStatusReport);
+router.get('/status', authenticate, requirePermission('reports:read'), getStatusReport);
+
+/**
+ * @swagger
+ * /api/reports/holdings:
+ *   get:
+ *     summary: List IP addresses and reservations held by a team or user
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: teamId
+ *         schema:
+ *           type: string
+ *         description: Team ID (provide either teamId or userId)
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: string
+ *         description: User ID (provide either teamId or userId)
+ *     responses:
+ *       200:
+ *         description: Holdings of the team or user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     holder:
+ *                       type: object
+ *                       properties:
+ *                         type:
+ *                           type: string
+ *                           enum: [team, user]
+ *                         id:
+ *                           type: string
+ *                     ipAddresses:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/IpAddress'
+ *                     reservations:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Reservation'
+ *                     totals:
+ *                       type: object
+ *                       properties:
+ *                         ipAddresses:
+ *                           type: integer
+ *                         reservations:
+ *                           type: integer
+ *                         byStatus:
+ *                           type: object
+ *                           additionalProperties:
+ *                             type: integer
+ *       404:
+ *         description: Team or user not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/holdings', authenticate, requirePermission('reports:read'), getHoldingsReport);
 
 export default router;
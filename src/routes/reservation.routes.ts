@@ -6,7 +6,7 @@ import {
   updateReservation,
   deleteReservation,
 } from '../controllers/reservation.controller.js';
-import { authenticate } from '../middleware/auth.middleware.js';
+import { authenticate, requirePermission } from '../middleware/auth.middleware.js';
 
 const router = Router();
 
@@ -45,7 +45,7 @@ const router = Router();
  *                   items:
  *                     $ref: '#/components/schemas/Reservation'
  */
-router.get('/', authenticate, getReservations);
+router.get('/', authenticate, requirePermission('reservations:read'), getReservations);
 
 /**
  * @swagger
@@ -82,7 +82,7 @@ router.get('/', authenticate, getReservations);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/:id', authenticate, getReservationById);
+router.get('/:id', authenticate, requirePermission('reservations:read'), getReservationById);
 
 /**
  * @swagger
@@ -118,6 +118,14 @@ router.get('/:id', authenticate, getReservationById);
  *               reservedBy:
  *                 type: string
  *                 example: Network Team
+ *               reservedByUserId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: User holding the reservation (reservedBy defaults to the username)
+ *               reservedByTeamId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Team holding the reservation (reservedBy defaults to the team name)
  *               expiresAt:
  *                 type: string
  *                 format: date-time
@@ -143,7 +151,7 @@ router.get('/:id', authenticate, getReservationById);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/', authenticate, createReservation);
+router.post('/', authenticate, requirePermission('reservations:write'), createReservation);
 
 /**
  * @swagger
@@ -179,6 +187,14 @@ router.post('/', authenticate, createReservation);
  *               reservedBy:
  *                 type: string
  *                 example: Updated Team
+ *               reservedByUserId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: User holding the reservation (reservedBy defaults to the username)
+ *               reservedByTeamId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Team holding the reservation (reservedBy defaults to the team name)
  *               expiresAt:
  *                 type: string
  *                 format: date-time
@@ -196,14 +212,26 @@ router.post('/', authenticate, createReservation);
  *                   example: true
  *                 data:
  *                   $ref: '#/components/schemas/Reservation'
+ *       400:
+ *         description: Validation error or IP range outside the subnet
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: Reservation not found
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: IP range conflicts with assigned IPs or another reservation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  */
-router.put('/:id', authenticate, updateReservation);
+router.put('/:id', authenticate, requirePermission('reservations:write'), updateReservation);
 
 /**
  * @swagger
@@ -243,7 +271,13 @@ router.put('/:id', authenticate, updateReservation);
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: The reservation was changed concurrently, retry
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  */
-router.delete('/:id', authenticate, deleteReservation);
+router.delete('/:id', authenticate, requirePermission('reservations:write'), deleteReservation);
 
 export default router;
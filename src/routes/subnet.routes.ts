@@ -2,11 +2,20 @@ import { Router } from 'express';
 import {
   getSubnets,
   getSubnetById,
+  getSubnetTree,
+  getSubnetFreeBlocks,
+  getSubnetSnapshotAt,
   createSubnet,
   updateSubnet,
   deleteSubnet,
+  allocateChildSubnet,
+  splitSubnet,
+  mergeSubnets,
+  getSubnetAccess,
+  grantSubnetAccess,
+  revokeSubnetAccess,
 } from '../controllers/subnet.controller.js';
-import { authenticate } from '../middleware/auth.middleware.js';
+import { authenticate, requirePermission } from '../middleware/auth.middleware.js';
 
 const router = Router();
 
@@ -67,7 +76,52 @@ const router = Router();
  *                     pagination:
  *                       $ref: '#/components/schemas/Pagination'
  */
-router.get('/', authenticate, getSubnets);
+router.get('/', authenticate, requirePermission('subnets:read'), getSubnets);
+
+/**
+ * @swagger
+ * /api/subnets/tree:
+ *   get:
+ *     summary: Get the subnet hierarchy as a nested tree
+ *     description: Returns every subnet nested under its parent, with its own utilization, utilization rolled up from its descendants, and the free blocks between its children.
+ *     tags: [Subnets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: rootId
+ *         schema:
+ *           type: string
+ *         description: Only return the tree below this subnet
+ *       - in: query
+ *         name: ipVersion
+ *         schema:
+ *           type: string
+ *           enum: [IPv4, IPv6]
+ *         description: Filter by IP version
+ *     responses:
+ *       200:
+ *         description: Subnet tree
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/SubnetTreeNode'
+ *       404:
+ *         description: Root subnet not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/tree', authenticate, requirePermission('subnets:read'), getSubnetTree);
 
 /**
  * @swagger
@@ -104,7 +158,117 @@ router.get('/', authenticate, getSubnets);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/:id', authenticate, getSubnetById);
+router.get('/:id', authenticate, requirePermission('subnets:read'), getSubnetById);
+
+/**
+ * @swagger
+ * /api/subnets/{id}/free-blocks:
+ *   get:
+ *     summary: List unallocated address ranges in a subnet
+ *     description: Returns the gaps left by assigned IP addresses, reservations and child subnets, each as a start-end range and as the smallest set of CIDR blocks covering it.
+ *     tags: [Subnets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Subnet ID
+ *     responses:
+ *       200:
+ *         description: Free blocks
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     subnetId:
+ *                       type: string
+ *                     cidr:
+ *                       type: string
+ *                       example: 10.0.0.0/24
+ *                     totalFree:
+ *                       type: string
+ *                       example: '192'
+ *                     freeBlocks:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/FreeBlock'
+ *       404:
+ *         description: Subnet not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/free-blocks', authenticate, requirePermission('subnets:read'), getSubnetFreeBlocks);
+
+/**
+ * @swagger
+ * /api/subnets/{id}/snapshot:
+ *   get:
+ *     summary: Get a subnet and its IP addresses as they were at a point in time
+ *     description: Reconstructed from the audit log and IP address history. Addresses whose state at that time was not recorded are listed in unrecordedIpAddresses.
+ *     tags: [Subnets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Subnet ID
+ *       - in: query
+ *         name: at
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Point in time
+ *     responses:
+ *       200:
+ *         description: Subnet snapshot
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     at:
+ *                       type: string
+ *                       format: date-time
+ *                     subnet:
+ *                       $ref: '#/components/schemas/Subnet'
+ *                     ipAddresses:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/IpAddress'
+ *                     unrecordedIpAddresses:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *       404:
+ *         description: Subnet not found, or it did not exist at that time
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/snapshot', authenticate, requirePermission('subnets:read'), getSubnetSnapshotAt);
 
 /**
  * @swagger
@@ -144,6 +308,7 @@ router.get('/:id', authenticate, getSubnetById);
  *               parentSubnetId:
  *                 type: string
  *                 nullable: true
+ *                 description: Parent subnet ID. Detected automatically from the most specific containing subnet when omitted.
  *     responses:
  *       201:
  *         description: Subnet created successfully
@@ -163,8 +328,221 @@ router.get('/:id', authenticate, getSubnetById);
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Subnet is outside its parent or overlaps existing subnets
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Error'
+ *                 - type: object
+ *                   properties:
+ *                     conflicts:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       example: ['192.168.1.0/25']
+ */
+router.post('/', authenticate, requirePermission('subnets:write'), createSubnet);
+
+/**
+ * @swagger
+ * /api/subnets/{id}/allocate-child:
+ *   post:
+ *     summary: Allocate the next available child subnet from a parent
+ *     description: Picks a free, aligned block of the requested prefix length inside the parent that does not overlap existing child subnets, and creates it as a child.
+ *     tags: [Subnets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Parent subnet ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - prefixLength
+ *             properties:
+ *               prefixLength:
+ *                 type: integer
+ *                 example: 26
+ *               strategy:
+ *                 type: string
+ *                 enum: [first-fit, best-fit, last-fit]
+ *                 default: first-fit
+ *               description:
+ *                 type: string
+ *                 example: Rack 12 servers
+ *               vlanId:
+ *                 type: integer
+ *                 example: 120
+ *               location:
+ *                 type: string
+ *                 example: Datacenter A
+ *     responses:
+ *       201:
+ *         description: Child subnet allocated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/Subnet'
+ *       400:
+ *         description: Invalid prefix length for the parent subnet
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Subnet not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: No free block of the requested size
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/allocate-child', authenticate, requirePermission('subnets:write'), allocateChildSubnet);
+
+/**
+ * @swagger
+ * /api/subnets/merge:
+ *   post:
+ *     summary: Merge adjacent sibling subnets into their aggregate
+ *     description: Replaces the given subnets with a single aggregate subnet. IP addresses, reservations and child subnets are moved to the aggregate in one transaction.
+ *     tags: [Subnets]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - subnetIds
+ *             properties:
+ *               subnetIds:
+ *                 type: array
+ *                 minItems: 2
+ *                 items:
+ *                   type: string
+ *               description:
+ *                 type: string
+ *                 description: Defaults to the first subnet's description
+ *               vlanId:
+ *                 type: integer
+ *               location:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Subnets merged
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/Subnet'
+ *       400:
+ *         description: Subnets are not siblings of the same IP version
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Subnets do not form a single CIDR block, or the aggregate already exists
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/merge', authenticate, requirePermission('subnets:write'), mergeSubnets);
+
+/**
+ * @swagger
+ * /api/subnets/{id}/split:
+ *   post:
+ *     summary: Split a subnet into equal smaller subnets
+ *     description: Replaces the subnet with equal, consecutive subnets. IP addresses, reservations and child subnets are moved to the subnet they fall into in one transaction. Provide either prefixLength or count.
+ *     tags: [Subnets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Subnet ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               prefixLength:
+ *                 type: integer
+ *                 example: 26
+ *               count:
+ *                 type: integer
+ *                 description: Number of resulting subnets (power of two)
+ *                 example: 4
+ *     responses:
+ *       201:
+ *         description: Subnet split
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Subnet'
+ *       400:
+ *         description: Invalid prefix length or count
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Subnet not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: An assigned address, reservation or child subnet does not fit in the host range of one resulting subnet, or a child subnet is as large as the resulting subnets
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  */
-router.post('/', authenticate, createSubnet);
+router.post('/:id/split', authenticate, requirePermission('subnets:write'), splitSubnet);
 
 /**
  * @swagger
@@ -205,6 +583,10 @@ router.post('/', authenticate, createSubnet);
  *               location:
  *                 type: string
  *                 example: Datacenter B
+ *               parentSubnetId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: null places the subnet under its most specific containing subnet, or at the root
  *     responses:
  *       200:
  *         description: Subnet updated successfully
@@ -224,8 +606,22 @@ router.post('/', authenticate, createSubnet);
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Subnet is outside its parent, overlaps existing subnets, or would no longer hold its IP addresses or reservations
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Error'
+ *                 - type: object
+ *                   properties:
+ *                     conflicts:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       example: ['192.168.1.0/25']
  */
-router.put('/:id', authenticate, updateSubnet);
+router.put('/:id', authenticate, requirePermission('subnets:write'), updateSubnet);
 
 /**
  * @swagger
@@ -266,6 +662,132 @@ router.put('/:id', authenticate, updateSubnet);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.delete('/:id', authenticate, deleteSubnet);
+router.delete('/:id', authenticate, requirePermission('subnets:delete'), deleteSubnet);
+
+/**
+ * @swagger
+ * /api/subnets/{id}/access:
+ *   get:
+ *     summary: List access grants for a subnet
+ *     description: Returns grants on the subnet itself and those inherited from its ancestors.
+ *     tags: [Subnets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Subnet ID
+ *     responses:
+ *       200:
+ *         description: Access grants
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/SubnetAccess'
+ *       404:
+ *         description: Subnet not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *   put:
+ *     summary: Grant a user or team access to a subnet
+ *     description: Creates or updates the grant. Levels are VIEW, ASSIGN (IP addresses), RESERVE (reservations) and ADMIN (subnet settings and grants); each includes the ones before it and applies to all descendant subnets. Once a subnet or any ancestor has a grant, only grantees and admins can access it.
+ *     tags: [Subnets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Subnet ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - level
+ *             properties:
+ *               userId:
+ *                 type: string
+ *               teamId:
+ *                 type: string
+ *               level:
+ *                 type: string
+ *                 enum: [VIEW, ASSIGN, RESERVE, ADMIN]
+ *     responses:
+ *       200:
+ *         description: Grant updated
+ *       201:
+ *         description: Grant created
+ *       403:
+ *         description: ADMIN access to the subnet is required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Subnet, user or team not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/access', authenticate, requirePermission('subnets:read'), getSubnetAccess);
+router.put('/:id/access', authenticate, requirePermission('subnets:write'), grantSubnetAccess);
+
+/**
+ * @swagger
+ * /api/subnets/{id}/access/{accessId}:
+ *   delete:
+ *     summary: Remove an access grant from a subnet
+ *     tags: [Subnets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Subnet ID
+ *       - in: path
+ *         name: accessId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Access grant ID
+ *     responses:
+ *       200:
+ *         description: Grant removed
+ *       403:
+ *         description: ADMIN access to the subnet is required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Access grant not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete('/:id/access/:accessId', authenticate, requirePermission('subnets:write'), revokeSubnetAccess);
 
 export default router;
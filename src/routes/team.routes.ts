@@ -0,0 +1,259 @@
+import { Router } from 'express';
+import {
+  getTeams,
+  getTeamById,
+  createTeam,
+  updateTeam,
+  deleteTeam,
+  addTeamMember,
+  removeTeamMember,
+} from '../controllers/team.controller.js';
+import { authenticate, requirePermission } from '../middleware/auth.middleware.js';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/teams:
+ *   get:
+ *     summary: List all teams
+ *     tags: [Teams]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: List of teams with member and holding counts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Team'
+ */
+router.get('/', authenticate, requirePermission('teams:read'), getTeams);
+
+/**
+ * @swagger
+ * /api/teams/{id}:
+ *   get:
+ *     summary: Get team by ID with its members
+ *     tags: [Teams]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Team ID
+ *     responses:
+ *       200:
+ *         description: Team details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/Team'
+ *                     - type: object
+ *                       properties:
+ *                         members:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/TeamMember'
+ *       404:
+ *         description: Team not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id', authenticate, requirePermission('teams:read'), getTeamById);
+
+/**
+ * @swagger
+ * /api/teams:
+ *   post:
+ *     summary: Create a team (Admin only)
+ *     tags: [Teams]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Network Team
+ *               description:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Team created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/Team'
+ *       409:
+ *         description: Team with this name already exists
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/', authenticate, requirePermission('teams:write'), createTeam);
+
+/**
+ * @swagger
+ * /api/teams/{id}:
+ *   put:
+ *     summary: Update a team (Admin only)
+ *     tags: [Teams]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Team ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Team updated
+ *       404:
+ *         description: Team not found
+ *       409:
+ *         description: Team with this name already exists
+ *   delete:
+ *     summary: Delete a team (Admin only)
+ *     description: Removes memberships and subnet grants. Addresses and reservations held by the team keep their free-text holder.
+ *     tags: [Teams]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Team ID
+ *     responses:
+ *       200:
+ *         description: Team deleted
+ *       404:
+ *         description: Team not found
+ */
+router.put('/:id', authenticate, requirePermission('teams:write'), updateTeam);
+router.delete('/:id', authenticate, requirePermission('teams:write'), deleteTeam);
+
+/**
+ * @swagger
+ * /api/teams/{id}/members:
+ *   post:
+ *     summary: Add a user to a team (Admin only)
+ *     tags: [Teams]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Team ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userId
+ *             properties:
+ *               userId:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Member added
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/TeamMember'
+ *       404:
+ *         description: Team or user not found
+ *       409:
+ *         description: User is already a member of this team
+ */
+router.post('/:id/members', authenticate, requirePermission('teams:write'), addTeamMember);
+
+/**
+ * @swagger
+ * /api/teams/{id}/members/{userId}:
+ *   delete:
+ *     summary: Remove a user from a team (Admin only)
+ *     tags: [Teams]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Team ID
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID
+ *     responses:
+ *       200:
+ *         description: Member removed
+ *       404:
+ *         description: Team member not found
+ */
+router.delete('/:id/members/:userId', authenticate, requirePermission('teams:write'), removeTeamMember);
+
+export default router;
@@ -5,8 +5,12 @@ import {
   createUser,
   updateUser,
   deleteUser,
+  revokeSessions,
+  unlockUser,
+  resetUserMfa,
+  sendUserPasswordReset,
 } from '../controllers/user.controller.js';
-import { authenticate } from '../middleware/auth.middleware.js';
+import { authenticate, requirePermission } from '../middleware/auth.middleware.js';
 
 const router = Router();
 
@@ -40,7 +44,7 @@ const router = Router();
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/', authenticate, getUsers);
+router.get('/', authenticate, requirePermission('users:read'), getUsers);
 
 /**
  * @swagger
@@ -83,7 +87,7 @@ router.get('/', authenticate, getUsers);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/:id', authenticate, getUserById);
+router.get('/:id', authenticate, requirePermission('users:read'), getUserById);
 
 /**
  * @swagger
@@ -114,7 +118,7 @@ router.get('/:id', authenticate, getUserById);
  *               password:
  *                 type: string
  *                 format: password
- *                 example: password123
+ *                 example: Ch4nge-me-now
  *               role:
  *                 type: string
  *                 enum: [admin, user, readonly]
@@ -145,7 +149,7 @@ router.get('/:id', authenticate, getUserById);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/', authenticate, createUser);
+router.post('/', authenticate, requirePermission('users:write'), createUser);
 
 /**
  * @swagger
@@ -179,11 +183,14 @@ router.post('/', authenticate, createUser);
  *               password:
  *                 type: string
  *                 format: password
- *                 example: newpassword123
+ *                 example: N3w-passphrase!
  *               role:
  *                 type: string
  *                 enum: [admin, user, readonly]
  *                 example: admin
+ *               emailVerified:
+ *                 type: boolean
+ *                 description: Mark the email address as verified (or not)
  *     responses:
  *       200:
  *         description: User updated successfully
@@ -210,7 +217,7 @@ router.post('/', authenticate, createUser);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.put('/:id', authenticate, updateUser);
+router.put('/:id', authenticate, requirePermission('users:write'), updateUser);
 
 /**
  * @swagger
@@ -257,6 +264,165 @@ router.put('/:id', authenticate, updateUser);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.delete('/:id', authenticate, deleteUser);
+router.delete('/:id', authenticate, requirePermission('users:write'), deleteUser);
+
+/**
+ * @swagger
+ * /api/users/{id}/revoke-sessions:
+ *   post:
+ *     summary: Revoke all sessions of a user (Admin only)
+ *     description: Signs the user out everywhere. Their access and refresh tokens stop working immediately; API tokens are not affected.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID
+ *     responses:
+ *       200:
+ *         description: Sessions revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     revoked:
+ *                       type: integer
+ *                       example: 2
+ *       403:
+ *         description: Forbidden - Admin access required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/revoke-sessions', authenticate, requirePermission('users:write'), revokeSessions);
+
+/**
+ * @swagger
+ * /api/users/{id}/unlock:
+ *   post:
+ *     summary: Clear failed login attempts and lift a lockout (Admin only)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID
+ *     responses:
+ *       200:
+ *         description: Account unlocked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     previous:
+ *                       $ref: '#/components/schemas/LoginAttempts'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/unlock', authenticate, requirePermission('users:write'), unlockUser);
+
+/**
+ * @swagger
+ * /api/users/{id}/reset-mfa:
+ *   post:
+ *     summary: Remove a user's second factor and recovery codes (Admin only)
+ *     description: For users who lost their authenticator and recovery codes. If the MFA policy applies to them, they must enrol again before using the API.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication reset
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/reset-mfa', authenticate, requirePermission('users:write'), resetUserMfa);
+
+/**
+ * @swagger
+ * /api/users/{id}/reset-password:
+ *   post:
+ *     summary: Email a password reset link to a user (Admin only)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID
+ *     responses:
+ *       200:
+ *         description: Reset link sent
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     email:
+ *                       type: string
+ *                     expiresAt:
+ *                       type: string
+ *                       format: date-time
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/reset-password', authenticate, requirePermission('users:write'), sendUserPasswordReset);
 
 export default router;
@@ -8,6 +8,10 @@ export interface AuthRequest extends Request {
     username: string;
     email: string;
     role: string;
+    sessionId?: string; // set when authenticated with an access token
+    apiTokenId?: string; // set when authenticated with an API token
+    scopes?: string[]; // scopes of that API token
+    mfaSetupRequired?: boolean; // the MFA policy applies to this user but no second factor is enrolled yet
   };
 }
 
@@ -16,6 +20,7 @@ export interface JwtUserPayload extends JwtPayload {
   username: string;
   email: string;
   role: string;
+  sid?: string; // session id
 }
 
 // API Response types
@@ -56,6 +61,30 @@ export interface SubnetUtilization {
   usedIPs: number;
   availableIPs: number;
   reservedIPs: number;
-  utilizationPercentage: number;
+  utilizationPercentage: string; // e.g., "66.93"
 }
 
+
+// Subnet hierarchy types
+export interface FreeBlock {
+  start: string;
+  end: string;
+  size: string; // number of addresses, as a string since IPv6 ranges exceed Number
+  cidrs: string[];
+}
+
+export interface SubnetTreeNode {
+  id: string;
+  cidr: string;
+  networkAddress: string;
+  subnetMask: number;
+  ipVersion: 'IPv4' | 'IPv6';
+  description: string | null;
+  vlanId: number | null;
+  location: string | null;
+  parentSubnetId: string | null;
+  utilization: SubnetUtilization;
+  rolledUpUtilization: SubnetUtilization;
+  freeBlocks: FreeBlock[];
+  children: SubnetTreeNode[];
+}
@@ -0,0 +1,85 @@
+/**
+ * Password reset and email verification messages
+ */
+
+import { Prisma } from '@prisma/client';
+import { ACCOUNT_EMAIL } from '../config/mail.js';
+import { sendMail } from './mail.js';
+import { issueUserToken, wasTokenIssuedRecently } from './userToken.js';
+
+interface EmailUser {
+  id: string;
+  username: string;
+  email: string;
+}
+
+export type AccountEmailResult = { sent: true; expiresAt: Date } | { sent: false };
+
+function link(pathname: string, token: string): string {
+  return `${ACCOUNT_EMAIL.appUrl}${pathname}?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Email a password reset link. Skipped when one was sent moments ago, unless forced (admin-initiated).
+ */
+export async function sendPasswordResetEmail(
+  db: Prisma.TransactionClient,
+  user: EmailUser,
+  options: { force?: boolean } = {}
+): Promise<AccountEmailResult> {
+  const resendIntervalMs = ACCOUNT_EMAIL.resendIntervalSeconds * 1000;
+  if (!options.force && (await wasTokenIssuedRecently(db, user.id, 'PASSWORD_RESET', resendIntervalMs))) {
+    return { sent: false };
+  }
+
+  const ttlMinutes = ACCOUNT_EMAIL.passwordResetTtlMinutes;
+  const { token, expiresAt } = await issueUserToken(db, user.id, 'PASSWORD_RESET', ttlMinutes * 60 * 1000);
+
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your IPAM password',
+    text: [
+      `Hello ${user.username},`,
+      '',
+      'A password reset was requested for your IPAM account. To choose a new password, open:',
+      '',
+      link('/reset-password', token),
+      '',
+      `The link expires in ${ttlMinutes} minutes and can be used once. If you did not request this, you can ignore this email.`,
+    ].join('\n'),
+  });
+
+  return { sent: true, expiresAt };
+}
+
+/**
+ * Email a link confirming the user's address. Skipped when one was sent moments ago.
+ */
+export async function sendVerificationEmail(
+  db: Prisma.TransactionClient,
+  user: EmailUser
+): Promise<AccountEmailResult> {
+  const resendIntervalMs = ACCOUNT_EMAIL.resendIntervalSeconds * 1000;
+  if (await wasTokenIssuedRecently(db, user.id, 'EMAIL_VERIFICATION', resendIntervalMs)) {
+    return { sent: false };
+  }
+
+  const ttlHours = ACCOUNT_EMAIL.emailVerificationTtlHours;
+  const { token, expiresAt } = await issueUserToken(db, user.id, 'EMAIL_VERIFICATION', ttlHours * 60 * 60 * 1000);
+
+  await sendMail({
+    to: user.email,
+    subject: 'Confirm your IPAM email address',
+    text: [
+      `Hello ${user.username},`,
+      '',
+      'Please confirm your email address to finish setting up your IPAM account:',
+      '',
+      link('/verify-email', token),
+      '',
+      `The link expires in ${ttlHours} hours.`,
+    ].join('\n'),
+  });
+
+  return { sent: true, expiresAt };
+}
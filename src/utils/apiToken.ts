@@ -0,0 +1,33 @@
+import crypto from 'crypto';
+
+export const API_TOKEN_PREFIX = 'ipam_';
+
+// Only refresh lastUsedAt when it is older than this, to avoid a write on every request
+export const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Check whether a bearer token is an API token rather than a JWT
+ */
+export function isApiToken(token: string): boolean {
+  return token.startsWith(API_TOKEN_PREFIX);
+}
+
+/**
+ * Hash an API token for storage and lookup. Tokens are random and high-entropy,
+ * so a fast hash is sufficient (unlike passwords).
+ */
+export function hashApiToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Generate a new API token together with its display prefix and stored hash
+ */
+export function generateApiToken(): { token: string; prefix: string; hash: string } {
+  const token = `${API_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  return {
+    token,
+    prefix: token.substring(0, API_TOKEN_PREFIX.length + 6),
+    hash: hashApiToken(token),
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * Retention for IP history
+ *
+ * With AUDIT_RETENTION_DAYS set, IpHistory entries older than that are written to
+ * gzip-compressed NDJSON files in AUDIT_ARCHIVE_DIR and then removed. Entries are
+ * archived from the start of the hash chain in segments: each segment is verified
+ * first, its file is recorded in AuditArchive with a checksum, and the chain head
+ * keeps the hash of its last entry so the remaining chain still verifies.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import zlib from 'zlib';
+import { AuditArchive, IpHistory, PrismaClient } from '@prisma/client';
+import { AUDIT } from '../config/audit.js';
+import { isEntryIntact } from './auditChain.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function segmentFileName(fromSequence: number, toSequence: number): string {
+  const pad = (sequence: number) => String(sequence).padStart(10, '0');
+  return `ip-history-${pad(fromSequence)}-${pad(toSequence)}.ndjson.gz`;
+}
+
+/**
+ * Location of an archive file on disk
+ */
+export function getArchivePath(fileName: string): string {
+  return path.join(AUDIT.archiveDir, path.basename(fileName));
+}
+
+// Compress entries to a file, one JSON object per line; written under a temporary
+// name first so a file with the final name is always complete
+async function writeSegment(fileName: string, entries: IpHistory[]) {
+  await fs.promises.mkdir(AUDIT.archiveDir, { recursive: true });
+  const filePath = getArchivePath(fileName);
+  const partialPath = `${filePath}.partial`;
+
+  const hash = crypto.createHash('sha256');
+  let size = 0;
+  const measure = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk);
+      size += chunk.length;
+      callback(null, chunk);
+    },
+  });
+
+  await pipeline(
+    Readable.from(entries.map(entry => `${JSON.stringify(entry)}\n`)),
+    zlib.createGzip(),
+    measure,
+    fs.createWriteStream(partialPath)
+  );
+  await fs.promises.rename(partialPath, filePath);
+
+  return { size, sha256: hash.digest('hex') };
+}
+
+/**
+ * Archive and remove IP history older than the retention period, oldest first.
+ * Stops at the first entry inside the period, and refuses to archive past a
+ * broken link so tampering is not hidden by pruning.
+ */
+export async function archiveExpiredHistory(
+  db: PrismaClient,
+  now: Date = new Date()
+): Promise<AuditArchive[]> {
+  if (AUDIT.retentionDays <= 0) {
+    return [];
+  }
+
+  const cutoff = new Date(now.getTime() - AUDIT.retentionDays * DAY_MS);
+  const archives: AuditArchive[] = [];
+
+  for (;;) {
+    const head = await db.auditChainHead.findUnique({ where: { chain: 'ip_history' } });
+    if (!head) break;
+
+    const candidates = await db.ipHistory.findMany({
+      where: { sequence: { gt: head.prunedSequence } },
+      orderBy: { sequence: 'asc' },
+      take: AUDIT.archiveSegmentSize,
+    });
+
+    const entries: IpHistory[] = [];
+    let expectedPrevHash = head.prunedHash;
+    for (const entry of candidates) {
+      if (entry.timestamp >= cutoff) break;
+
+      const sequence = head.prunedSequence + entries.length + 1;
+      if (
+        entry.sequence !== sequence ||
+        entry.prevHash !== expectedPrevHash ||
+        !isEntryIntact('ip_history', entry)
+      ) {
+        throw new Error(`IP history chain is broken at sequence ${sequence}; not archiving past it`);
+      }
+      entries.push(entry);
+      expectedPrevHash = entry.hash;
+    }
+
+    if (entries.length === 0) break;
+
+    const first = entries[0];
+    const last = entries[entries.length - 1];
+    const fileName = segmentFileName(first.sequence!, last.sequence!);
+    const file = await writeSegment(fileName, entries);
+
+    const archive = await db.$transaction(async (tx) => {
+      const removed = await tx.ipHistory.deleteMany({
+        where: { sequence: { gte: first.sequence!, lte: last.sequence! } },
+      });
+      if (removed.count !== entries.length) {
+        throw new Error(`IP history changed while archiving ${fileName}`);
+      }
+
+      // Fails if another run moved the start of the chain in the meantime
+      await tx.auditChainHead.update({
+        where: { chain: 'ip_history', prunedSequence: head.prunedSequence },
+        data: { prunedSequence: last.sequence!, prunedHash: last.hash },
+      });
+
+      return tx.auditArchive.create({
+        data: {
+          fileName,
+          fromSequence: first.sequence!,
+          toSequence: last.sequence!,
+          fromTimestamp: first.timestamp,
+          toTimestamp: last.timestamp,
+          entryCount: entries.length,
+          ...file,
+        },
+      });
+    });
+    archives.push(archive);
+
+    if (entries.length < candidates.length || candidates.length < AUDIT.archiveSegmentSize) break;
+  }
+
+  return archives;
+}
@@ -0,0 +1,383 @@
+/**
+ * Hash chain over the audit tables
+ *
+ * IpHistory and AuditLog each form a chain: every entry gets the next sequence
+ * number, the hash of the entry before it (prevHash) and a SHA-256 hash over its
+ * own content and prevHash. Editing an entry breaks its hash, deleting one
+ * leaves a gap in the sequence, and removing entries at the end is caught by
+ * comparing with AuditChainHead, which every append locks and advances.
+ * Entries are written unchained with the change they record and linked by the
+ * appender after that transaction has committed, in a READ COMMITTED
+ * transaction of its own, so audited writes never wait on the chain head.
+ * When retention archives the start of a chain, the head keeps the hash of the
+ * last archived entry and the remaining chain is verified from there.
+ */
+
+import crypto from 'crypto';
+import { AuditLog, IpHistory, Prisma, PrismaClient } from '@prisma/client';
+import { AUDIT } from '../config/audit.js';
+import { changedFieldNames } from './auditDiff.js';
+import { canonicalJson } from './canonicalJson.js';
+
+export type AuditChain = 'ip_history' | 'audit_logs';
+
+export const AUDIT_CHAINS: AuditChain[] = ['ip_history', 'audit_logs'];
+
+export type VerificationStatus =
+  | 'verified' // content matches its hash and prevHash matches the previous entry
+  | 'tampered' // content no longer matches its hash
+  | 'broken-link' // prevHash does not match the previous entry, or that entry is gone
+  | 'unchained'; // written before the chain existed and not linked yet
+
+export interface BrokenLink {
+  id: string | null;
+  sequence: number;
+  reason: string;
+}
+
+export interface ChainVerification {
+  chain: AuditChain;
+  verified: number;
+  unchained: number;
+  prunedSequence: number;
+  lastSequence: number;
+  firstBrokenLink: BrokenLink | null;
+}
+
+const VERIFY_BATCH_SIZE = 1000;
+
+/**
+ * Hash of an entry's content; relation fields and the hash itself are not part of it
+ */
+export function computeEntryHash(chain: AuditChain, entry: IpHistory | AuditLog): string {
+  const content =
+    chain === 'ip_history'
+      ? (({ id, sequence, prevHash, ipAddressId, action, changedBy, actorId, oldValue, newValue, sourceIp, userAgent, tokenId, revertOf, timestamp }: IpHistory) =>
+          ({ id, sequence, prevHash, ipAddressId, action, changedBy, actorId, oldValue, newValue, sourceIp, userAgent, tokenId, revertOf, timestamp }))(entry as IpHistory)
+      : (({ id, sequence, prevHash, entityType, entityId, action, changedBy, actorId, subnetId, oldValue, newValue, sourceIp, userAgent, tokenId, timestamp }: AuditLog) =>
+          ({ id, sequence, prevHash, entityType, entityId, action, changedBy, actorId, subnetId, oldValue, newValue, sourceIp, userAgent, tokenId, timestamp }))(entry as AuditLog);
+
+  return crypto.createHash('sha256').update(canonicalJson({ chain, ...content })).digest('hex');
+}
+
+/**
+ * Whether an entry still matches its hash, and its changedFields (stored for filtering,
+ * outside the hash) still match its values
+ */
+export function isEntryIntact(chain: AuditChain, entry: IpHistory | AuditLog): boolean {
+  return (
+    entry.hash === computeEntryHash(chain, entry) &&
+    entry.changedFields.join(',') === changedFieldNames(entry.oldValue, entry.newValue).join(',')
+  );
+}
+
+const LINK_BATCH_SIZE = 500;
+
+async function lockChainHead(
+  tx: Prisma.TransactionClient,
+  chain: AuditChain
+): Promise<{ lastSequence: number; lastHash: string | null }> {
+  await tx.$executeRaw`
+    INSERT INTO audit_chain_heads (chain, "lastSequence", "updatedAt")
+    VALUES (${chain}, 0, NOW())
+    ON CONFLICT (chain) DO NOTHING`;
+
+  // Appenders (one per server instance) take turns here
+  const [head] = await tx.$queryRaw<{ lastSequence: number; lastHash: string | null }[]>`
+    SELECT "lastSequence", "lastHash" FROM audit_chain_heads WHERE chain = ${chain} FOR UPDATE`;
+  return head;
+}
+
+/**
+ * Append an existing, unlinked entry to the end of its chain. Must run in a transaction.
+ */
+export async function linkEntry(
+  tx: Prisma.TransactionClient,
+  chain: AuditChain,
+  id: string
+): Promise<void> {
+  const head = await lockChainHead(tx, chain);
+  const link = { sequence: head.lastSequence + 1, prevHash: head.lastHash };
+
+  let hash: string;
+  if (chain === 'ip_history') {
+    const entry = await tx.ipHistory.update({ where: { id }, data: link });
+    hash = computeEntryHash(chain, entry);
+    await tx.ipHistory.update({ where: { id }, data: { hash } });
+  } else {
+    const entry = await tx.auditLog.update({ where: { id }, data: link });
+    hash = computeEntryHash(chain, entry);
+    await tx.auditLog.update({ where: { id }, data: { hash } });
+  }
+
+  await tx.auditChainHead.update({
+    where: { chain },
+    data: { lastSequence: link.sequence, lastHash: hash },
+  });
+}
+
+// Oldest first, so the chain follows the order the changes were made in
+function findUnchained(tx: Prisma.TransactionClient, chain: AuditChain): Promise<{ id: string }[]> {
+  const query = {
+    where: { sequence: null },
+    select: { id: true },
+    orderBy: [{ timestamp: 'asc' as const }, { id: 'asc' as const }],
+    take: LINK_BATCH_SIZE,
+  };
+  return chain === 'ip_history' ? tx.ipHistory.findMany(query) : tx.auditLog.findMany(query);
+}
+
+/**
+ * Link every committed, unchained entry of a chain. Each batch is linked in a
+ * READ COMMITTED transaction that holds the chain head, so entries are read
+ * only once any other appender has finished with them. Returns the number linked.
+ */
+export async function linkPendingEntries(db: PrismaClient, chain: AuditChain): Promise<number> {
+  let linked = 0;
+
+  for (;;) {
+    const count = await db.$transaction(
+      async (tx) => {
+        await lockChainHead(tx, chain);
+        const entries = await findUnchained(tx, chain);
+        for (const entry of entries) {
+          await linkEntry(tx, chain, entry.id);
+        }
+        return entries.length;
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.ReadCommitted }
+    );
+    linked += count;
+
+    if (count < LINK_BATCH_SIZE) return linked;
+  }
+}
+
+// Client of the running appender, set by startChainAppender
+let appenderDb: PrismaClient | undefined;
+let appending: Promise<void> | undefined;
+let appendAgain = false;
+
+async function appendPending(db: PrismaClient): Promise<void> {
+  for (const chain of AUDIT_CHAINS) {
+    await linkPendingEntries(db, chain);
+  }
+}
+
+/**
+ * Ask the appender to link new entries. Entries whose transaction has not
+ * committed yet are left for a later run; without a running appender this does nothing.
+ */
+export function requestChainAppend(): void {
+  const db = appenderDb;
+  if (!db) return;
+
+  if (appending) {
+    appendAgain = true;
+    return;
+  }
+
+  appending = appendPending(db)
+    .catch(error => console.error('Linking audit entries failed:', error))
+    .finally(() => {
+      appending = undefined;
+      if (appendAgain) {
+        appendAgain = false;
+        requestChainAppend();
+      }
+    });
+}
+
+/**
+ * Link entries in the background: whenever new ones are recorded, and every
+ * AUDIT_CHAIN_APPEND_INTERVAL_MS for those that committed after their request
+ */
+export function startChainAppender(db: PrismaClient): void {
+  appenderDb = db;
+  requestChainAppend();
+  setInterval(() => {
+    requestChainAppend();
+  }, AUDIT.chainAppendIntervalMs).unref();
+}
+
+function findChainedEntries(
+  db: Prisma.TransactionClient,
+  chain: AuditChain,
+  where: { sequence: Prisma.IntNullableFilter },
+  take?: number
+): Promise<(IpHistory | AuditLog)[]> {
+  const query = { where, orderBy: { sequence: 'asc' as const }, take };
+  return chain === 'ip_history' ? db.ipHistory.findMany(query) : db.auditLog.findMany(query);
+}
+
+/**
+ * Walk a chain from the start and report the first entry that breaks it
+ */
+export async function verifyChain(
+  db: Prisma.TransactionClient,
+  chain: AuditChain
+): Promise<ChainVerification> {
+  const head = await db.auditChainHead.findUnique({ where: { chain } });
+  const unchained =
+    chain === 'ip_history'
+      ? await db.ipHistory.count({ where: { sequence: null } })
+      : await db.auditLog.count({ where: { sequence: null } });
+
+  const result = (verified: number, firstBrokenLink: BrokenLink | null): ChainVerification => ({
+    chain,
+    verified,
+    unchained,
+    prunedSequence: head?.prunedSequence ?? 0,
+    lastSequence: head?.lastSequence ?? 0,
+    firstBrokenLink,
+  });
+
+  // Archived entries were verified before they were removed
+  let expectedSequence = (head?.prunedSequence ?? 0) + 1;
+  let expectedPrevHash: string | null = head?.prunedHash ?? null;
+  const firstSequence = expectedSequence;
+
+  for (;;) {
+    const batch = await findChainedEntries(db, chain, { sequence: { gte: expectedSequence } }, VERIFY_BATCH_SIZE);
+
+    for (const entry of batch) {
+      if (entry.sequence !== expectedSequence) {
+        return result(expectedSequence - firstSequence, {
+          id: null,
+          sequence: expectedSequence,
+          reason: `Entries ${expectedSequence} to ${entry.sequence! - 1} are missing`,
+        });
+      }
+      if (entry.prevHash !== expectedPrevHash) {
+        return result(expectedSequence - firstSequence, {
+          id: entry.id,
+          sequence: expectedSequence,
+          reason: 'prevHash does not match the previous entry',
+        });
+      }
+      if (!isEntryIntact(chain, entry)) {
+        return result(expectedSequence - firstSequence, {
+          id: entry.id,
+          sequence: expectedSequence,
+          reason: 'Entry content does not match its hash',
+        });
+      }
+      expectedSequence++;
+      expectedPrevHash = entry.hash;
+    }
+
+    if (batch.length < VERIFY_BATCH_SIZE) break;
+  }
+
+  const lastSequence = head?.lastSequence ?? 0;
+  if (expectedSequence - 1 < lastSequence) {
+    return result(expectedSequence - firstSequence, {
+      id: null,
+      sequence: expectedSequence,
+      reason: `Entries ${expectedSequence} to ${lastSequence} are missing`,
+    });
+  }
+  if (lastSequence > (head?.prunedSequence ?? 0) && head?.lastHash !== expectedPrevHash) {
+    return result(expectedSequence - firstSequence, {
+      id: null,
+      sequence: lastSequence,
+      reason: 'Last entry does not match the chain head',
+    });
+  }
+
+  return result(expectedSequence - firstSequence, null);
+}
+
+/**
+ * Verification status of individual entries, checked against their own hash and their predecessor
+ */
+export async function getVerificationStatuses(
+  db: Prisma.TransactionClient,
+  chain: AuditChain,
+  entries: (IpHistory | AuditLog)[]
+): Promise<Map<string, VerificationStatus>> {
+  const head = await db.auditChainHead.findUnique({ where: { chain } });
+  const prunedSequence = head?.prunedSequence ?? 0;
+
+  const previousSequences = entries
+    .filter(entry => entry.sequence !== null && entry.sequence > prunedSequence + 1)
+    .map(entry => entry.sequence! - 1);
+  const previous = previousSequences.length > 0
+    ? await findChainedEntries(db, chain, { sequence: { in: previousSequences } })
+    : [];
+  const hashBySequence = new Map(previous.map(entry => [entry.sequence!, entry.hash]));
+  // The first remaining entry links to the last archived one
+  hashBySequence.set(prunedSequence, head?.prunedHash ?? null);
+
+  return new Map(
+    entries.map((entry): [string, VerificationStatus] => {
+      if (entry.sequence === null) {
+        return [entry.id, 'unchained'];
+      }
+      if (!isEntryIntact(chain, entry)) {
+        return [entry.id, 'tampered'];
+      }
+      const expectedPrevHash = hashBySequence.get(entry.sequence - 1);
+      return [entry.id, expectedPrevHash !== undefined && entry.prevHash === expectedPrevHash ? 'verified' : 'broken-link'];
+    })
+  );
+}
+
+/**
+ * Public half of the export signing key, or null when signing is not configured
+ */
+export function getSigningPublicKey(): { algorithm: string; publicKey: string; fingerprint: string } | null {
+  if (!AUDIT.signingKey) return null;
+
+  const publicKey = crypto.createPublicKey(crypto.createPrivateKey(AUDIT.signingKey));
+  const der = publicKey.export({ type: 'spki', format: 'der' });
+  return {
+    algorithm: publicKey.asymmetricKeyType ?? 'unknown',
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    fingerprint: crypto.createHash('sha256').update(der).digest('hex'),
+  };
+}
+
+/**
+ * Export a range of a chain with the chain head, signed over its canonical JSON
+ */
+export async function createSignedExport(
+  db: Prisma.TransactionClient,
+  chain: AuditChain,
+  fromSequence: number,
+  toSequence?: number
+) {
+  if (!AUDIT.signingKey) return null;
+
+  const head = await db.auditChainHead.findUnique({ where: { chain } });
+  const lastSequence = Math.min(
+    toSequence ?? Number.MAX_SAFE_INTEGER,
+    head?.lastSequence ?? 0,
+    fromSequence + AUDIT.maxExportEntries - 1
+  );
+  const entries = await findChainedEntries(db, chain, { sequence: { gte: fromSequence, lte: lastSequence } });
+
+  const payload = {
+    chain,
+    fromSequence,
+    toSequence: lastSequence,
+    head: { lastSequence: head?.lastSequence ?? 0, lastHash: head?.lastHash ?? null },
+    exportedAt: new Date().toISOString(),
+    entries,
+  };
+
+  const privateKey = crypto.createPrivateKey(AUDIT.signingKey);
+  // Ed25519 hashes internally; RSA and EC keys sign a SHA-256 digest
+  const signature = crypto.sign(
+    privateKey.asymmetricKeyType === 'ed25519' ? null : 'sha256',
+    Buffer.from(canonicalJson(payload)),
+    privateKey
+  );
+
+  return {
+    payload,
+    signature: signature.toString('base64'),
+    signatureAlgorithm: privateKey.asymmetricKeyType,
+    keyFingerprint: getSigningPublicKey()!.fingerprint,
+  };
+}
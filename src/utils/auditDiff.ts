@@ -0,0 +1,49 @@
+/**
+ * Field-level differences between the before and after state of an audit entry
+ */
+
+import { Prisma } from '@prisma/client';
+import { canonicalJson } from './canonicalJson.js';
+
+export interface AuditChange {
+  field: string;
+  oldValue: Prisma.JsonValue;
+  newValue: Prisma.JsonValue;
+}
+
+// Bookkeeping fields that change on every write
+const IGNORED_FIELDS = new Set(['updatedAt']);
+
+function asObject(value: unknown): Record<string, Prisma.JsonValue> {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, Prisma.JsonValue>)
+    : {};
+}
+
+/**
+ * Top-level fields whose value differs; a missing side (created or deleted records)
+ * counts as null for every field
+ */
+export function diffAuditValues(
+  oldValue: unknown,
+  newValue: unknown
+): AuditChange[] {
+  const before = asObject(oldValue);
+  const after = asObject(newValue);
+
+  return [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter(field => !IGNORED_FIELDS.has(field))
+    .map(field => ({ field, oldValue: before[field] ?? null, newValue: after[field] ?? null }))
+    .filter(change => canonicalJson(change.oldValue) !== canonicalJson(change.newValue))
+    .sort((a, b) => (a.field < b.field ? -1 : a.field > b.field ? 1 : 0));
+}
+
+/**
+ * Names of the changed fields, as stored in changedFields for filtering
+ */
+export function changedFieldNames(
+  oldValue: unknown,
+  newValue: unknown
+): string[] {
+  return diffAuditValues(oldValue, newValue).map(change => change.field);
+}
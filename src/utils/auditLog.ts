@@ -0,0 +1,517 @@
+/**
+ * Audit log
+ *
+ * Changes to subnets, reservations, users, teams and settings, and logins, are
+ * recorded in AuditLog together with the actor and request metadata. IP address
+ * changes keep their own IpHistory table, which carries the same metadata; the
+ * audit API lists both, with IpHistory rows under the entity type 'IpAddress'.
+ */
+
+import { AuditLog, IpHistory, Prisma } from '@prisma/client';
+import { AuthRequest } from '../types/index.js';
+import { getVerificationStatuses, requestChainAppend } from './auditChain.js';
+import { changedFieldNames, diffAuditValues } from './auditDiff.js';
+import { detectIpVersion } from './ipUtils.js';
+import { getAddressBits, getPrefixBounds, isSubnetWithin } from './subnetUtils.js';
+
+export type AuditEntityType =
+  | 'Subnet'
+  | 'SubnetAccess'
+  | 'Reservation'
+  | 'User'
+  | 'ApiToken'
+  | 'Team'
+  | 'TeamMember'
+  | 'Setting';
+
+// Entity type under which IpHistory rows are listed
+export const IP_ADDRESS_ENTITY = 'IpAddress';
+
+export interface AuditContext {
+  actorId: string | null;
+  changedBy: string | null;
+  sourceIp: string | null;
+  userAgent: string | null;
+  tokenId: string | null; // session or API token id
+}
+
+export interface AuditEntry {
+  entityType: AuditEntityType;
+  entityId?: string | null;
+  action: string;
+  subnetId?: string | null;
+  oldValue?: unknown;
+  newValue?: unknown;
+}
+
+export interface AuditFilters {
+  entityType?: string;
+  entityId?: string;
+  actor?: string; // user id or username
+  action?: string[]; // any of these actions
+  field?: string[]; // any of these fields changed
+  subnetId?: string;
+  subnet?: string; // IP address or CIDR the subnet or address falls in
+  ipAddressId?: string;
+  from?: Date;
+  to?: Date;
+  search?: string;
+}
+
+const EXPORT_PAGE_SIZE = 500;
+
+// Secrets never end up in the log
+const REDACTED_FIELDS = new Set(['passwordHash', 'mfaSecret', 'mfaRecoveryCodes', 'tokenHash']);
+
+const ipAddressSelect = {
+  id: true,
+  ipAddress: true,
+  subnetId: true,
+  subnet: {
+    select: {
+      cidr: true,
+    },
+  },
+} satisfies Prisma.IpAddressSelect;
+
+/**
+ * Actor and request metadata for audit entries; pass the actor explicitly when
+ * the request is not authenticated yet (logins)
+ */
+export function getAuditContext(
+  req: AuthRequest,
+  actor?: { id: string; username: string }
+): AuditContext {
+  const user = actor ?? req.user;
+  return {
+    actorId: user?.id ?? null,
+    changedBy: user?.username ?? null,
+    sourceIp: req.ip ?? null,
+    userAgent: req.get('user-agent') ?? null,
+    tokenId: req.user?.apiTokenId ?? req.user?.sessionId ?? null,
+  };
+}
+
+/**
+ * Plain JSON copy of a record with secrets removed
+ */
+export function toAuditValue(value: unknown): Prisma.InputJsonValue {
+  return JSON.parse(
+    JSON.stringify(value, (key, field) => (REDACTED_FIELDS.has(key) ? undefined : field))
+  );
+}
+
+/**
+ * Metadata columns for an IpHistory row
+ */
+export function ipHistoryMetadata(context: AuditContext) {
+  return {
+    changedBy: context.changedBy || 'system',
+    actorId: context.actorId,
+    sourceIp: context.sourceIp,
+    userAgent: context.userAgent,
+    tokenId: context.tokenId,
+  };
+}
+
+/**
+ * Record a change (or a login) in the audit log. The entry joins the hash chain
+ * once the transaction has committed (see auditChain.ts).
+ */
+export async function recordAudit(
+  db: Prisma.TransactionClient,
+  context: AuditContext,
+  entry: AuditEntry
+): Promise<void> {
+  const oldValue = entry.oldValue === undefined ? undefined : toAuditValue(entry.oldValue);
+  const newValue = entry.newValue === undefined ? undefined : toAuditValue(entry.newValue);
+
+  await db.auditLog.create({
+    data: {
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      action: entry.action,
+      subnetId: entry.subnetId,
+      oldValue,
+      newValue,
+      changedFields: changedFieldNames(oldValue, newValue),
+      ...context,
+    },
+  });
+  requestChainAppend();
+}
+
+/**
+ * Record an IP address change in IpHistory. The entry joins the hash chain
+ * once the transaction has committed.
+ */
+export async function recordIpHistory(
+  tx: Prisma.TransactionClient,
+  data: Omit<Prisma.IpHistoryUncheckedCreateInput, 'changedFields'>
+): Promise<void> {
+  const changedFields = changedFieldNames(
+    data.oldValue === undefined ? undefined : toAuditValue(data.oldValue),
+    data.newValue === undefined ? undefined : toAuditValue(data.newValue)
+  );
+  await tx.ipHistory.create({ data: { ...data, changedFields } });
+  requestChainAppend();
+}
+
+function sqlAnd(conditions: Prisma.Sql[]): Prisma.Sql {
+  return conditions.length > 0 ? Prisma.join(conditions, ' AND ') : Prisma.sql`TRUE`;
+}
+
+// Pattern for ILIKE matching text anywhere, with the wildcards in it taken literally
+function containsPattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, '\\$&')}%`;
+}
+
+// SQL condition on ip_history, or null when the filters exclude IpHistory altogether.
+// IpHistory has no relation to the addresses, so addresses are matched with a
+// subquery on ip_addresses (addressConditions, aliased a) rather than a list of ids.
+function buildIpHistoryCondition(
+  filters: AuditFilters,
+  addressConditions: Prisma.Sql[]
+): Prisma.Sql | null {
+  if (filters.entityType && filters.entityType !== IP_ADDRESS_ENTITY) {
+    return null;
+  }
+
+  const conditions: Prisma.Sql[] = [];
+  if (filters.action) conditions.push(Prisma.sql`action = ANY(${filters.action}::text[])`);
+  if (filters.field) conditions.push(Prisma.sql`"changedFields" && ${filters.field}::text[]`);
+  if (filters.ipAddressId) conditions.push(Prisma.sql`"ipAddressId" = ${filters.ipAddressId}`);
+  if (filters.entityId) conditions.push(Prisma.sql`"ipAddressId" = ${filters.entityId}`);
+  if (filters.from) conditions.push(Prisma.sql`timestamp >= ${filters.from}`);
+  if (filters.to) conditions.push(Prisma.sql`timestamp <= ${filters.to}`);
+  if (filters.actor) {
+    conditions.push(Prisma.sql`("actorId" = ${filters.actor} OR lower("changedBy") = lower(${filters.actor}))`);
+  }
+  if (filters.search) {
+    const pattern = containsPattern(filters.search);
+    conditions.push(Prisma.sql`("changedBy" ILIKE ${pattern} OR action ILIKE ${pattern})`);
+  }
+  if (addressConditions.length > 0) {
+    conditions.push(Prisma.sql`"ipAddressId" IN (
+      SELECT a.id FROM ip_addresses a JOIN subnets s ON s.id = a."subnetId"
+      WHERE ${sqlAnd(addressConditions)})`);
+  }
+
+  return sqlAnd(conditions);
+}
+
+// null when the filters exclude AuditLog altogether
+function buildAuditLogWhere(
+  filters: AuditFilters,
+  visibleSubnetIds?: string[],
+  matchingSubnetIds?: string[]
+): Prisma.AuditLogWhereInput | null {
+  if (filters.entityType === IP_ADDRESS_ENTITY || filters.ipAddressId) {
+    return null;
+  }
+
+  const conditions: Prisma.AuditLogWhereInput[] = [];
+  if (filters.entityType) conditions.push({ entityType: filters.entityType });
+  if (filters.entityId) conditions.push({ entityId: filters.entityId });
+  if (filters.action) conditions.push({ action: { in: filters.action } });
+  if (filters.field) conditions.push({ changedFields: { hasSome: filters.field } });
+  if (filters.from || filters.to) conditions.push({ timestamp: { gte: filters.from, lte: filters.to } });
+  if (filters.actor) {
+    conditions.push({
+      OR: [
+        { actorId: filters.actor },
+        { changedBy: { equals: filters.actor, mode: 'insensitive' } },
+      ],
+    });
+  }
+  if (filters.search) {
+    conditions.push({
+      OR: [
+        { changedBy: { contains: filters.search, mode: 'insensitive' } },
+        { action: { contains: filters.search, mode: 'insensitive' } },
+        { entityType: { contains: filters.search, mode: 'insensitive' } },
+      ],
+    });
+  }
+  // Callers limited to some subnets only see entries about those subnets (not users or logins)
+  if (visibleSubnetIds) conditions.push({ subnetId: { in: visibleSubnetIds } });
+  if (matchingSubnetIds) conditions.push({ subnetId: { in: matchingSubnetIds } });
+
+  return { AND: conditions };
+}
+
+// The addresses IpHistory rows point to, or null for deleted ones
+async function findHistoryAddresses(db: Prisma.TransactionClient, ipAddressIds: string[]) {
+  const addresses = await db.ipAddress.findMany({
+    where: { id: { in: [...new Set(ipAddressIds)] } },
+    select: ipAddressSelect,
+  });
+  const byId = new Map(addresses.map(address => [address.id, address]));
+  return (id: string) => byId.get(id) ?? null;
+}
+
+// Subnets and addresses selected by the subnetId and subnet filters. An address
+// filter matches the subnets containing it; a CIDR matches the subnets within it
+// and every address in its range, whichever subnet holds it.
+async function resolveSubnetFilters(db: Prisma.TransactionClient, filters: AuditFilters) {
+  const subnetConditions: Prisma.SubnetWhereInput[] = [];
+  const addressConditions: Prisma.Sql[] = [];
+
+  if (filters.subnetId) {
+    subnetConditions.push({ id: filters.subnetId });
+    addressConditions.push(Prisma.sql`a."subnetId" = ${filters.subnetId}`);
+  }
+
+  if (filters.subnet) {
+    const [address, mask] = filters.subnet.split('/');
+    const ipVersion = detectIpVersion(address);
+    const prefix = {
+      networkAddress: address,
+      subnetMask: mask === undefined ? getAddressBits(ipVersion) : parseInt(mask, 10),
+      ipVersion,
+    };
+
+    const subnets = await db.subnet.findMany({
+      where: { ipVersion },
+      select: { id: true, networkAddress: true, subnetMask: true, ipVersion: true },
+    });
+    const matching = subnets.filter(subnet =>
+      mask === undefined ? isSubnetWithin(prefix, subnet) : isSubnetWithin(subnet, prefix)
+    );
+    subnetConditions.push({ id: { in: matching.map(subnet => subnet.id) } });
+
+    const bounds = getPrefixBounds(prefix);
+    addressConditions.push(Prisma.sql`a."ipNumber" BETWEEN ${bounds.start.toString()}::numeric AND ${bounds.end.toString()}::numeric`);
+    addressConditions.push(Prisma.sql`s."ipVersion" = ${ipVersion}::"IpVersion"`);
+  }
+
+  return {
+    subnetWhere: subnetConditions.length > 0 ? ({ AND: subnetConditions } satisfies Prisma.SubnetWhereInput) : undefined,
+    addressConditions,
+  };
+}
+
+// Conditions for both tables; restricted callers only see history of addresses
+// in their subnets, so history of deleted addresses is only visible to unrestricted ones
+async function buildAuditWheres(
+  db: Prisma.TransactionClient,
+  filters: AuditFilters,
+  visibleSubnetIds: string[] | undefined
+) {
+  const { subnetWhere, addressConditions } = await resolveSubnetFilters(db, filters);
+  if (visibleSubnetIds) {
+    addressConditions.push(Prisma.sql`a."subnetId" = ANY(${visibleSubnetIds}::text[])`);
+  }
+
+  const matchingSubnetIds = subnetWhere
+    ? await db.subnet
+        .findMany({ where: subnetWhere, select: { id: true } })
+        .then(subnets => subnets.map(subnet => subnet.id))
+    : undefined;
+
+  return {
+    ipHistoryCondition: buildIpHistoryCondition(filters, addressConditions),
+    auditLogWhere: buildAuditLogWhere(filters, visibleSubnetIds, matchingSubnetIds),
+  };
+}
+
+function findIpHistory(
+  db: Prisma.TransactionClient,
+  condition: Prisma.Sql,
+  take: number
+): Promise<IpHistory[]> {
+  return db.$queryRaw<IpHistory[]>`
+    SELECT * FROM ip_history WHERE ${condition}
+    ORDER BY timestamp DESC, id DESC
+    LIMIT ${take}`;
+}
+
+async function countIpHistory(db: Prisma.TransactionClient, condition: Prisma.Sql): Promise<number> {
+  const [{ count }] = await db.$queryRaw<{ count: number }[]>`
+    SELECT COUNT(*)::int AS count FROM ip_history WHERE ${condition}`;
+  return count;
+}
+
+type ChainItem =
+  | { chain: 'ip_history'; entry: IpHistory }
+  | { chain: 'audit_logs'; entry: AuditLog };
+
+// Shape entries for the API: IpHistory rows get their entity type and address, and
+// every entry its verification status
+async function describeEntries(db: Prisma.TransactionClient, items: ChainItem[]) {
+  const history = items.flatMap(item => (item.chain === 'ip_history' ? [item.entry] : []));
+  const logs = items.flatMap(item => (item.chain === 'audit_logs' ? [item.entry] : []));
+  const [addressOf, historyStatuses, logStatuses] = await Promise.all([
+    findHistoryAddresses(db, history.map(entry => entry.ipAddressId)),
+    getVerificationStatuses(db, 'ip_history', history),
+    getVerificationStatuses(db, 'audit_logs', logs),
+  ]);
+
+  return items.map(item => {
+    if (item.chain === 'audit_logs') {
+      return {
+        ...item.entry,
+        changes: diffAuditValues(item.entry.oldValue, item.entry.newValue),
+        verification: logStatuses.get(item.entry.id),
+      };
+    }
+    const ipAddress = addressOf(item.entry.ipAddressId);
+    return {
+      ...item.entry,
+      entityType: IP_ADDRESS_ENTITY,
+      entityId: item.entry.ipAddressId as string | null,
+      subnetId: ipAddress?.subnetId ?? null,
+      ipAddress,
+      changes: diffAuditValues(item.entry.oldValue, item.entry.newValue),
+      verification: historyStatuses.get(item.entry.id),
+    };
+  });
+}
+
+export type ListedAuditEntry = Awaited<ReturnType<typeof describeEntries>>[number];
+
+/**
+ * List IpHistory and AuditLog entries together, newest first, with the hash chain
+ * verification status of each. Both tables are read up to the requested page and
+ * merged, so deep pages cost more.
+ */
+export async function listAuditEntries(
+  db: Prisma.TransactionClient,
+  filters: AuditFilters,
+  visibleSubnetIds: string[] | undefined,
+  skip: number,
+  take: number
+) {
+  const { ipHistoryCondition, auditLogWhere } = await buildAuditWheres(db, filters, visibleSubnetIds);
+
+  const [ipHistory, ipHistoryTotal, auditLogs, auditLogTotal] = await Promise.all([
+    ipHistoryCondition ? findIpHistory(db, ipHistoryCondition, skip + take) : [],
+    ipHistoryCondition ? countIpHistory(db, ipHistoryCondition) : 0,
+    auditLogWhere
+      ? db.auditLog.findMany({
+          where: auditLogWhere,
+          take: skip + take,
+          orderBy: { timestamp: 'desc' },
+        })
+      : [],
+    auditLogWhere ? db.auditLog.count({ where: auditLogWhere }) : 0,
+  ]);
+
+  const items = [
+    ...ipHistory.map((entry): ChainItem => ({ chain: 'ip_history', entry })),
+    ...auditLogs.map((entry): ChainItem => ({ chain: 'audit_logs', entry })),
+  ]
+    .sort((a, b) => b.entry.timestamp.getTime() - a.entry.timestamp.getTime())
+    .slice(skip, skip + take);
+
+  return {
+    entries: await describeEntries(db, items),
+    total: ipHistoryTotal + auditLogTotal,
+  };
+}
+
+// Keyset pagination newest first; entries with the same timestamp are ordered by id
+function olderThan(cursor: { timestamp: Date; id: string } | undefined) {
+  return cursor
+    ? { OR: [{ timestamp: { lt: cursor.timestamp } }, { timestamp: cursor.timestamp, id: { lt: cursor.id } }] }
+    : {};
+}
+
+async function* readPages<T extends { timestamp: Date; id: string }>(
+  fetch: (cursor: { timestamp: Date; id: string } | undefined) => Promise<T[]>
+): AsyncGenerator<T> {
+  let cursor: T | undefined;
+  for (;;) {
+    const page = await fetch(cursor);
+    yield* page;
+    if (page.length < EXPORT_PAGE_SIZE) return;
+    cursor = page[page.length - 1];
+  }
+}
+
+/**
+ * All entries matching the filters, newest first, read page by page for export
+ */
+export async function* streamAuditEntries(
+  db: Prisma.TransactionClient,
+  filters: AuditFilters,
+  visibleSubnetIds: string[] | undefined
+): AsyncGenerator<ListedAuditEntry> {
+  const { ipHistoryCondition, auditLogWhere } = await buildAuditWheres(db, filters, visibleSubnetIds);
+  const orderBy = [{ timestamp: 'desc' as const }, { id: 'desc' as const }];
+
+  const history = readPages(async cursor =>
+    ipHistoryCondition
+      ? findIpHistory(
+          db,
+          cursor
+            ? Prisma.sql`${ipHistoryCondition} AND (timestamp < ${cursor.timestamp} OR (timestamp = ${cursor.timestamp} AND id < ${cursor.id}))`
+            : ipHistoryCondition,
+          EXPORT_PAGE_SIZE
+        )
+      : []
+  );
+  const logs = readPages(async cursor =>
+    auditLogWhere
+      ? db.auditLog.findMany({ where: { AND: [auditLogWhere, olderThan(cursor)] }, orderBy, take: EXPORT_PAGE_SIZE })
+      : []
+  );
+
+  // Merge the two sorted streams, describing entries a page at a time
+  let nextHistory = await history.next();
+  let nextLog = await logs.next();
+  let page: ChainItem[] = [];
+  while (!nextHistory.done || !nextLog.done) {
+    if (nextLog.done || (!nextHistory.done && nextHistory.value.timestamp >= nextLog.value.timestamp)) {
+      page.push({ chain: 'ip_history', entry: nextHistory.value });
+      nextHistory = await history.next();
+    } else {
+      page.push({ chain: 'audit_logs', entry: nextLog.value });
+      nextLog = await logs.next();
+    }
+
+    if (page.length === EXPORT_PAGE_SIZE) {
+      yield* await describeEntries(db, page);
+      page = [];
+    }
+  }
+  yield* await describeEntries(db, page);
+}
+
+/**
+ * Find an entry in either table by id, with its verification status
+ */
+export async function findAuditEntry(db: Prisma.TransactionClient, id: string) {
+  const ipHistory = await db.ipHistory.findUnique({ where: { id } });
+  if (ipHistory) {
+    const [ipAddress, statuses] = await Promise.all([
+      db.ipAddress.findUnique({
+        where: { id: ipHistory.ipAddressId },
+        include: {
+          subnet: true,
+        },
+      }),
+      getVerificationStatuses(db, 'ip_history', [ipHistory]),
+    ]);
+    return {
+      ...ipHistory,
+      entityType: IP_ADDRESS_ENTITY,
+      entityId: ipHistory.ipAddressId as string | null,
+      subnetId: ipAddress?.subnetId ?? null,
+      ipAddress,
+      changes: diffAuditValues(ipHistory.oldValue, ipHistory.newValue),
+      verification: statuses.get(ipHistory.id),
+    };
+  }
+
+  const auditLog = await db.auditLog.findUnique({ where: { id } });
+  if (!auditLog) {
+    return null;
+  }
+  const statuses = await getVerificationStatuses(db, 'audit_logs', [auditLog]);
+  return {
+    ...auditLog,
+    changes: diffAuditValues(auditLog.oldValue, auditLog.newValue),
+    verification: statuses.get(auditLog.id),
+  };
+}
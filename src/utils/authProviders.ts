@@ -0,0 +1,107 @@
+/**
+ * Password authentication providers behind POST /api/auth/login
+ *
+ * AUTH_PASSWORD_PROVIDERS lists the providers to try, in order. The first one
+ * that accepts the credentials wins. A provider that cannot be reached is
+ * skipped, so with 'local' last in the list local accounts keep working when
+ * the directory is down.
+ */
+
+import { Prisma, User } from '@prisma/client';
+import { EXTERNAL_AUTH, PasswordProviderName } from '../config/externalAuth.js';
+import { comparePassword, hashPassword, needsRehash } from './password.js';
+import { ldapAuthenticate } from './ldapAuth.js';
+import { provisionExternalUser } from './externalUsers.js';
+
+export type PasswordAuthResult =
+  | { ok: true; user: User }
+  | { ok: false; status: number; error: string };
+
+// 'unavailable' means try the next provider; a rejection ends the login
+type ProviderResult = PasswordAuthResult | { ok: false; unavailable: true };
+
+interface PasswordAuthProvider {
+  authenticate(db: Prisma.TransactionClient, login: string, password: string): Promise<ProviderResult>;
+}
+
+const INVALID_CREDENTIALS: PasswordAuthResult = {
+  ok: false,
+  status: 401,
+  error: 'Invalid email or password',
+};
+
+const localProvider: PasswordAuthProvider = {
+  async authenticate(db, login, password) {
+    const user = await db.user.findUnique({
+      where: { email: login },
+    });
+
+    // Directory users must sign in through the directory, so disabling them there takes effect
+    if (!user || user.authProvider !== 'local' || !(await comparePassword(password, user.passwordHash))) {
+      return INVALID_CREDENTIALS;
+    }
+
+    // The plain password is only available now, so this is when an old hash can be upgraded
+    if (needsRehash(user.passwordHash)) {
+      const upgraded = await db.user.update({
+        where: { id: user.id },
+        data: { passwordHash: await hashPassword(password) },
+      });
+      return { ok: true, user: upgraded };
+    }
+
+    return { ok: true, user };
+  },
+};
+
+const ldapProvider: PasswordAuthProvider = {
+  async authenticate(db, login, password) {
+    const result = await ldapAuthenticate(login, password);
+
+    if (!result.ok) {
+      if (result.reason === 'unavailable') {
+        console.error('LDAP authentication unavailable:', result.error);
+        return { ok: false, unavailable: true };
+      }
+      return INVALID_CREDENTIALS;
+    }
+
+    return provisionExternalUser(db, result.profile);
+  },
+};
+
+const PROVIDERS: Record<PasswordProviderName, PasswordAuthProvider> = {
+  local: localProvider,
+  ldap: ldapProvider,
+};
+
+/**
+ * Check a login (email, or directory username with LDAP) and password against the configured providers
+ */
+export async function authenticateWithPassword(
+  db: Prisma.TransactionClient,
+  login: string,
+  password: string
+): Promise<PasswordAuthResult> {
+  let answered = false;
+
+  for (const name of EXTERNAL_AUTH.passwordProviders) {
+    const provider = PROVIDERS[name];
+    if (!provider) {
+      throw new Error(`Unknown authentication provider in AUTH_PASSWORD_PROVIDERS: ${name}`);
+    }
+
+    const result = await provider.authenticate(db, login, password);
+    if ('unavailable' in result) {
+      continue;
+    }
+    if (result.ok || result.status !== 401) {
+      return result;
+    }
+    answered = true;
+  }
+
+  return answered
+    ? INVALID_CREDENTIALS
+    : { ok: false, status: 503, error: 'Authentication service is unavailable. Please try again later' };
+}
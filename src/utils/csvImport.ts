@@ -0,0 +1,139 @@
+/**
+ * CSV imports of subnets and IP addresses
+ *
+ * Every row of an import is applied in one transaction. A dry run, or an import
+ * with any invalid row, runs the same transaction and rolls it back, so the
+ * reported result of each row is exactly what committing would do.
+ */
+
+import { Prisma } from '@prisma/client';
+import { ZodError } from 'zod';
+import { IMPORT } from '../config/import.js';
+import { AuditChange } from './auditDiff.js';
+import { parseCsv } from './csv.js';
+
+export type ImportAction = 'create' | 'update' | 'skip' | 'error';
+
+export interface ImportRowResult {
+  row: number; // data rows are numbered from 2, after the header
+  key: string; // the CIDR or IP address as given
+  action: ImportAction;
+  data?: unknown; // record as created or updated
+  changes?: AuditChange[];
+  errors?: string[];
+}
+
+export interface ImportRecord {
+  row: number;
+  values: Record<string, string | undefined>;
+}
+
+type CsvRecordsResult =
+  | { ok: true; records: ImportRecord[] }
+  | { ok: false; status: number; error: string };
+
+// Thrown inside the import transaction to roll it back with the row results
+class ImportRollback extends Error {
+  constructor(public results: ImportRowResult[]) {
+    super('Import rolled back');
+  }
+}
+
+/**
+ * Read CSV rows into the import fields. A field comes from the header named in
+ * mapping, or else from the header with the field's name (case-insensitive).
+ * Empty cells are left out.
+ */
+export function readCsvRecords(
+  body: unknown,
+  fields: readonly string[],
+  mapping: Record<string, string>
+): CsvRecordsResult {
+  if (typeof body !== 'string' || body.trim() === '') {
+    return { ok: false, status: 400, error: 'Request body must be CSV text (Content-Type: text/csv)' };
+  }
+
+  const unknownFields = Object.keys(mapping).filter(field => !fields.includes(field));
+  if (unknownFields.length > 0) {
+    return { ok: false, status: 400, error: `Unknown import fields in mapping: ${unknownFields.join(', ')}` };
+  }
+
+  const [header, ...rows] = parseCsv(body);
+  if (rows.length === 0) {
+    return { ok: false, status: 400, error: 'CSV contains no data rows' };
+  }
+  if (rows.length > IMPORT.maxRows) {
+    return { ok: false, status: 400, error: `An import can contain at most ${IMPORT.maxRows} rows` };
+  }
+
+  const headers = header.map(name => name.trim().toLowerCase());
+  const columns = new Map<string, number>();
+  for (const field of fields) {
+    const index = headers.indexOf((mapping[field] ?? field).trim().toLowerCase());
+    if (index !== -1) {
+      columns.set(field, index);
+    } else if (mapping[field] !== undefined) {
+      return { ok: false, status: 400, error: `Mapped column "${mapping[field]}" not found in CSV header` };
+    }
+  }
+
+  return {
+    ok: true,
+    records: rows.map((cells, index) => ({
+      row: index + 2,
+      values: Object.fromEntries(
+        [...columns].map(([field, column]) => [field, cells[column]?.trim() || undefined])
+      ),
+    })),
+  };
+}
+
+/**
+ * Zod issues as "field: message" lines for a row result
+ */
+export function formatRowErrors(error: ZodError): string[] {
+  return error.errors.map(issue =>
+    issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+  );
+}
+
+/**
+ * Number of rows per action
+ */
+export function summarizeImport(results: ImportRowResult[]): Record<ImportAction, number> {
+  const summary: Record<ImportAction, number> = { create: 0, update: 0, skip: 0, error: 0 };
+  for (const result of results) {
+    summary[result.action]++;
+  }
+  return summary;
+}
+
+/**
+ * Apply the rows in one transaction, committing only when this is not a dry run
+ * and no row failed. Results are returned in file order.
+ */
+export async function runImport(
+  transaction: (
+    fn: (tx: Prisma.TransactionClient) => Promise<ImportRowResult[]>
+  ) => Promise<ImportRowResult[]>,
+  importRows: (tx: Prisma.TransactionClient) => Promise<ImportRowResult[]>,
+  dryRun: boolean
+): Promise<{ committed: boolean; results: ImportRowResult[] }> {
+  const byRow = (results: ImportRowResult[]) => [...results].sort((a, b) => a.row - b.row);
+
+  try {
+    const results = await transaction(async (tx) => {
+      const results = await importRows(tx);
+      if (dryRun || results.some(result => result.action === 'error')) {
+        throw new ImportRollback(results);
+      }
+      return results;
+    });
+    return { committed: true, results: byRow(results) };
+  } catch (error) {
+    if (error instanceof ImportRollback) {
+      return { committed: false, results: byRow(error.results) };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Just-in-time provisioning of users who sign in through a directory (LDAP or OIDC)
+ *
+ * A directory identity is matched by (authProvider, externalId), or on first
+ * sign-in by email so existing local accounts are linked rather than duplicated.
+ * Linking needs an address the provider vouches for (email_verified from OIDC,
+ * LDAP_TRUST_EMAIL for a directory); otherwise the sign-in is refused.
+ * When AUTH_GROUP_ROLE_MAPPING is set the directory decides the role on every
+ * sign-in; otherwise new users get AUTH_DEFAULT_ROLE and keep whatever role an
+ * admin gives them later.
+ */
+
+import crypto from 'crypto';
+import { Prisma, User } from '@prisma/client';
+import { EXTERNAL_AUTH } from '../config/externalAuth.js';
+import { Role, ROLES } from '../config/permissions.js';
+import { hashPassword } from './password.js';
+import { AuditContext, recordAudit } from './auditLog.js';
+
+export interface ExternalProfile {
+  provider: 'ldap' | 'oidc';
+  externalId: string;
+  username: string;
+  email?: string;
+  emailVerified?: boolean;
+  groups: string[];
+}
+
+export type ProvisionResult =
+  | { ok: true; user: User }
+  | { ok: false; status: number; error: string };
+
+/**
+ * The most privileged role any of the groups maps to
+ */
+export function mapGroupsToRole(groups: string[]): Role | undefined {
+  const mapped = groups
+    .map(group => EXTERNAL_AUTH.groupRoleMapping[group.toLowerCase()])
+    .filter((role): role is Role => role !== undefined);
+  // ROLES is ordered from most to least privileged
+  return ROLES.find(role => mapped.includes(role));
+}
+
+async function uniqueUsername(db: Prisma.TransactionClient, wanted: string): Promise<string> {
+  const base = wanted.replace(/[^a-zA-Z0-9._-]/g, '').slice(0, 45) || 'user';
+  let candidate = base.length >= 3 ? base : `${base}-user`;
+  for (let suffix = 2; await db.user.findUnique({ where: { username: candidate } }); suffix++) {
+    candidate = `${base}-${suffix}`;
+  }
+  return candidate;
+}
+
+/**
+ * Find, link or create the local user for a directory identity and sync its email and role
+ */
+export async function provisionExternalUser(
+  db: Prisma.TransactionClient,
+  profile: ExternalProfile
+): Promise<ProvisionResult> {
+  if (!profile.email) {
+    return { ok: false, status: 403, error: 'Directory account has no email address' };
+  }
+
+  const mappingConfigured = Object.keys(EXTERNAL_AUTH.groupRoleMapping).length > 0;
+  const mappedRole = mapGroupsToRole(profile.groups);
+
+  let user = await db.user.findUnique({
+    where: {
+      authProvider_externalId: {
+        authProvider: profile.provider,
+        externalId: profile.externalId,
+      },
+    },
+  });
+
+  if (!user) {
+    const existing = await db.user.findFirst({
+      where: { email: { equals: profile.email, mode: 'insensitive' } },
+    });
+
+    if (existing) {
+      // Only link to an address the identity provider vouches for, and never take over another directory identity
+      if (profile.emailVerified !== true || existing.externalId) {
+        return { ok: false, status: 409, error: 'An account with this email address already exists' };
+      }
+      user = existing;
+    }
+  }
+
+  const role = mappedRole ?? (mappingConfigured || !user ? EXTERNAL_AUTH.defaultRole : (user.role as Role));
+  // Provisioning happens on the user's own sign-in, which is logged separately with the request metadata
+  const auditContext = (actor: User): AuditContext => ({
+    actorId: actor.id,
+    changedBy: actor.username,
+    sourceIp: null,
+    userAgent: null,
+    tokenId: null,
+  });
+  if (role === 'none') {
+    return { ok: false, status: 403, error: 'Your directory account is not in a group allowed to use IPAM' };
+  }
+
+  if (user) {
+    const updated = await db.user.update({
+      where: { id: user.id },
+      data: {
+        authProvider: profile.provider,
+        externalId: profile.externalId,
+        email: profile.email,
+        emailVerified: true,
+        role,
+      },
+    });
+
+    if (
+      updated.role !== user.role ||
+      updated.email !== user.email ||
+      updated.authProvider !== user.authProvider ||
+      updated.externalId !== user.externalId
+    ) {
+      await recordAudit(db, auditContext(updated), {
+        entityType: 'User',
+        entityId: updated.id,
+        action: 'updated',
+        oldValue: user,
+        newValue: updated,
+      });
+    }
+    return { ok: true, user: updated };
+  }
+
+  // Directory users sign in through the directory; the random password only fills the column
+  const created = await db.user.create({
+    data: {
+      username: await uniqueUsername(db, profile.username),
+      email: profile.email,
+      passwordHash: await hashPassword(crypto.randomBytes(32).toString('hex')),
+      role,
+      authProvider: profile.provider,
+      externalId: profile.externalId,
+    },
+  });
+
+  await recordAudit(db, auditContext(created), {
+    entityType: 'User',
+    entityId: created.id,
+    action: 'created',
+    newValue: created,
+  });
+  return { ok: true, user: created };
+}
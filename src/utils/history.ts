@@ -0,0 +1,274 @@
+/**
+ * Point-in-time reconstruction and revert from the change history
+ *
+ * Every IpHistory row holds the address before (oldValue) and after (newValue)
+ * the change, and AuditLog does the same for subnets. The state at a time is
+ * the newValue of the last change up to then or, before the first recorded
+ * change, that change's oldValue. Records without changes since then are
+ * reported as they are now.
+ */
+
+import { IpAddress, IpHistory, Prisma, Subnet } from '@prisma/client';
+import { AuditContext, ipHistoryMetadata, recordIpHistory } from './auditLog.js';
+import { resolveHolder } from './holders.js';
+
+export type HistoryState = Record<string, unknown>;
+
+export type StateAtResult =
+  | { ok: true; state: HistoryState; historyId: string | null }
+  | { ok: false; status: number; error: string };
+
+export type RevertResult =
+  | { ok: true; record: IpAddress }
+  | { ok: false; status: number; error: string; conflicts?: string[] };
+
+// Fields a revert restores; the address itself and its subnet are never changed
+export const REVERTIBLE_IP_FIELDS = [
+  'status',
+  'hostname',
+  'macAddress',
+  'deviceName',
+  'assignedTo',
+  'assignedUserId',
+  'assignedTeamId',
+  'description',
+] as const;
+
+// State of an address that was never assigned, or was released
+const RELEASED_STATE = {
+  status: 'AVAILABLE',
+  hostname: null,
+  macAddress: null,
+  deviceName: null,
+  assignedTo: null,
+  assignedUserId: null,
+  assignedTeamId: null,
+  description: null,
+};
+
+function asState(value: Prisma.JsonValue | null): HistoryState | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as HistoryState) : null;
+}
+
+// Records read now are serialized the same way as the JSON stored in history
+function currentState(record: object): HistoryState {
+  return JSON.parse(JSON.stringify(record));
+}
+
+// IP history up to this time may have been moved to archives by retention
+async function isHistoryArchived(db: Prisma.TransactionClient, at: Date): Promise<boolean> {
+  const archived = await db.auditArchive.aggregate({ _max: { toTimestamp: true } });
+  return archived._max.toTimestamp !== null && at <= archived._max.toTimestamp;
+}
+
+const ARCHIVED_ERROR = 'IP history at that time has been archived';
+
+// Pick the state at a time from the last change up to then and the first one after it
+function resolveState(
+  record: object,
+  before: { id: string; newValue: Prisma.JsonValue | null } | null,
+  after: { oldValue: Prisma.JsonValue | null } | null
+): StateAtResult {
+  const beforeState = before && asState(before.newValue);
+  if (before && beforeState) {
+    return { ok: true, state: beforeState, historyId: before.id };
+  }
+
+  if (after) {
+    const afterState = asState(after.oldValue);
+    return afterState
+      ? { ok: true, state: afterState, historyId: null }
+      : { ok: false, status: 404, error: 'No recorded state at that time' };
+  }
+
+  return { ok: true, state: currentState(record), historyId: null };
+}
+
+/**
+ * Reconstruct an IP address as it was at a point in time
+ */
+export async function getIpAddressStateAt(
+  db: Prisma.TransactionClient,
+  ipAddress: IpAddress,
+  at: Date
+): Promise<StateAtResult> {
+  if (ipAddress.createdAt > at) {
+    return { ok: false, status: 404, error: 'IP address did not exist at that time' };
+  }
+  if (await isHistoryArchived(db, at)) {
+    return { ok: false, status: 404, error: ARCHIVED_ERROR };
+  }
+
+  const [before, after] = await Promise.all([
+    db.ipHistory.findFirst({
+      where: { ipAddressId: ipAddress.id, timestamp: { lte: at } },
+      orderBy: { timestamp: 'desc' },
+    }),
+    db.ipHistory.findFirst({
+      where: { ipAddressId: ipAddress.id, timestamp: { gt: at } },
+      orderBy: { timestamp: 'asc' },
+    }),
+  ]);
+
+  return resolveState(ipAddress, before, after);
+}
+
+/**
+ * Reconstruct a subnet's own fields as they were at a point in time
+ */
+export async function getSubnetStateAt(
+  db: Prisma.TransactionClient,
+  subnet: Subnet,
+  at: Date
+): Promise<StateAtResult> {
+  if (subnet.createdAt > at) {
+    return { ok: false, status: 404, error: 'Subnet did not exist at that time' };
+  }
+
+  const where = { entityType: 'Subnet', entityId: subnet.id };
+  const [before, after] = await Promise.all([
+    db.auditLog.findFirst({
+      where: { ...where, timestamp: { lte: at } },
+      orderBy: { timestamp: 'desc' },
+    }),
+    db.auditLog.findFirst({
+      where: { ...where, timestamp: { gt: at } },
+      orderBy: { timestamp: 'asc' },
+    }),
+  ]);
+
+  return resolveState(subnet, before, after);
+}
+
+/**
+ * Reconstruct a subnet and all of its addresses as they were at a point in time.
+ * Addresses without a recorded state at that time are listed separately.
+ */
+export async function getSubnetSnapshot(
+  db: Prisma.TransactionClient,
+  subnet: Subnet,
+  at: Date
+) {
+  const subnetState = await getSubnetStateAt(db, subnet, at);
+  if (!subnetState.ok) {
+    return subnetState;
+  }
+  if (await isHistoryArchived(db, at)) {
+    return { ok: false as const, status: 404, error: ARCHIVED_ERROR };
+  }
+
+  const ipAddresses = await db.ipAddress.findMany({
+    where: { subnetId: subnet.id, createdAt: { lte: at } },
+    orderBy: { ipNumber: 'asc' },
+  });
+
+  // One query each for the last change up to the time and the first one after it, per address
+  const historyWhere = { ipAddressId: { in: ipAddresses.map(ipAddress => ipAddress.id) } };
+  const [before, after] = await Promise.all([
+    db.ipHistory.findMany({
+      where: { ...historyWhere, timestamp: { lte: at } },
+      orderBy: { timestamp: 'desc' },
+      distinct: ['ipAddressId'],
+    }),
+    db.ipHistory.findMany({
+      where: { ...historyWhere, timestamp: { gt: at } },
+      orderBy: { timestamp: 'asc' },
+      distinct: ['ipAddressId'],
+    }),
+  ]);
+  const beforeById = new Map(before.map(entry => [entry.ipAddressId, entry]));
+  const afterById = new Map(after.map(entry => [entry.ipAddressId, entry]));
+
+  const addresses: HistoryState[] = [];
+  const unrecorded: string[] = [];
+  for (const ipAddress of ipAddresses) {
+    const result = resolveState(
+      ipAddress,
+      beforeById.get(ipAddress.id) ?? null,
+      afterById.get(ipAddress.id) ?? null
+    );
+    if (result.ok) {
+      addresses.push(result.state);
+    } else {
+      unrecorded.push(ipAddress.ipAddress);
+    }
+  }
+
+  return {
+    ok: true as const,
+    snapshot: {
+      at,
+      subnet: subnetState.state,
+      ipAddresses: addresses,
+      unrecordedIpAddresses: unrecorded,
+    },
+  };
+}
+
+/**
+ * Undo one IpHistory change: restore the address to the entry's oldValue (or release it
+ * if the entry created it). Refused with the differing fields if the address has changed
+ * since. Must run inside withSubnetLock for the address's subnet.
+ */
+export async function revertIpChange(
+  tx: Prisma.TransactionClient,
+  entry: IpHistory,
+  audit: AuditContext
+): Promise<RevertResult> {
+  const current = await tx.ipAddress.findUnique({
+    where: { id: entry.ipAddressId },
+  });
+
+  if (!current) {
+    return { ok: false, status: 404, error: 'IP address not found' };
+  }
+
+  const changed = asState(entry.newValue);
+  if (!changed) {
+    return { ok: false, status: 400, error: 'This history entry has no recorded result to revert' };
+  }
+
+  const now = currentState(current);
+  const conflicts = REVERTIBLE_IP_FIELDS.filter(
+    field => JSON.stringify(now[field] ?? null) !== JSON.stringify(changed[field] ?? null)
+  );
+  if (conflicts.length > 0) {
+    return {
+      ok: false,
+      status: 409,
+      error: 'The IP address has changed since this entry; revert the later changes first',
+      conflicts: [...conflicts],
+    };
+  }
+
+  const target = asState(entry.oldValue) ?? RELEASED_STATE;
+  const data = Object.fromEntries(
+    REVERTIBLE_IP_FIELDS.map(field => [field, target[field] ?? null])
+  ) as Prisma.IpAddressUncheckedUpdateInput;
+
+  // The user or team the address pointed to may have been deleted since
+  const holder = await resolveHolder(
+    tx,
+    target.assignedUserId as string | null,
+    target.assignedTeamId as string | null
+  );
+  if (!holder.ok) {
+    return { ok: false, status: 409, error: `Cannot restore the previous holder: ${holder.error}` };
+  }
+
+  const reverted = await tx.ipAddress.update({
+    where: { id: current.id },
+    data,
+  });
+
+  await recordIpHistory(tx, {
+    ipAddressId: current.id,
+    action: 'reverted',
+    revertOf: entry.id,
+    ...ipHistoryMetadata(audit),
+    oldValue: current,
+    newValue: reverted,
+  });
+
+  return { ok: true, record: reverted };
+}
@@ -0,0 +1,48 @@
+/**
+ * Holders of IP addresses and reservations
+ *
+ * assignedTo / reservedBy stay free text for display, but can also reference a
+ * user or a team by id so holdings can be reported per user or team.
+ */
+
+import { Prisma } from '@prisma/client';
+
+export type HolderResult =
+  | { ok: true; userId?: string | null; teamId?: string | null; name?: string }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Validate a user or team reference and look up its display name.
+ * undefined leaves the reference unchanged, null clears it.
+ */
+export async function resolveHolder(
+  db: Prisma.TransactionClient,
+  userId?: string | null,
+  teamId?: string | null
+): Promise<HolderResult> {
+  if (userId && teamId) {
+    return { ok: false, status: 400, error: 'A holder can be either a user or a team, not both' };
+  }
+
+  if (userId) {
+    const user = await db.user.findUnique({
+      where: { id: userId },
+      select: { username: true },
+    });
+    return user
+      ? { ok: true, userId, teamId: null, name: user.username }
+      : { ok: false, status: 404, error: 'User not found' };
+  }
+
+  if (teamId) {
+    const team = await db.team.findUnique({
+      where: { id: teamId },
+      select: { name: true },
+    });
+    return team
+      ? { ok: true, userId: null, teamId, name: team.name }
+      : { ok: false, status: 404, error: 'Team not found' };
+  }
+
+  return { ok: true, userId, teamId };
+}
@@ -0,0 +1,205 @@
+/**
+ * IP address allocation within a subnet
+ *
+ * Free addresses are found from indexed range queries on ipNumber and from
+ * in-memory gap detection over blocked ranges, so the cost depends on the
+ * number of taken addresses near the result, not on the size of the subnet.
+ */
+
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { IpVersion, getSubnetRange, ipToBigInt, bigIntToIp } from './ipUtils.js';
+import { AddressRange, getPrefixBounds, mergeRanges } from './subnetUtils.js';
+
+export type AllocationMode = 'sequential' | 'random' | 'eui64';
+
+export interface AllocatableSubnet {
+  id: string;
+  networkAddress: string;
+  subnetMask: number;
+  ipVersion: IpVersion;
+}
+
+const TAKEN_BATCH_SIZE = 500;
+const RANDOM_ATTEMPTS = 32;
+
+/**
+ * Usable host range of a subnet as numbers (skips network/broadcast for IPv4)
+ */
+export function getHostBounds(subnet: AllocatableSubnet): AddressRange {
+  const range = getSubnetRange(subnet.networkAddress, subnet.subnetMask, subnet.ipVersion);
+  return { start: ipToBigInt(range.start), end: ipToBigInt(range.end) };
+}
+
+/**
+ * Ranges that automatic allocation must skip: reservations, child subnets and
+ * any caller-supplied exclusions. Returned sorted and merged.
+ */
+export async function getBlockedRanges(
+  db: Prisma.TransactionClient,
+  subnet: AllocatableSubnet,
+  excludeRanges: AddressRange[] = []
+): Promise<AddressRange[]> {
+  const [reservations, childSubnets] = await Promise.all([
+    db.reservation.findMany({
+      where: { subnetId: subnet.id },
+      select: { startIp: true, endIp: true },
+    }),
+    db.subnet.findMany({
+      where: { parentSubnetId: subnet.id },
+      select: { networkAddress: true, subnetMask: true, ipVersion: true },
+    }),
+  ]);
+
+  return mergeRanges([
+    ...reservations.map(reservation => ({
+      start: ipToBigInt(reservation.startIp),
+      end: ipToBigInt(reservation.endIp),
+    })),
+    ...childSubnets.map(child => getPrefixBounds(child)),
+    ...excludeRanges,
+  ]);
+}
+
+function skipBlocked(value: bigint, blocked: AddressRange[]): bigint {
+  for (const range of blocked) {
+    if (value < range.start) break;
+    if (value <= range.end) value = range.end + BigInt(1);
+  }
+  return value;
+}
+
+function isBlocked(value: bigint, blocked: AddressRange[]): boolean {
+  return blocked.some(range => value >= range.start && value <= range.end);
+}
+
+/**
+ * Check whether an address is held by a non-AVAILABLE IP row in the subnet
+ */
+export async function isIpTaken(
+  db: Prisma.TransactionClient,
+  subnetId: string,
+  value: bigint
+): Promise<boolean> {
+  const taken = await db.ipAddress.findFirst({
+    where: {
+      subnetId,
+      ipNumber: value.toString(),
+      status: { not: 'AVAILABLE' },
+    },
+    select: { id: true },
+  });
+  return taken !== null;
+}
+
+/**
+ * Find the lowest free address, walking taken addresses in ipNumber order a batch at a time
+ */
+export async function findNextFreeIp(
+  db: Prisma.TransactionClient,
+  subnet: AllocatableSubnet,
+  blocked: AddressRange[]
+): Promise<string | undefined> {
+  const host = getHostBounds(subnet);
+  let candidate = skipBlocked(host.start, blocked);
+
+  while (candidate <= host.end) {
+    const taken = await db.ipAddress.findMany({
+      where: {
+        subnetId: subnet.id,
+        status: { not: 'AVAILABLE' },
+        ipNumber: { gte: candidate.toString(), lte: host.end.toString() },
+      },
+      orderBy: { ipNumber: 'asc' },
+      select: { ipNumber: true },
+      take: TAKEN_BATCH_SIZE,
+    });
+
+    if (taken.length === 0) {
+      return bigIntToIp(candidate, subnet.ipVersion);
+    }
+
+    for (const row of taken) {
+      const value = BigInt(row.ipNumber!.toFixed());
+      if (value > candidate) {
+        return bigIntToIp(candidate, subnet.ipVersion);
+      }
+      if (value === candidate) {
+        candidate = skipBlocked(candidate + BigInt(1), blocked);
+        if (candidate > host.end) return undefined;
+      }
+    }
+
+    if (taken.length < TAKEN_BATCH_SIZE) {
+      return bigIntToIp(candidate, subnet.ipVersion);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Pick random addresses in the host range until one is free
+ */
+export async function findRandomFreeIp(
+  db: Prisma.TransactionClient,
+  subnet: AllocatableSubnet,
+  blocked: AddressRange[]
+): Promise<string | undefined> {
+  const host = getHostBounds(subnet);
+  const size = host.end - host.start + BigInt(1);
+  if (size <= BigInt(0)) return undefined;
+
+  for (let attempt = 0; attempt < RANDOM_ATTEMPTS; attempt++) {
+    const random = BigInt(`0x${crypto.randomBytes(16).toString('hex')}`);
+    const candidate = host.start + (random % size);
+    if (isBlocked(candidate, blocked)) continue;
+    if (!(await isIpTaken(db, subnet.id, candidate))) {
+      return bigIntToIp(candidate, subnet.ipVersion);
+    }
+  }
+
+  // Nearly full subnet: fall back to the first free address
+  return findNextFreeIp(db, subnet, blocked);
+}
+
+/**
+ * Build the modified EUI-64 IPv6 address for a MAC within a /64 (or larger) prefix
+ */
+export function eui64Address(subnet: AllocatableSubnet, macAddress: string): string {
+  const bytes = macAddress.split(/[:-]/).map(part => parseInt(part, 16));
+  // Flip the universal/local bit and insert FF:FE in the middle
+  bytes[0] ^= 0x02;
+  const interfaceId = [...bytes.slice(0, 3), 0xff, 0xfe, ...bytes.slice(3)]
+    .reduce((acc, byte) => (acc << BigInt(8)) | BigInt(byte), BigInt(0));
+
+  const prefix = (ipToBigInt(subnet.networkAddress) >> BigInt(64)) << BigInt(64);
+  return bigIntToIp(prefix | interfaceId, 'IPv6');
+}
+
+/**
+ * Allocate a free address in the subnet using the given mode.
+ * Returns undefined when no suitable address is free.
+ */
+export async function allocateIp(
+  db: Prisma.TransactionClient,
+  subnet: AllocatableSubnet,
+  options: { mode?: AllocationMode; macAddress?: string; excludeRanges?: AddressRange[] } = {}
+): Promise<string | undefined> {
+  const blocked = await getBlockedRanges(db, subnet, options.excludeRanges);
+
+  if (options.mode === 'eui64' && options.macAddress) {
+    const address = eui64Address(subnet, options.macAddress);
+    const value = ipToBigInt(address);
+    if (isBlocked(value, blocked) || (await isIpTaken(db, subnet.id, value))) {
+      return undefined;
+    }
+    return address;
+  }
+
+  if (options.mode === 'random') {
+    return findRandomFreeIp(db, subnet, blocked);
+  }
+
+  return findNextFreeIp(db, subnet, blocked);
+}
@@ -152,18 +152,9 @@ export function compressIpv6(ip: string): string {
     
     // Compress the longest zero sequence (must be at least 2 segments)
     if (longestLength > 1) {
-      const before = normalized.slice(0, longestStart);
-      const after = normalized.slice(longestStart + longestLength);
-      const result = [...before, '', ...after].join(':');
-      // Clean up leading/trailing colons but preserve ::
-      let compressed = result.replace(/^::+|::+$/g, '::');
-      if (compressed === '') {
-        compressed = '::';
-      } else if (!compressed.includes('::')) {
-        // If no :: in result, add it where zeros were
-        compressed = result;
-      }
-      return compressed;
+      const before = normalized.slice(0, longestStart).join(':');
+      const after = normalized.slice(longestStart + longestLength).join(':');
+      return `${before}::${after}`;
     }
     
     return normalized.join(':');
@@ -217,6 +208,37 @@ export function bigIntToIpv6(num: bigint): string {
   }
 }
 
+/**
+ * Convert IP address (IPv4 or IPv6) to an unsigned BigInt
+ */
+export function ipToBigInt(ip: string): bigint {
+  if (detectIpVersion(ip) === 'IPv6') {
+    return ipv6ToBigInt(ip);
+  }
+  // ipv4ToNumber returns a signed 32-bit value, so force it unsigned first
+  return BigInt(ipv4ToNumber(ip) >>> 0);
+}
+
+/**
+ * Convert unsigned BigInt back to an IP address string of the given version
+ */
+export function bigIntToIp(num: bigint, ipVersion: IpVersion): string {
+  if (ipVersion === 'IPv6') {
+    return bigIntToIpv6(num);
+  }
+  return numberToIpv4(Number(num));
+}
+
+/**
+ * Convert IP address to the numeric form stored in the database
+ * (ipNumber / startIpNumber / endIpNumber columns, NUMERIC(39,0)).
+ * IPv4 becomes its 32-bit integer value, IPv6 its full 128-bit value,
+ * so range queries compare numerically instead of lexicographically.
+ */
+export function ipToNumeric(ip: string): string {
+  return ipToBigInt(ip).toString();
+}
+
 /**
  * Convert IP address string to number (IPv4) or BigInt (IPv6)
  * @deprecated Use ipv4ToNumber or ipv6ToBigInt instead
@@ -312,9 +334,10 @@ export function isIpInSubnet(ip: string, networkAddress: string, subnetMask: num
   
   const ipNum = ipv4ToNumber(ip);
   const networkNum = ipv4ToNumber(networkAddress);
-  const mask = (0xFFFFFFFF << (32 - subnetMask)) >>> 0;
+  // JS shifts are mod 32, so a /0 mask has to be special-cased
+  const mask = subnetMask === 0 ? 0 : (0xFFFFFFFF << (32 - subnetMask)) >>> 0;
 
-  return (ipNum & mask) === (networkNum & mask);
+  return ((ipNum & mask) >>> 0) === ((networkNum & mask) >>> 0);
 }
 
 /**
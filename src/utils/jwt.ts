@@ -2,13 +2,15 @@ import jwt from 'jsonwebtoken';
 import { JwtUserPayload } from '../types/index.js';
 
 const JWT_SECRET: jwt.Secret = process.env.JWT_SECRET || 'your-secret-key';
-const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '7d';
+// Access tokens are short-lived; clients renew them with their refresh token
+export const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
 
 export function generateToken(payload: {
   id: string;
   username: string;
   email: string;
   role: string;
+  sid: string;
 }): string {
   return jwt.sign(payload, JWT_SECRET, {
     expiresIn: JWT_EXPIRES_IN,
@@ -19,3 +21,26 @@ export function verifyToken(token: string): JwtUserPayload {
   return jwt.verify(token, JWT_SECRET) as JwtUserPayload;
 }
 
+// Challenge tokens bridge the password step and the second-factor step of a login.
+// They carry no session id, so authenticate() never accepts them as access tokens.
+export const MFA_CHALLENGE_EXPIRES_IN = process.env.MFA_CHALLENGE_EXPIRES_IN || '5m';
+const MFA_CHALLENGE_TYPE = 'mfa_challenge';
+
+export function generateMfaChallengeToken(userId: string): string {
+  return jwt.sign({ typ: MFA_CHALLENGE_TYPE }, JWT_SECRET, {
+    subject: userId,
+    expiresIn: MFA_CHALLENGE_EXPIRES_IN,
+  } as jwt.SignOptions);
+}
+
+/**
+ * Return the user id of a valid challenge token, or null
+ */
+export function verifyMfaChallengeToken(token: string): string | null {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as jwt.JwtPayload;
+    return decoded.typ === MFA_CHALLENGE_TYPE && decoded.sub ? decoded.sub : null;
+  } catch {
+    return null;
+  }
+}
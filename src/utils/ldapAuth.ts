@@ -0,0 +1,98 @@
+/**
+ * LDAP bind authentication
+ *
+ * Looks the user up with the service account (LDAP_BIND_DN), then binds as the
+ * user's entry with the password they typed. Groups come from the entry's
+ * memberOf attribute, or from a group search when the server has no memberOf.
+ */
+
+import { Client, Entry, Filter, InvalidCredentialsError } from 'ldapts';
+import { LDAP } from '../config/externalAuth.js';
+import { ExternalProfile } from './externalUsers.js';
+
+export type LdapAuthResult =
+  | { ok: true; profile: ExternalProfile }
+  | { ok: false; reason: 'invalid' | 'unavailable'; error?: unknown };
+
+function attributeValues(entry: Entry, attribute: string): string[] {
+  const value = entry[attribute];
+  if (value === undefined) return [];
+  const values = Array.isArray(value) ? value : [value];
+  return values.map(item => item.toString());
+}
+
+async function bindServiceAccount(client: Client): Promise<void> {
+  if (LDAP.bindDn) {
+    await client.bind(LDAP.bindDn, LDAP.bindPassword);
+  }
+}
+
+/**
+ * Check a login and password against the directory
+ */
+export async function ldapAuthenticate(login: string, password: string): Promise<LdapAuthResult> {
+  // An empty password would be an unauthenticated bind, which many servers accept
+  if (!login || !password) {
+    return { ok: false, reason: 'invalid' };
+  }
+
+  const client = new Client({
+    url: LDAP.url,
+    timeout: LDAP.timeoutMs,
+    connectTimeout: LDAP.timeoutMs,
+  });
+
+  let bindingAsUser = false;
+
+  try {
+    await bindServiceAccount(client);
+
+    const { searchEntries } = await client.search(LDAP.userBaseDn, {
+      scope: 'sub',
+      filter: LDAP.userFilter.split('{{login}}').join(Filter.escape(login)),
+      attributes: [LDAP.usernameAttribute, LDAP.emailAttribute, LDAP.groupAttribute],
+      sizeLimit: 2,
+    });
+
+    // Unknown or ambiguous logins are rejected like a wrong password
+    if (searchEntries.length !== 1) {
+      return { ok: false, reason: 'invalid' };
+    }
+
+    const entry = searchEntries[0];
+    bindingAsUser = true;
+    await client.bind(entry.dn, password);
+    bindingAsUser = false;
+
+    let groups = attributeValues(entry, LDAP.groupAttribute);
+    if (groups.length === 0 && LDAP.groupBaseDn) {
+      await bindServiceAccount(client);
+      const groupSearch = await client.search(LDAP.groupBaseDn, {
+        scope: 'sub',
+        filter: LDAP.groupFilter.split('{{dn}}').join(Filter.escape(entry.dn)),
+        attributes: ['cn'],
+      });
+      groups = groupSearch.searchEntries.flatMap(group => [group.dn, ...attributeValues(group, 'cn')]);
+    }
+
+    return {
+      ok: true,
+      profile: {
+        provider: 'ldap',
+        externalId: entry.dn,
+        username: attributeValues(entry, LDAP.usernameAttribute)[0] || login,
+        email: attributeValues(entry, LDAP.emailAttribute)[0],
+        emailVerified: LDAP.trustEmail,
+        groups,
+      },
+    };
+  } catch (error) {
+    // A rejected service account is a configuration problem, not a wrong password
+    if (bindingAsUser && error instanceof InvalidCredentialsError) {
+      return { ok: false, reason: 'invalid' };
+    }
+    return { ok: false, reason: 'unavailable', error };
+  } finally {
+    await client.unbind().catch(() => undefined);
+  }
+}
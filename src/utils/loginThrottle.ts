@@ -0,0 +1,208 @@
+/**
+ * Failed login tracking with progressive delays and temporary lockout
+ *
+ * Failures are counted per account (by email, whether or not it exists, so
+ * responses do not reveal which accounts are real) and per client IP. State
+ * lives in the login_throttles table so it survives restarts and is shared
+ * between server instances. Each attempt is counted before the credentials are
+ * checked and taken back when they turn out to be right.
+ */
+
+import { LoginThrottle, Prisma } from '@prisma/client';
+import { LOGIN_THROTTLE } from '../config/loginThrottle.js';
+
+/**
+ * The throttle state one login attempt wrote, so the attempt can be taken back
+ * when it turns out not to be a failure
+ */
+export interface LoginAttempt {
+  reserved: { key: string; nextAttemptAt: Date; lockedUntil: Date | null }[];
+}
+
+export type LoginCheck =
+  | { allowed: true; attempt: LoginAttempt }
+  | { allowed: false; error: string; retryAfterSeconds: number };
+
+export interface LoginAttemptInfo {
+  failedAttempts: number;
+  lastFailedAt: Date | null;
+  lockedUntil: Date | null;
+}
+
+export function accountKey(email: string): string {
+  return `account:${email.trim().toLowerCase()}`;
+}
+
+export function ipKey(ipAddress: string): string {
+  return `ip:${ipAddress}`;
+}
+
+function secondsUntil(date: Date, now: Date): number {
+  return Math.max(1, Math.ceil((date.getTime() - now.getTime()) / 1000));
+}
+
+function isExpired(entry: LoginThrottle, now: Date): boolean {
+  const windowMs = LOGIN_THROTTLE.attemptWindowMinutes * 60 * 1000;
+  return !entry.lastFailedAt || now.getTime() - entry.lastFailedAt.getTime() > windowMs;
+}
+
+function refusal(entry: LoginThrottle, now: Date): Extract<LoginCheck, { allowed: false }> | null {
+  if (entry.lockedUntil && entry.lockedUntil > now) {
+    return {
+      allowed: false,
+      error: entry.key.startsWith('ip:')
+        ? 'Too many failed login attempts from this address. Try again later'
+        : 'Account temporarily locked after too many failed login attempts',
+      retryAfterSeconds: secondsUntil(entry.lockedUntil, now),
+    };
+  }
+
+  if (entry.nextAttemptAt && entry.nextAttemptAt > now && !isExpired(entry, now)) {
+    return {
+      allowed: false,
+      error: 'Too many failed login attempts. Please wait before trying again',
+      retryAfterSeconds: secondsUntil(entry.nextAttemptAt, now),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Count an attempt against one key unless it is delayed or locked out. The count
+ * is only written if no concurrent attempt wrote it since it was read; otherwise
+ * the check runs again against what that attempt wrote.
+ */
+async function reserveAttempt(
+  db: Prisma.TransactionClient,
+  key: string,
+  maxAttempts: number,
+  now: Date
+): Promise<LoginAttempt['reserved'][number] | Extract<LoginCheck, { allowed: false }>> {
+  for (;;) {
+    const entry = await db.loginThrottle.findUnique({
+      where: { key },
+    });
+
+    const refused = entry && refusal(entry, now);
+    if (refused) {
+      return refused;
+    }
+
+    // Failures outside the window no longer count
+    const failedAttempts = (entry && !isExpired(entry, now) ? entry.failedAttempts : 0) + 1;
+    const delayMs = Math.min(
+      LOGIN_THROTTLE.baseDelayMs * 2 ** (failedAttempts - 1),
+      LOGIN_THROTTLE.maxDelayMs
+    );
+    const nextAttemptAt = new Date(now.getTime() + delayMs);
+    const lockedUntil = failedAttempts >= maxAttempts
+      ? new Date(now.getTime() + LOGIN_THROTTLE.lockoutMinutes * 60 * 1000)
+      : null;
+    const data = { failedAttempts, lastFailedAt: now, nextAttemptAt, ...(lockedUntil ? { lockedUntil } : {}) };
+
+    if (entry) {
+      const { count } = await db.loginThrottle.updateMany({
+        where: { key, failedAttempts: entry.failedAttempts, lastFailedAt: entry.lastFailedAt },
+        data,
+      });
+      if (count === 1) {
+        return { key, nextAttemptAt, lockedUntil };
+      }
+    } else {
+      try {
+        await db.loginThrottle.create({
+          data: { key, ...data },
+        });
+        return { key, nextAttemptAt, lockedUntil };
+      } catch (error) {
+        if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+          throw error;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Count a login attempt against the account and the client IP before the
+ * credentials are checked, or refuse it while either is delayed or locked out.
+ * Every attempt counts as a failure until releaseLoginAttempt takes it back, so
+ * parallel guesses cannot all pass the check before any failure is recorded.
+ */
+export async function reserveLoginAttempt(
+  db: Prisma.TransactionClient,
+  email: string,
+  ipAddress?: string,
+  now: Date = new Date()
+): Promise<LoginCheck> {
+  const limits: [string, number][] = [
+    [accountKey(email), LOGIN_THROTTLE.maxAccountAttempts],
+    ...(ipAddress ? [[ipKey(ipAddress), LOGIN_THROTTLE.maxIpAttempts] as [string, number]] : []),
+  ];
+
+  const attempt: LoginAttempt = { reserved: [] };
+  for (const [key, maxAttempts] of limits) {
+    const reserved = await reserveAttempt(db, key, maxAttempts, now);
+    if ('allowed' in reserved) {
+      await releaseLoginAttempt(db, attempt);
+      return reserved;
+    }
+    attempt.reserved.push(reserved);
+  }
+
+  return { allowed: true, attempt };
+}
+
+/**
+ * Take back an attempt that did not fail (right credentials, or a check that
+ * could not run), along with the delay or lockout it set
+ */
+export async function releaseLoginAttempt(db: Prisma.TransactionClient, attempt: LoginAttempt): Promise<void> {
+  for (const { key, nextAttemptAt, lockedUntil } of attempt.reserved) {
+    await db.loginThrottle.updateMany({
+      where: { key, failedAttempts: { gt: 0 } },
+      data: { failedAttempts: { decrement: 1 } },
+    });
+    // Left alone when a later attempt has set its own
+    await db.loginThrottle.updateMany({
+      where: { key, nextAttemptAt },
+      data: { nextAttemptAt: null },
+    });
+    if (lockedUntil) {
+      await db.loginThrottle.updateMany({
+        where: { key, lockedUntil },
+        data: { lockedUntil: null },
+      });
+    }
+  }
+}
+
+/**
+ * Forget failed attempts and any lockout for an account (after a successful login or an admin unlock).
+ * The client IP's count is kept, so one valid login cannot reset an attacker's budget.
+ */
+export async function clearAccountFailures(db: Prisma.TransactionClient, email: string): Promise<void> {
+  await db.loginThrottle.deleteMany({
+    where: { key: accountKey(email) },
+  });
+}
+
+/**
+ * Current failed-attempt state of an account
+ */
+export async function getLoginAttemptInfo(
+  db: Prisma.TransactionClient,
+  email: string,
+  now: Date = new Date()
+): Promise<LoginAttemptInfo> {
+  const entry = await db.loginThrottle.findUnique({
+    where: { key: accountKey(email) },
+  });
+
+  return {
+    failedAttempts: entry && !isExpired(entry, now) ? entry.failedAttempts : 0,
+    lastFailedAt: entry?.lastFailedAt ?? null,
+    lockedUntil: entry?.lockedUntil && entry.lockedUntil > now ? entry.lockedUntil : null,
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * Pluggable outgoing mail
+ *
+ * Code sends mail through sendMail() and never talks to a transport directly.
+ * MAIL_TRANSPORT picks the transport at startup; setMailTransport() swaps in
+ * another implementation (for example one that records messages in tests).
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { MAIL, MailTransportName } from '../config/mail.js';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+function createSmtpTransport(): MailTransport {
+  const { smtp } = MAIL;
+  const transporter = smtp.url
+    ? nodemailer.createTransport(smtp.url)
+    : nodemailer.createTransport({
+        host: smtp.host,
+        port: smtp.port,
+        secure: smtp.secure,
+        auth: smtp.user ? { user: smtp.user, pass: smtp.password } : undefined,
+      });
+
+  return {
+    async send(message) {
+      await transporter.sendMail(message);
+    },
+  };
+}
+
+function formatMessage(message: MailMessage & { from: string }, date: Date): string {
+  return [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    `Date: ${date.toUTCString()}`,
+    '',
+    message.text,
+    '',
+  ].join('\n');
+}
+
+// One .eml file per message, named so they sort by time
+function createFileTransport(directory: string): MailTransport {
+  return {
+    async send(message) {
+      const now = new Date();
+      await fs.mkdir(directory, { recursive: true });
+      const name = `${now.toISOString().replace(/[:.]/g, '-')}-${Math.random().toString(36).slice(2, 8)}.eml`;
+      await fs.writeFile(path.join(directory, name), formatMessage(message, now), 'utf8');
+    },
+  };
+}
+
+function createConsoleTransport(): MailTransport {
+  return {
+    async send(message) {
+      console.log(`[Mail]\n${formatMessage(message, new Date())}`);
+    },
+  };
+}
+
+export function createMailTransport(name: MailTransportName): MailTransport {
+  switch (name) {
+    case 'smtp':
+      return createSmtpTransport();
+    case 'file':
+      return createFileTransport(MAIL.fileDir);
+    case 'console':
+      return createConsoleTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${name}`);
+  }
+}
+
+let transport: MailTransport | undefined;
+
+/**
+ * Replace the transport used by sendMail()
+ */
+export function setMailTransport(replacement: MailTransport): void {
+  transport = replacement;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  transport ??= createMailTransport(MAIL.transport);
+  await transport.send({ ...message, from: MAIL.from });
+}
@@ -0,0 +1,140 @@
+/**
+ * Two-factor authentication: recovery codes, second-factor checks and the MFA policy
+ *
+ * TOTP itself lives in utils/totp.ts. The policy is stored in the settings
+ * table so admins can change it at runtime; MFA_REQUIRED_ROLES provides the
+ * default until it has been set.
+ */
+
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { Role, ROLES } from '../config/permissions.js';
+import { verifyTotp } from './totp.js';
+
+export const MFA_ISSUER = process.env.MFA_ISSUER || 'IPAM';
+export const RECOVERY_CODE_COUNT = 10;
+
+const MFA_POLICY_KEY = 'mfaPolicy';
+
+export interface MfaPolicy {
+  requiredRoles: Role[];
+}
+
+export interface SecondFactor {
+  code?: string;
+  recoveryCode?: string;
+}
+
+export interface MfaUser {
+  id: string;
+  mfaSecret: string | null;
+  mfaEnabled: boolean;
+  mfaLastUsedStep: number | null;
+  mfaRecoveryCodes: string[];
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toLowerCase();
+}
+
+export function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+/**
+ * Generate a fresh set of recovery codes with the hashes to store
+ */
+export function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+/**
+ * Check a TOTP code or a recovery code for a user with MFA enabled.
+ * An accepted code is used up: its time step cannot be replayed and a recovery code is removed.
+ */
+export async function verifySecondFactor(
+  db: Prisma.TransactionClient,
+  user: MfaUser,
+  factor: SecondFactor,
+  now: Date = new Date()
+): Promise<boolean> {
+  if (!user.mfaEnabled || !user.mfaSecret) {
+    return false;
+  }
+
+  if (factor.code) {
+    const step = verifyTotp(user.mfaSecret, factor.code, now, user.mfaLastUsedStep);
+    if (step === null) {
+      return false;
+    }
+
+    // Only record the step if no concurrent request got there first with the same code
+    const updated = await db.user.updateMany({
+      where: {
+        id: user.id,
+        OR: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { lt: step } }],
+      },
+      data: { mfaLastUsedStep: step },
+    });
+    return updated.count === 1;
+  }
+
+  if (factor.recoveryCode) {
+    const hash = hashRecoveryCode(factor.recoveryCode);
+    if (!user.mfaRecoveryCodes.includes(hash)) {
+      return false;
+    }
+
+    const updated = await db.user.updateMany({
+      where: { id: user.id, mfaRecoveryCodes: { has: hash } },
+      data: { mfaRecoveryCodes: user.mfaRecoveryCodes.filter(existing => existing !== hash) },
+    });
+    return updated.count === 1;
+  }
+
+  return false;
+}
+
+function defaultMfaPolicy(): MfaPolicy {
+  const roles = (process.env.MFA_REQUIRED_ROLES || '')
+    .split(',')
+    .map(role => role.trim())
+    .filter((role): role is Role => ROLES.includes(role as Role));
+  return { requiredRoles: roles };
+}
+
+/**
+ * The current MFA policy
+ */
+export async function getMfaPolicy(db: Prisma.TransactionClient): Promise<MfaPolicy> {
+  const setting = await db.setting.findUnique({ where: { key: MFA_POLICY_KEY } });
+  if (!setting) {
+    return defaultMfaPolicy();
+  }
+  return setting.value as unknown as MfaPolicy;
+}
+
+/**
+ * Replace the MFA policy
+ */
+export async function setMfaPolicy(db: Prisma.TransactionClient, policy: MfaPolicy): Promise<MfaPolicy> {
+  const value = { requiredRoles: [...new Set(policy.requiredRoles)] };
+  await db.setting.upsert({
+    where: { key: MFA_POLICY_KEY },
+    update: { value },
+    create: { key: MFA_POLICY_KEY, value },
+  });
+  return value;
+}
+
+/**
+ * Check whether the policy requires users with this role to use a second factor
+ */
+export async function isMfaRequired(db: Prisma.TransactionClient, role: string): Promise<boolean> {
+  const policy = await getMfaPolicy(db);
+  return policy.requiredRoles.includes(role as Role);
+}
@@ -0,0 +1,135 @@
+/**
+ * OpenID Connect authorization-code login (with PKCE)
+ *
+ * startOidcLogin() stores a pending login and returns the identity provider URL
+ * to send the browser to. The provider redirects back to OIDC_REDIRECT_URI (a
+ * page of the web client), which posts the code and state to the API, and
+ * completeOidcLogin() exchanges them for the user's verified ID token claims.
+ */
+
+import * as client from 'openid-client';
+import { Prisma } from '@prisma/client';
+import { OIDC } from '../config/externalAuth.js';
+import { ExternalProfile } from './externalUsers.js';
+
+export type OidcCallbackResult =
+  | { ok: true; profile: ExternalProfile }
+  | { ok: false; error: string };
+
+let configuration: Promise<client.Configuration> | undefined;
+
+// Discovery runs once; a failure is retried on the next login
+function getConfiguration(): Promise<client.Configuration> {
+  configuration ??= client
+    .discovery(
+      new URL(OIDC.issuerUrl),
+      OIDC.clientId,
+      OIDC.clientSecret,
+      undefined,
+      OIDC.allowInsecureHttp ? { execute: [client.allowInsecureRequests] } : undefined
+    )
+    .catch(error => {
+      configuration = undefined;
+      throw error;
+    });
+  return configuration;
+}
+
+function claimList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === 'string') return [value];
+  return [];
+}
+
+/**
+ * Begin a login: remember the state, nonce and PKCE verifier, and build the authorization URL
+ */
+export async function startOidcLogin(
+  db: Prisma.TransactionClient,
+  now: Date = new Date()
+): Promise<{ authorizationUrl: string; state: string; expiresAt: Date }> {
+  const config = await getConfiguration();
+
+  const state = client.randomState();
+  const nonce = client.randomNonce();
+  const codeVerifier = client.randomPKCECodeVerifier();
+  const expiresAt = new Date(now.getTime() + OIDC.stateTtlMinutes * 60 * 1000);
+
+  // Abandoned logins are cleaned up as new ones start
+  await db.oidcLoginState.deleteMany({ where: { expiresAt: { lt: now } } });
+  await db.oidcLoginState.create({
+    data: { state, nonce, codeVerifier, expiresAt },
+  });
+
+  const authorizationUrl = client.buildAuthorizationUrl(config, {
+    redirect_uri: OIDC.redirectUri,
+    scope: OIDC.scopes,
+    state,
+    nonce,
+    code_challenge: await client.calculatePKCECodeChallenge(codeVerifier),
+    code_challenge_method: 'S256',
+  });
+
+  return { authorizationUrl: authorizationUrl.href, state, expiresAt };
+}
+
+/**
+ * Finish a login with the code and state the identity provider sent back
+ */
+export async function completeOidcLogin(
+  db: Prisma.TransactionClient,
+  params: { code: string; state: string },
+  now: Date = new Date()
+): Promise<OidcCallbackResult> {
+  const pending = await db.oidcLoginState.findUnique({ where: { state: params.state } });
+
+  // Each state can be used once
+  const consumed = await db.oidcLoginState.deleteMany({ where: { state: params.state } });
+  if (!pending || consumed.count === 0 || pending.expiresAt <= now) {
+    return { ok: false, error: 'Login request expired or is invalid. Please start again' };
+  }
+
+  const config = await getConfiguration();
+
+  const callbackUrl = new URL(OIDC.redirectUri);
+  callbackUrl.searchParams.set('code', params.code);
+  callbackUrl.searchParams.set('state', params.state);
+
+  let claims: Record<string, unknown>;
+  try {
+    const tokens = await client.authorizationCodeGrant(config, callbackUrl, {
+      pkceCodeVerifier: pending.codeVerifier,
+      expectedState: pending.state,
+      expectedNonce: pending.nonce,
+      idTokenExpected: true,
+    });
+
+    const idTokenClaims = tokens.claims()!;
+    claims = { ...idTokenClaims };
+
+    // Some providers only put email or groups in the userinfo response
+    if (!claims.email || claims[OIDC.groupsClaim] === undefined) {
+      const userInfo = await client.fetchUserInfo(config, tokens.access_token, idTokenClaims.sub);
+      claims = { ...userInfo, ...claims };
+    }
+  } catch (error) {
+    console.error('OpenID Connect login failed:', error);
+    return { ok: false, error: 'OpenID Connect login failed' };
+  }
+
+  const email = typeof claims.email === 'string' ? claims.email : undefined;
+  const preferredUsername =
+    typeof claims.preferred_username === 'string' ? claims.preferred_username : email?.split('@')[0];
+
+  return {
+    ok: true,
+    profile: {
+      provider: 'oidc',
+      externalId: String(claims.sub),
+      username: preferredUsername || String(claims.sub),
+      email,
+      emailVerified: claims.email_verified === undefined ? undefined : claims.email_verified === true,
+      groups: claimList(claims[OIDC.groupsClaim]),
+    },
+  };
+}
@@ -1,15 +1,96 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
 import bcrypt from 'bcryptjs';
+import { PASSWORD_HASHING } from '../config/passwordPolicy.js';
 
-const SALT_ROUNDS = 10;
+const scrypt = promisify(crypto.scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+const SCRYPT_PREFIX = '$scrypt$';
+const SCRYPT_KEY_LENGTH = 64;
+
+interface ScryptParams {
+  logN: number;
+  blockSize: number;
+  parallelism: number;
+}
+
+function scryptOptions(params: ScryptParams): crypto.ScryptOptions {
+  const N = 2 ** params.logN;
+  return {
+    N,
+    r: params.blockSize,
+    p: params.parallelism,
+    // Node's default limit (32 MiB) is too small for the recommended cost
+    maxmem: 256 * N * params.blockSize,
+  };
+}
+
+// $scrypt$ln=15,r=8,p=1$<salt>$<hash>, both base64
+function parseScryptHash(hash: string): (ScryptParams & { salt: Buffer; key: Buffer }) | null {
+  const match = /^\$scrypt\$ln=(\d+),r=(\d+),p=(\d+)\$([^$]+)\$([^$]+)$/.exec(hash);
+  if (!match) return null;
+  return {
+    logN: Number(match[1]),
+    blockSize: Number(match[2]),
+    parallelism: Number(match[3]),
+    salt: Buffer.from(match[4], 'base64'),
+    key: Buffer.from(match[5], 'base64'),
+  };
+}
 
 export async function hashPassword(password: string): Promise<string> {
-  return bcrypt.hash(password, SALT_ROUNDS);
+  if (PASSWORD_HASHING.algorithm === 'scrypt') {
+    const params = {
+      logN: PASSWORD_HASHING.scryptLogN,
+      blockSize: PASSWORD_HASHING.scryptBlockSize,
+      parallelism: PASSWORD_HASHING.scryptParallelism,
+    };
+    const salt = crypto.randomBytes(16);
+    const key = await scrypt(password, salt, SCRYPT_KEY_LENGTH, scryptOptions(params));
+    return `${SCRYPT_PREFIX}ln=${params.logN},r=${params.blockSize},p=${params.parallelism}$${salt.toString('base64')}$${key.toString('base64')}`;
+  }
+
+  return bcrypt.hash(password, PASSWORD_HASHING.bcryptCost);
 }
 
 export async function comparePassword(
   password: string,
   hash: string
 ): Promise<boolean> {
+  if (hash.startsWith(SCRYPT_PREFIX)) {
+    const parsed = parseScryptHash(hash);
+    if (!parsed) return false;
+    const key = await scrypt(password, parsed.salt, parsed.key.length, scryptOptions(parsed));
+    return crypto.timingSafeEqual(key, parsed.key);
+  }
+
   return bcrypt.compare(password, hash);
 }
 
+/**
+ * Check whether a stored hash uses a different algorithm or a lower cost than configured,
+ * so it should be replaced the next time the plain password is known (at login)
+ */
+export function needsRehash(hash: string): boolean {
+  if (PASSWORD_HASHING.algorithm === 'scrypt') {
+    const parsed = parseScryptHash(hash);
+    return (
+      !parsed ||
+      parsed.logN < PASSWORD_HASHING.scryptLogN ||
+      parsed.blockSize < PASSWORD_HASHING.scryptBlockSize ||
+      parsed.parallelism < PASSWORD_HASHING.scryptParallelism
+    );
+  }
+
+  if (hash.startsWith(SCRYPT_PREFIX)) return true;
+  try {
+    return bcrypt.getRounds(hash) < PASSWORD_HASHING.bcryptCost;
+  } catch {
+    return true;
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Password policy: length, character classes, a denylist and no reuse of recent passwords
+ *
+ * The static rules run in the zod schemas (see passwordSchema in
+ * validations/auth.validation.ts); reuse needs the user's history and is
+ * checked by setUserPassword(), which every password change goes through.
+ */
+
+import fs from 'fs';
+import { Prisma } from '@prisma/client';
+import { PASSWORD_POLICY } from '../config/passwordPolicy.js';
+import { COMMON_PASSWORDS } from '../config/commonPasswords.js';
+import { hashPassword, comparePassword } from './password.js';
+
+export type SetPasswordResult =
+  | { ok: true }
+  | { ok: false; status: number; error: string };
+
+export const PASSWORD_REUSED_ERROR = `Password must differ from the last ${PASSWORD_POLICY.historyCount} passwords`;
+
+let denylist: Set<string> | undefined;
+
+function getDenylist(): Set<string> {
+  if (!denylist) {
+    const extra = PASSWORD_POLICY.denylistFile
+      ? fs.readFileSync(PASSWORD_POLICY.denylistFile, 'utf8').split(/\r?\n/)
+      : [];
+    denylist = new Set(
+      [...COMMON_PASSWORDS, ...extra].map(entry => entry.trim().toLowerCase()).filter(Boolean)
+    );
+  }
+  return denylist;
+}
+
+/**
+ * Human-readable reasons a password breaks the policy (empty when it complies)
+ */
+export function getPasswordPolicyViolations(password: string): string[] {
+  const violations: string[] = [];
+
+  if (password.length < PASSWORD_POLICY.minLength) {
+    violations.push(`Password must be at least ${PASSWORD_POLICY.minLength} characters`);
+  }
+  if (password.length > PASSWORD_POLICY.maxLength) {
+    violations.push(`Password must be at most ${PASSWORD_POLICY.maxLength} characters`);
+  }
+  if (PASSWORD_POLICY.requireLowercase && !/[a-z]/.test(password)) {
+    violations.push('Password must contain a lowercase letter');
+  }
+  if (PASSWORD_POLICY.requireUppercase && !/[A-Z]/.test(password)) {
+    violations.push('Password must contain an uppercase letter');
+  }
+  if (PASSWORD_POLICY.requireDigit && !/\d/.test(password)) {
+    violations.push('Password must contain a digit');
+  }
+  if (PASSWORD_POLICY.requireSymbol && !/[^a-zA-Z0-9]/.test(password)) {
+    violations.push('Password must contain a symbol');
+  }
+  if (getDenylist().has(password.toLowerCase())) {
+    violations.push('Password is too common');
+  }
+
+  return violations;
+}
+
+/**
+ * Check whether a password matches the user's current one or one of their recent ones
+ */
+export async function isPasswordReused(
+  db: Prisma.TransactionClient,
+  user: { id: string; passwordHash: string },
+  password: string
+): Promise<boolean> {
+  if (PASSWORD_POLICY.historyCount <= 0) {
+    return false;
+  }
+
+  // The current password counts as one of the last N
+  const history = await db.passwordHistory.findMany({
+    where: { userId: user.id },
+    orderBy: { createdAt: 'desc' },
+    take: PASSWORD_POLICY.historyCount - 1,
+    select: { passwordHash: true },
+  });
+
+  for (const hash of [user.passwordHash, ...history.map(entry => entry.passwordHash)]) {
+    if (await comparePassword(password, hash)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Replace a user's password after checking it against their history, and remember the old hash
+ */
+export async function setUserPassword(
+  db: Prisma.TransactionClient,
+  user: { id: string; passwordHash: string },
+  password: string,
+  options: { checkReuse?: boolean } = {}
+): Promise<SetPasswordResult> {
+  // Callers that already ran isPasswordReused() skip the (slow) second check
+  if ((options.checkReuse ?? true) && (await isPasswordReused(db, user, password))) {
+    return { ok: false, status: 400, error: PASSWORD_REUSED_ERROR };
+  }
+
+  await db.user.update({
+    where: { id: user.id },
+    data: { passwordHash: await hashPassword(password) },
+  });
+
+  if (PASSWORD_POLICY.historyCount > 1) {
+    await db.passwordHistory.create({
+      data: { userId: user.id, passwordHash: user.passwordHash },
+    });
+
+    const stale = await db.passwordHistory.findMany({
+      where: { userId: user.id },
+      orderBy: { createdAt: 'desc' },
+      skip: PASSWORD_POLICY.historyCount - 1,
+      select: { id: true },
+    });
+    if (stale.length > 0) {
+      await db.passwordHistory.deleteMany({
+        where: { id: { in: stale.map(entry => entry.id) } },
+      });
+    }
+  }
+
+  return { ok: true };
+}
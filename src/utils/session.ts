@@ -0,0 +1,165 @@
+/**
+ * Login sessions with short-lived access tokens and rotating refresh tokens
+ *
+ * Each login creates a Session row holding the hash of its current refresh
+ * token. Refreshing swaps in a new refresh token; presenting the one it
+ * replaced means the token was copied, so the whole session is revoked.
+ */
+
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { generateToken, JWT_EXPIRES_IN } from './jwt.js';
+import { readInt } from '../config/env.js';
+
+const REFRESH_TOKEN_TTL_DAYS = readInt('REFRESH_TOKEN_TTL_DAYS', 30);
+
+export interface SessionUser {
+  id: string;
+  username: string;
+  email: string;
+  role: string;
+}
+
+export interface SessionMetadata {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: string;
+  refreshTokenExpiresAt: Date;
+}
+
+export type RefreshResult =
+  | { ok: true; user: SessionUser; tokens: SessionTokens }
+  | { ok: false; error: string };
+
+function hashRefreshToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function newRefreshToken(): { token: string; hash: string; expiresAt: Date } {
+  const token = crypto.randomBytes(48).toString('base64url');
+  return {
+    token,
+    hash: hashRefreshToken(token),
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000),
+  };
+}
+
+function issueTokens(user: SessionUser, sessionId: string, refresh: { token: string; expiresAt: Date }): SessionTokens {
+  return {
+    token: generateToken({
+      id: user.id,
+      username: user.username,
+      email: user.email,
+      role: user.role,
+      sid: sessionId,
+    }),
+    refreshToken: refresh.token,
+    expiresIn: JWT_EXPIRES_IN,
+    refreshTokenExpiresAt: refresh.expiresAt,
+  };
+}
+
+/**
+ * Start a session for a user who just authenticated and issue its first token pair
+ */
+export async function createSession(
+  db: Prisma.TransactionClient,
+  user: SessionUser,
+  metadata: SessionMetadata = {}
+): Promise<SessionTokens> {
+  const refresh = newRefreshToken();
+  const session = await db.session.create({
+    data: {
+      userId: user.id,
+      refreshTokenHash: refresh.hash,
+      expiresAt: refresh.expiresAt,
+      userAgent: metadata.userAgent,
+      ipAddress: metadata.ipAddress,
+    },
+  });
+  return issueTokens(user, session.id, refresh);
+}
+
+/**
+ * Exchange a refresh token for a new token pair, rotating the refresh token
+ */
+export async function refreshSession(
+  db: Prisma.TransactionClient,
+  refreshToken: string
+): Promise<RefreshResult> {
+  const hash = hashRefreshToken(refreshToken);
+  const userSelect = { id: true, username: true, email: true, role: true };
+
+  const session = await db.session.findUnique({
+    where: { refreshTokenHash: hash },
+    include: { user: { select: userSelect } },
+  });
+
+  if (!session) {
+    // A rotated-out token being presented again: someone else holds a copy
+    const reused = await db.session.findUnique({ where: { previousTokenHash: hash } });
+    if (reused && !reused.revokedAt) {
+      await db.session.update({
+        where: { id: reused.id },
+        data: { revokedAt: new Date() },
+      });
+    }
+    return { ok: false, error: 'Invalid refresh token' };
+  }
+
+  if (session.revokedAt || session.expiresAt <= new Date()) {
+    return { ok: false, error: 'Session has been revoked or expired' };
+  }
+
+  const refresh = newRefreshToken();
+  const rotated = await db.session.updateMany({
+    // Only rotate if nobody else rotated this token in the meantime
+    where: { id: session.id, refreshTokenHash: hash },
+    data: {
+      refreshTokenHash: refresh.hash,
+      previousTokenHash: hash,
+      expiresAt: refresh.expiresAt,
+      lastRefreshedAt: new Date(),
+    },
+  });
+
+  if (rotated.count === 0) {
+    return { ok: false, error: 'Invalid refresh token' };
+  }
+
+  return { ok: true, user: session.user, tokens: issueTokens(session.user, session.id, refresh) };
+}
+
+/**
+ * Revoke a single session
+ */
+export async function revokeSession(db: Prisma.TransactionClient, sessionId: string): Promise<void> {
+  await db.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
+
+/**
+ * Revoke every active session of a user, optionally keeping one (the caller's own)
+ */
+export async function revokeUserSessions(
+  db: Prisma.TransactionClient,
+  userId: string,
+  exceptSessionId?: string
+): Promise<number> {
+  const result = await db.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}),
+    },
+    data: { revokedAt: new Date() },
+  });
+  return result.count;
+}
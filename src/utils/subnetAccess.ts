@@ -0,0 +1,146 @@
+/**
+ * Per-subnet access scopes
+ *
+ * SubnetAccess rows grant a user or a team a level on a subnet, and the grant
+ * is inherited by every descendant through SubnetHierarchy. A subnet with no
+ * grants on itself or any ancestor is unscoped and governed by global roles
+ * alone; once a subnet is scoped, only grantees can see or change it.
+ * Global roles still cap what a grantee can do (see config/permissions.ts).
+ */
+
+import { Prisma, SubnetAccessLevel } from '@prisma/client';
+import { getEffectivePermissions } from '../config/permissions.js';
+
+const LEVEL_RANK: Record<SubnetAccessLevel, number> = {
+  VIEW: 0,
+  ASSIGN: 1,
+  RESERVE: 2,
+  ADMIN: 3,
+};
+
+export interface ScopeUser {
+  id: string;
+  role: string;
+  scopes?: string[];
+}
+
+export interface SubnetScope {
+  unrestricted: boolean; // caller bypasses grants (effective 'subnets:all' permission)
+  scoped: Set<string>; // subnets with grants on themselves or an ancestor
+  levels: Map<string, SubnetAccessLevel>; // caller's effective level, including inherited grants
+  subnetIds: string[]; // every subnet known when the scope was loaded
+}
+
+/**
+ * Return the more privileged of two levels
+ */
+export function higherLevel(
+  a: SubnetAccessLevel | undefined,
+  b: SubnetAccessLevel | undefined
+): SubnetAccessLevel | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  return LEVEL_RANK[a] >= LEVEL_RANK[b] ? a : b;
+}
+
+/**
+ * Return the less privileged of two levels
+ */
+export function lowerLevel(a: SubnetAccessLevel, b: SubnetAccessLevel): SubnetAccessLevel {
+  return LEVEL_RANK[a] <= LEVEL_RANK[b] ? a : b;
+}
+
+/**
+ * Resolve the caller's effective access to every subnet in one pass over the hierarchy
+ */
+export async function loadSubnetScope(
+  db: Prisma.TransactionClient,
+  user?: ScopeUser
+): Promise<SubnetScope> {
+  if (user && getEffectivePermissions(user).includes('subnets:all')) {
+    return { unrestricted: true, scoped: new Set(), levels: new Map(), subnetIds: [] };
+  }
+
+  const [subnets, grants, memberships] = await Promise.all([
+    db.subnet.findMany({ select: { id: true, parentSubnetId: true } }),
+    db.subnetAccess.findMany({ select: { subnetId: true, userId: true, teamId: true, level: true } }),
+    user
+      ? db.teamMember.findMany({ where: { userId: user.id }, select: { teamId: true } })
+      : Promise.resolve([]),
+  ]);
+
+  const teamIds = new Set(memberships.map(membership => membership.teamId));
+  const grantedSubnets = new Set(grants.map(grant => grant.subnetId));
+  const ownLevels = new Map<string, SubnetAccessLevel>();
+  for (const grant of grants) {
+    const applies =
+      (user && grant.userId === user.id) || (grant.teamId !== null && teamIds.has(grant.teamId));
+    if (applies) {
+      ownLevels.set(grant.subnetId, higherLevel(ownLevels.get(grant.subnetId), grant.level)!);
+    }
+  }
+
+  const parents = new Map(subnets.map(subnet => [subnet.id, subnet.parentSubnetId]));
+  const resolved = new Map<string, { scoped: boolean; level?: SubnetAccessLevel }>();
+
+  for (const subnet of subnets) {
+    // Walk up to the first already-resolved ancestor (or the root), then resolve back down
+    const chain: string[] = [];
+    let current: string | null | undefined = subnet.id;
+    while (current && !resolved.has(current) && !chain.includes(current)) {
+      chain.push(current);
+      current = parents.get(current);
+    }
+
+    let inherited = current ? resolved.get(current) : undefined;
+    for (const id of chain.reverse()) {
+      const entry = {
+        scoped: (inherited?.scoped ?? false) || grantedSubnets.has(id),
+        level: higherLevel(inherited?.level, ownLevels.get(id)),
+      };
+      resolved.set(id, entry);
+      inherited = entry;
+    }
+  }
+
+  const scope: SubnetScope = {
+    unrestricted: false,
+    scoped: new Set(),
+    levels: new Map(),
+    subnetIds: subnets.map(subnet => subnet.id),
+  };
+  for (const [id, entry] of resolved) {
+    if (entry.scoped) scope.scoped.add(id);
+    if (entry.level) scope.levels.set(id, entry.level);
+  }
+
+  return scope;
+}
+
+/**
+ * Check whether the caller holds at least the given level on a subnet
+ */
+export function canAccessSubnet(
+  scope: SubnetScope,
+  subnetId: string,
+  level: SubnetAccessLevel = 'VIEW'
+): boolean {
+  if (scope.unrestricted || !scope.scoped.has(subnetId)) return true;
+  const granted = scope.levels.get(subnetId);
+  return granted !== undefined && LEVEL_RANK[granted] >= LEVEL_RANK[level];
+}
+
+/**
+ * Ids of the subnets the caller can see, or undefined when no filtering is needed
+ */
+export function getVisibleSubnetIds(scope: SubnetScope): string[] | undefined {
+  if (scope.unrestricted) return undefined;
+  return scope.subnetIds.filter(id => canAccessSubnet(scope, id));
+}
+
+/**
+ * Error message for a request that needs more access to a subnet than the caller has
+ */
+export function subnetAccessError(level: SubnetAccessLevel): string {
+  return `${level} access to this subnet is required`;
+}
@@ -0,0 +1,80 @@
+/**
+ * Serialized write access to a subnet's address space
+ *
+ * Every operation that reads the free/taken state of a subnet and then writes
+ * based on it (assign, release, reserve, split, merge) runs through
+ * withSubnetLock, which takes a per-subnet advisory lock inside a read committed
+ * transaction and retries when Postgres reports a deadlock. Read committed
+ * matters here: each statement after the lock sees everything committed by the
+ * previous holder, where a serializable snapshot would be fixed by the lock
+ * statement itself, before the lock was granted.
+ *
+ * Changes to the subnet tree itself (create, import, resize, move, allocate,
+ * split, merge, delete) also lock SUBNET_TREE_LOCK: their placement checks read the
+ * whole tree, so they are serialized against each other.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { requestChainAppend } from './auditChain.js';
+
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 50;
+const DEFAULT_MAX_WAIT_MS = 10000;
+const DEFAULT_TIMEOUT_MS = 15000;
+
+// P2034: write conflict or deadlock
+const RETRYABLE_ERROR_CODES = ['P2034'];
+
+// Lock key shared by every change to the subnet tree; never a subnet id
+export const SUBNET_TREE_LOCK = 'tree';
+
+export const CONCURRENT_CHANGE_ERROR = 'The request conflicted with a concurrent change, please retry';
+
+/**
+ * Check whether an error is a transaction conflict that is safe to retry
+ */
+export function isConcurrencyConflict(error: unknown): boolean {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    RETRYABLE_ERROR_CODES.includes(error.code)
+  );
+}
+
+/**
+ * Run fn in a read committed transaction holding advisory locks for the given subnets.
+ * Locks are taken in sorted order so concurrent multi-subnet callers cannot deadlock.
+ */
+export async function withSubnetLock<T>(
+  db: PrismaClient,
+  subnetIds: string | string[],
+  fn: (tx: Prisma.TransactionClient) => Promise<T>,
+  options: { timeout?: number } = {}
+): Promise<T> {
+  const keys = [...new Set(Array.isArray(subnetIds) ? subnetIds : [subnetIds])].sort();
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const result = await db.$transaction(
+        async (tx) => {
+          for (const key of keys) {
+            await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`subnet:${key}`}))`;
+          }
+          return fn(tx);
+        },
+        {
+          isolationLevel: Prisma.TransactionIsolationLevel.ReadCommitted,
+          maxWait: DEFAULT_MAX_WAIT_MS,
+          timeout: options.timeout ?? DEFAULT_TIMEOUT_MS,
+        }
+      );
+      // Audit entries written by fn are committed now and can be linked into their chains
+      requestChainAppend();
+      return result;
+    } catch (error) {
+      if (attempt >= MAX_ATTEMPTS || !isConcurrencyConflict(error)) {
+        throw error;
+      }
+      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * attempt));
+    }
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * Subnet hierarchy utility functions
+ */
+
+import { FreeBlock } from '../types/index.js';
+import { IpVersion, isIpInSubnet, ipToBigInt, bigIntToIp, generateCidr } from './ipUtils.js';
+
+export interface SubnetPrefix {
+  networkAddress: string;
+  subnetMask: number;
+  ipVersion: IpVersion;
+}
+
+/**
+ * Check if the inner subnet lies entirely within the outer subnet
+ */
+export function isSubnetWithin(inner: SubnetPrefix, outer: SubnetPrefix): boolean {
+  if (inner.ipVersion !== outer.ipVersion) return false;
+  if (inner.subnetMask < outer.subnetMask) return false;
+  return isIpInSubnet(inner.networkAddress, outer.networkAddress, outer.subnetMask, outer.ipVersion);
+}
+
+/**
+ * Check if two subnets share any addresses
+ */
+export function subnetsOverlap(a: SubnetPrefix, b: SubnetPrefix): boolean {
+  return isSubnetWithin(a, b) || isSubnetWithin(b, a);
+}
+
+/**
+ * Find the most specific subnet that contains the candidate (its natural parent)
+ */
+export function findContainingSubnet<T extends SubnetPrefix>(
+  candidate: SubnetPrefix,
+  subnets: T[]
+): T | undefined {
+  let best: T | undefined;
+  for (const subnet of subnets) {
+    if (subnet.subnetMask >= candidate.subnetMask) continue;
+    if (!isSubnetWithin(candidate, subnet)) continue;
+    if (!best || subnet.subnetMask > best.subnetMask) {
+      best = subnet;
+    }
+  }
+  return best;
+}
+
+/**
+ * Find all subnets that overlap the candidate
+ */
+export function findOverlappingSubnets<T extends SubnetPrefix>(
+  candidate: SubnetPrefix,
+  subnets: T[]
+): T[] {
+  return subnets.filter(subnet => subnetsOverlap(candidate, subnet));
+}
+
+export interface AddressRange {
+  start: bigint;
+  end: bigint;
+}
+
+export type AllocationStrategy = 'first-fit' | 'best-fit' | 'last-fit';
+
+/**
+ * Number of address bits for an IP version
+ */
+export function getAddressBits(ipVersion: IpVersion): number {
+  return ipVersion === 'IPv6' ? 128 : 32;
+}
+
+/**
+ * Get the full numeric range of a subnet, including network and broadcast addresses
+ */
+export function getPrefixBounds(prefix: SubnetPrefix): AddressRange {
+  const hostBits = BigInt(getAddressBits(prefix.ipVersion) - prefix.subnetMask);
+  const size = BigInt(1) << hostBits;
+  const start = (ipToBigInt(prefix.networkAddress) >> hostBits) << hostBits;
+  return { start, end: start + size - BigInt(1) };
+}
+
+/**
+ * Subtract the used ranges from the outer range and return what is left, in order.
+ * Used ranges may overlap each other and may extend past the outer range.
+ */
+export function findFreeRanges(outer: AddressRange, used: AddressRange[]): AddressRange[] {
+  const sorted = [...used]
+    .filter(range => range.end >= outer.start && range.start <= outer.end)
+    .sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+
+  const free: AddressRange[] = [];
+  let cursor = outer.start;
+
+  for (const range of sorted) {
+    if (range.start > cursor) {
+      free.push({ start: cursor, end: range.start - BigInt(1) });
+    }
+    if (range.end >= cursor) {
+      cursor = range.end + BigInt(1);
+    }
+    if (cursor > outer.end) {
+      return free;
+    }
+  }
+
+  free.push({ start: cursor, end: outer.end });
+  return free;
+}
+
+/**
+ * Split a numeric range into the smallest set of CIDR blocks that exactly cover it
+ */
+export function rangeToCidrs(range: AddressRange, ipVersion: IpVersion): SubnetPrefix[] {
+  const bits = getAddressBits(ipVersion);
+  const blocks: SubnetPrefix[] = [];
+  let start = range.start;
+
+  while (start <= range.end) {
+    // Largest block aligned at start...
+    let hostBits = 0;
+    while (hostBits < bits && ((start >> BigInt(hostBits)) & BigInt(1)) === BigInt(0)) {
+      hostBits++;
+    }
+    // ...that does not run past the end of the range
+    while (start + (BigInt(1) << BigInt(hostBits)) - BigInt(1) > range.end) {
+      hostBits--;
+    }
+
+    blocks.push({
+      networkAddress: bigIntToIp(start, ipVersion),
+      subnetMask: bits - hostBits,
+      ipVersion,
+    });
+    start += BigInt(1) << BigInt(hostBits);
+  }
+
+  return blocks;
+}
+
+/**
+ * Find a free, aligned block of the given prefix length inside the parent
+ * that does not overlap any of the used ranges.
+ *
+ * - first-fit: lowest available block
+ * - last-fit: highest available block
+ * - best-fit: block carved from the smallest free CIDR that can hold it,
+ *   which keeps larger free blocks intact
+ */
+export function findAvailableBlock(
+  parent: SubnetPrefix,
+  used: AddressRange[],
+  prefixLength: number,
+  strategy: AllocationStrategy = 'first-fit'
+): SubnetPrefix | undefined {
+  const ipVersion = parent.ipVersion;
+  const freeBlocks = findFreeRanges(getPrefixBounds(parent), used)
+    .flatMap(range => rangeToCidrs(range, ipVersion))
+    .filter(block => block.subnetMask <= prefixLength);
+
+  if (freeBlocks.length === 0) return undefined;
+
+  let chosen: SubnetPrefix;
+  let fromEnd = false;
+
+  if (strategy === 'last-fit') {
+    chosen = freeBlocks[freeBlocks.length - 1];
+    fromEnd = true;
+  } else if (strategy === 'best-fit') {
+    chosen = freeBlocks.reduce((best, block) => (block.subnetMask > best.subnetMask ? block : best));
+  } else {
+    chosen = freeBlocks[0];
+  }
+
+  const bounds = getPrefixBounds(chosen);
+  const size = BigInt(1) << BigInt(getAddressBits(ipVersion) - prefixLength);
+  const start = fromEnd ? bounds.end - size + BigInt(1) : bounds.start;
+
+  return {
+    networkAddress: bigIntToIp(start, ipVersion),
+    subnetMask: prefixLength,
+    ipVersion,
+  };
+}
+
+/**
+ * Split a subnet into equal, consecutive subnets of the given prefix length
+ */
+export function splitPrefix(prefix: SubnetPrefix, prefixLength: number): SubnetPrefix[] {
+  const ipVersion = prefix.ipVersion;
+  const bounds = getPrefixBounds(prefix);
+  const size = BigInt(1) << BigInt(getAddressBits(ipVersion) - prefixLength);
+  const parts: SubnetPrefix[] = [];
+
+  for (let start = bounds.start; start <= bounds.end; start += size) {
+    parts.push({
+      networkAddress: bigIntToIp(start, ipVersion),
+      subnetMask: prefixLength,
+      ipVersion,
+    });
+  }
+
+  return parts;
+}
+
+/**
+ * Combine subnets into their aggregate. Returns undefined unless the subnets are
+ * adjacent, non-overlapping and together form exactly one aligned CIDR block.
+ */
+export function aggregatePrefixes(prefixes: SubnetPrefix[]): SubnetPrefix | undefined {
+  if (prefixes.length === 0) return undefined;
+
+  const ipVersion = prefixes[0].ipVersion;
+  if (prefixes.some(prefix => prefix.ipVersion !== ipVersion)) return undefined;
+
+  const bounds = prefixes
+    .map(getPrefixBounds)
+    .sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+
+  for (let i = 1; i < bounds.length; i++) {
+    if (bounds[i].start !== bounds[i - 1].end + BigInt(1)) return undefined;
+  }
+
+  const start = bounds[0].start;
+  const size = bounds[bounds.length - 1].end - start + BigInt(1);
+
+  let hostBits = 0;
+  while ((BigInt(1) << BigInt(hostBits)) < size) {
+    hostBits++;
+  }
+  if ((BigInt(1) << BigInt(hostBits)) !== size || start % size !== BigInt(0)) return undefined;
+
+  return {
+    networkAddress: bigIntToIp(start, ipVersion),
+    subnetMask: getAddressBits(ipVersion) - hostBits,
+    ipVersion,
+  };
+}
+
+/**
+ * Describe a free numeric range for API responses: its bounds, size and covering CIDRs
+ */
+export function toFreeBlock(range: AddressRange, ipVersion: IpVersion): FreeBlock {
+  return {
+    start: bigIntToIp(range.start, ipVersion),
+    end: bigIntToIp(range.end, ipVersion),
+    size: (range.end - range.start + BigInt(1)).toString(),
+    cidrs: rangeToCidrs(range, ipVersion).map(block =>
+      generateCidr(block.networkAddress, block.subnetMask, ipVersion)
+    ),
+  };
+}
+
+/**
+ * Sort ranges and merge any that overlap or touch
+ */
+export function mergeRanges(ranges: AddressRange[]): AddressRange[] {
+  const sorted = [...ranges].sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+  const merged: AddressRange[] = [];
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + BigInt(1)) {
+      if (range.end > last.end) last.end = range.end;
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged;
+}
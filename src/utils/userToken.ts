@@ -0,0 +1,112 @@
+/**
+ * Single-use, expiring tokens sent to users by email
+ *
+ * Only a hash is stored. Issuing a new token for a purpose invalidates the
+ * user's earlier unused ones, so only the latest link works.
+ */
+
+import crypto from 'crypto';
+import { Prisma, UserTokenPurpose } from '@prisma/client';
+
+export type ConsumeTokenResult =
+  | { ok: true; userId: string }
+  | { ok: false; error: string };
+
+function hashUserToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Create a token for a user and return its plain value
+ */
+export async function issueUserToken(
+  db: Prisma.TransactionClient,
+  userId: string,
+  purpose: UserTokenPurpose,
+  ttlMs: number,
+  now: Date = new Date()
+): Promise<{ token: string; expiresAt: Date }> {
+  await db.userToken.updateMany({
+    where: { userId, purpose, usedAt: null },
+    data: { usedAt: now },
+  });
+
+  const token = crypto.randomBytes(32).toString('base64url');
+  const expiresAt = new Date(now.getTime() + ttlMs);
+  await db.userToken.create({
+    data: {
+      userId,
+      purpose,
+      tokenHash: hashUserToken(token),
+      expiresAt,
+    },
+  });
+
+  return { token, expiresAt };
+}
+
+/**
+ * Check a token without using it up; fails if it is unknown, for another purpose, expired or already used
+ */
+export async function findUserToken(
+  db: Prisma.TransactionClient,
+  token: string,
+  purpose: UserTokenPurpose,
+  now: Date = new Date()
+): Promise<ConsumeTokenResult> {
+  const userToken = await db.userToken.findUnique({
+    where: { tokenHash: hashUserToken(token) },
+  });
+
+  if (!userToken || userToken.purpose !== purpose || userToken.usedAt || userToken.expiresAt <= now) {
+    return { ok: false, error: 'Invalid or expired token' };
+  }
+
+  return { ok: true, userId: userToken.userId };
+}
+
+/**
+ * Use up a token; fails like findUserToken, or if a concurrent request used it first
+ */
+export async function consumeUserToken(
+  db: Prisma.TransactionClient,
+  token: string,
+  purpose: UserTokenPurpose,
+  now: Date = new Date()
+): Promise<ConsumeTokenResult> {
+  const found = await findUserToken(db, token, purpose, now);
+  if (!found.ok) {
+    return found;
+  }
+
+  const consumed = await db.userToken.updateMany({
+    where: { tokenHash: hashUserToken(token), usedAt: null },
+    data: { usedAt: now },
+  });
+
+  if (consumed.count === 0) {
+    return { ok: false, error: 'Invalid or expired token' };
+  }
+
+  return found;
+}
+
+/**
+ * Check whether a token for this purpose was issued to the user within the last intervalMs
+ */
+export async function wasTokenIssuedRecently(
+  db: Prisma.TransactionClient,
+  userId: string,
+  purpose: UserTokenPurpose,
+  intervalMs: number,
+  now: Date = new Date()
+): Promise<boolean> {
+  const recent = await db.userToken.findFirst({
+    where: {
+      userId,
+      purpose,
+      createdAt: { gt: new Date(now.getTime() - intervalMs) },
+    },
+  });
+  return recent !== null;
+}
@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import { isValidCidr, isValidIp } from '../utils/ipUtils.js';
+
+// "a,b" becomes ['a', 'b']
+const commaSeparated = z.string().optional().transform(val =>
+  val ? val.split(',').map(item => item.trim()).filter(Boolean) : undefined
+);
+
+export const getAuditLogsQuerySchema = z.object({
+  page: z.string().optional().transform(val => val ? parseInt(val, 10) : 1),
+  limit: z.string().optional().transform(val => val ? parseInt(val, 10) : 50),
+  entityType: z.string().optional(),
+  entityId: z.string().optional(),
+  actor: z.string().optional(), // user id or username
+  action: commaSeparated, // any of these actions
+  field: commaSeparated, // any of these fields changed
+  subnetId: z.string().optional(),
+  subnet: z.string().optional().refine(
+    val => !val || isValidIp(val) || isValidCidr(val),
+    'Must be an IP address or CIDR'
+  ),
+  ipAddressId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  search: z.string().optional(),
+});
+
+export const exportAuditLogsQuerySchema = getAuditLogsQuerySchema
+  .omit({ page: true, limit: true })
+  .extend({
+    format: z.enum(['csv', 'ndjson']).default('ndjson'),
+  });
+
+const auditChainSchema = z.enum(['ip_history', 'audit_logs']);
+
+export const verifyAuditQuerySchema = z.object({
+  chain: auditChainSchema.optional(), // both chains when omitted
+});
+
+export const signedExportQuerySchema = z.object({
+  chain: auditChainSchema,
+  fromSequence: z.string().optional().transform(val => val ? parseInt(val, 10) : 1),
+  toSequence: z.string().optional().transform(val => val ? parseInt(val, 10) : undefined),
+});
+
+export type GetAuditLogsQuery = z.infer<typeof getAuditLogsQuerySchema>;
+export type ExportAuditLogsQuery = z.infer<typeof exportAuditLogsQuerySchema>;
+export type VerifyAuditQuery = z.infer<typeof verifyAuditQuerySchema>;
+export type SignedExportQuery = z.infer<typeof signedExportQuerySchema>;
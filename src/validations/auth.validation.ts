@@ -1,17 +1,99 @@
 import { z } from 'zod';
+import { getPasswordPolicyViolations } from '../utils/passwordPolicy.js';
+
+// A new password, checked against the configured policy (see config/passwordPolicy.ts)
+export const passwordSchema = z.string().superRefine((password, ctx) => {
+  for (const message of getPasswordPolicyViolations(password)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+  }
+});
 
 export const registerSchema = z.object({
   username: z.string().min(3).max(50),
   email: z.string().email(),
-  password: z.string().min(6),
-  role: z.enum(['admin', 'user', 'readonly']).optional().default('user'),
+  password: passwordSchema,
 });
 
 export const loginSchema = z.object({
-  email: z.string().email(),
+  // An email address, or a directory username when LDAP login is enabled
+  email: z.string().min(1),
   password: z.string().min(1),
 });
 
+export const oidcCallbackSchema = z.object({
+  code: z.string().min(1),
+  state: z.string().min(1),
+});
+
+export const emailRequestSchema = z.object({
+  email: z.string().email(),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  newPassword: passwordSchema,
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
+export const createApiTokenSchema = z.object({
+  name: z.string().min(1).max(100),
+  scopes: z.array(z.enum(['read', 'ip-assign', 'admin'])).min(1),
+  expiresAt: z.string().datetime().optional(),
+});
+
+// A second factor is either the current TOTP code or one of the recovery codes
+const secondFactorFields = {
+  code: z.string().min(1).optional(),
+  recoveryCode: z.string().min(1).optional(),
+};
+
+const hasOneSecondFactor = (data: { code?: string; recoveryCode?: string }) =>
+  Boolean(data.code) !== Boolean(data.recoveryCode);
+
+const secondFactorMessage = {
+  message: 'Provide either code or recoveryCode',
+  path: ['code'],
+};
+
+export const mfaVerifySchema = z
+  .object({
+    challengeToken: z.string().min(1),
+    ...secondFactorFields,
+  })
+  .refine(hasOneSecondFactor, secondFactorMessage);
+
+export const mfaCodeSchema = z.object({
+  code: z.string().min(1),
+});
+
+export const mfaDisableSchema = z
+  .object({
+    password: z.string().min(1),
+    ...secondFactorFields,
+  })
+  .refine(hasOneSecondFactor, secondFactorMessage);
+
+export const mfaPolicySchema = z.object({
+  requiredRoles: z.array(z.enum(['admin', 'user', 'readonly'])),
+});
+
 export type RegisterInput = z.infer<typeof registerSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
 
+export type CreateApiTokenInput = z.infer<typeof createApiTokenSchema>;
+export type RefreshTokenInput = z.infer<typeof refreshTokenSchema>;
+export type OidcCallbackInput = z.infer<typeof oidcCallbackSchema>;
+export type EmailRequestInput = z.infer<typeof emailRequestSchema>;
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
+export type VerifyEmailInput = z.infer<typeof verifyEmailSchema>;
+export type MfaVerifyInput = z.infer<typeof mfaVerifySchema>;
+export type MfaCodeInput = z.infer<typeof mfaCodeSchema>;
+export type MfaDisableInput = z.infer<typeof mfaDisableSchema>;
+export type MfaPolicyInput = z.infer<typeof mfaPolicySchema>;
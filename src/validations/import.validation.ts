@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import { isValidCidr, isValidIp } from '../utils/ipUtils.js';
+import { assignIpSchema } from './ipAddress.validation.js';
+
+export const importQuerySchema = z.object({
+  dryRun: z.enum(['true', 'false']).optional().transform(val => val === 'true'),
+  // Existing subnets/addresses are updated from their row, or left alone
+  onExisting: z.enum(['update', 'skip']).default('update'),
+  // mapping[field]=CSV header, for headers that differ from the field names
+  mapping: z.record(z.string()).default({}),
+});
+
+// Subnet rows are checked with createSubnetSchema; IP rows reuse the assign fields
+export const ipAddressImportRowSchema = assignIpSchema
+  .pick({
+    hostname: true,
+    macAddress: true,
+    deviceName: true,
+    assignedTo: true,
+    description: true,
+    status: true,
+  })
+  .extend({
+    ipAddress: z.string().refine(isValidIp, 'Invalid IP address format (must be IPv4 or IPv6)'),
+    subnet: z.string().optional().refine(val => !val || isValidCidr(val), 'Must be a CIDR'),
+  });
+
+export type ImportQuery = z.infer<typeof importQuerySchema>;
+export type IpAddressImportRow = z.infer<typeof ipAddressImportRowSchema>;
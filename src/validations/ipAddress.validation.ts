@@ -6,6 +6,17 @@ const ipAddressValidator = z.string().refine(
   { message: 'Invalid IP address format (must be IPv4 or IPv6)' }
 ).optional();
 
+const ipRangeSchema = z.object({
+  startIp: z.string().refine(
+    (ip) => isValidIpv4(ip) || isValidIpv6(ip),
+    { message: 'Invalid IP address format (must be IPv4 or IPv6)' }
+  ),
+  endIp: z.string().refine(
+    (ip) => isValidIpv4(ip) || isValidIpv6(ip),
+    { message: 'Invalid IP address format (must be IPv4 or IPv6)' }
+  ),
+});
+
 export const assignIpSchema = z.object({
   subnetId: z.string(),
   ipAddress: ipAddressValidator,
@@ -13,8 +24,12 @@ export const assignIpSchema = z.object({
   macAddress: z.string().regex(/^([0-9A-Fa-f]{2}[:-]){5}([0-9A-Fa-f]{2})$/).optional(),
   deviceName: z.string().optional(),
   assignedTo: z.string().optional(),
+  assignedUserId: z.string().nullable().optional(),
+  assignedTeamId: z.string().nullable().optional(),
   description: z.string().optional(),
   status: z.enum(['AVAILABLE', 'RESERVED', 'ASSIGNED', 'DHCP', 'STATIC']).optional(),
+  allocation: z.enum(['sequential', 'random', 'eui64']).optional(),
+  excludeRanges: z.array(ipRangeSchema).optional(),
 });
 
 export const updateIpSchema = z.object({
@@ -22,6 +37,8 @@ export const updateIpSchema = z.object({
   macAddress: z.string().regex(/^([0-9A-Fa-f]{2}[:-]){5}([0-9A-Fa-f]{2})$/).optional(),
   deviceName: z.string().optional(),
   assignedTo: z.string().optional(),
+  assignedUserId: z.string().nullable().optional(),
+  assignedTeamId: z.string().nullable().optional(),
   description: z.string().optional(),
   status: z.enum(['AVAILABLE', 'RESERVED', 'ASSIGNED', 'DHCP', 'STATIC']).optional(),
 });
@@ -34,7 +51,35 @@ export const getIpAddressesQuerySchema = z.object({
   subnetId: z.string().optional(),
 });
 
+export const bulkIpOperationSchema = z.discriminatedUnion('action', [
+  assignIpSchema.extend({
+    action: z.literal('assign'),
+  }),
+  updateIpSchema.extend({
+    action: z.literal('update'),
+    id: z.string().optional(),
+    ipAddress: z.string().optional(),
+  }),
+  z.object({
+    action: z.literal('release'),
+    id: z.string().optional(),
+    ipAddress: z.string().optional(),
+  }),
+]);
+
+export const bulkIpOperationsSchema = z.object({
+  mode: z.enum(['atomic', 'best-effort']).optional().default('atomic'),
+  operations: z.array(bulkIpOperationSchema).min(1),
+});
+
+export const ipAddressAtQuerySchema = z.object({
+  timestamp: z.coerce.date(),
+});
+
 export type AssignIpInput = z.infer<typeof assignIpSchema>;
 export type UpdateIpInput = z.infer<typeof updateIpSchema>;
 export type GetIpAddressesQuery = z.infer<typeof getIpAddressesQuerySchema>;
+export type BulkIpOperation = z.infer<typeof bulkIpOperationSchema>;
+export type BulkIpOperationsInput = z.infer<typeof bulkIpOperationsSchema>;
+export type IpAddressAtQuery = z.infer<typeof ipAddressAtQuerySchema>;
 
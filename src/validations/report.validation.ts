@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+export const getHoldingsQuerySchema = z.object({
+  teamId: z.string().optional(),
+  userId: z.string().optional(),
+}).refine(
+  (data) => (data.teamId === undefined) !== (data.userId === undefined),
+  { message: 'Provide either teamId or userId', path: ['teamId'] }
+);
+
+export type GetHoldingsQuery = z.infer<typeof getHoldingsQuerySchema>;
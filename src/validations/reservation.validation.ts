@@ -6,6 +6,8 @@ export const createReservationSchema = z.object({
   endIp: z.string().regex(/^(\d{1,3}\.){3}\d{1,3}$/, 'Invalid IP address format'),
   purpose: z.string().optional(),
   reservedBy: z.string().optional(),
+  reservedByUserId: z.string().nullable().optional(),
+  reservedByTeamId: z.string().nullable().optional(),
   expiresAt: z.string().datetime().optional(),
 });
 
@@ -31,10 +31,16 @@ export const createSubnetSchema = baseSubnetSchema.refine(
   { message: 'Subnet mask must be 0-32 for IPv4 or 0-128 for IPv6', path: ['subnetMask'] }
 );
 
-export const updateSubnetSchema = baseSubnetSchema.partial().refine(
-  subnetMaskRefine,
-  { message: 'Subnet mask must be 0-32 for IPv4 or 0-128 for IPv6', path: ['subnetMask'] }
-);
+export const updateSubnetSchema = baseSubnetSchema
+  .partial()
+  .extend({
+    // null places the subnet automatically: under its most specific containing subnet, or at the root
+    parentSubnetId: z.string().min(1).nullable().optional(),
+  })
+  .refine(
+    subnetMaskRefine,
+    { message: 'Subnet mask must be 0-32 for IPv4 or 0-128 for IPv6', path: ['subnetMask'] }
+  );
 
 export const getSubnetsQuerySchema = z.object({
   page: z.string().optional().transform(val => val ? parseInt(val, 10) : 1),
@@ -44,7 +50,54 @@ export const getSubnetsQuerySchema = z.object({
   vlanId: z.string().optional().transform(val => val ? parseInt(val, 10) : undefined),
 });
 
+export const getSubnetTreeQuerySchema = z.object({
+  rootId: z.string().optional(),
+  ipVersion: z.enum(['IPv4', 'IPv6']).optional(),
+});
+
+export const allocateChildSubnetSchema = z.object({
+  prefixLength: z.number().int().min(0).max(128),
+  strategy: z.enum(['first-fit', 'best-fit', 'last-fit']).optional().default('first-fit'),
+  description: z.string().optional(),
+  vlanId: z.number().int().positive().optional(),
+  location: z.string().optional(),
+});
+
+export const splitSubnetSchema = z.object({
+  prefixLength: z.number().int().min(1).max(128).optional(),
+  count: z.number().int().min(2).optional(),
+}).refine(
+  (data) => (data.prefixLength === undefined) !== (data.count === undefined),
+  { message: 'Provide either prefixLength or count', path: ['prefixLength'] }
+);
+
+export const mergeSubnetsSchema = z.object({
+  subnetIds: z.array(z.string()).min(2),
+  description: z.string().optional(),
+  vlanId: z.number().int().positive().optional(),
+  location: z.string().optional(),
+});
+
+export const subnetAccessSchema = z.object({
+  userId: z.string().optional(),
+  teamId: z.string().optional(),
+  level: z.enum(['VIEW', 'ASSIGN', 'RESERVE', 'ADMIN']),
+}).refine(
+  (data) => (data.userId === undefined) !== (data.teamId === undefined),
+  { message: 'Provide either userId or teamId', path: ['userId'] }
+);
+
+export const subnetSnapshotQuerySchema = z.object({
+  at: z.coerce.date(),
+});
+
 export type CreateSubnetInput = z.infer<typeof createSubnetSchema>;
 export type UpdateSubnetInput = z.infer<typeof updateSubnetSchema>;
 export type GetSubnetsQuery = z.infer<typeof getSubnetsQuerySchema>;
+export type GetSubnetTreeQuery = z.infer<typeof getSubnetTreeQuerySchema>;
+export type AllocateChildSubnetInput = z.infer<typeof allocateChildSubnetSchema>;
+export type SplitSubnetInput = z.infer<typeof splitSubnetSchema>;
+export type MergeSubnetsInput = z.infer<typeof mergeSubnetsSchema>;
+export type SubnetAccessInput = z.infer<typeof subnetAccessSchema>;
+export type SubnetSnapshotQuery = z.infer<typeof subnetSnapshotQuerySchema>;
 
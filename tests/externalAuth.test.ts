@@ -0,0 +1,434 @@
+/**
+ * LDAP and OpenID Connect sign-in against local stand-ins for the directory and
+ * the identity provider. Provisioning of the signed-in users needs a database
+ * and runs only when DATABASE_URL points at a migrated PostgreSQL database.
+ */
+
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import http from 'node:http';
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+import ldap from 'ldapjs';
+import { Prisma, PrismaClient } from '@prisma/client';
+
+const RUN = `${Date.now().toString(36)}${crypto.randomBytes(3).toString('hex')}`;
+
+const ADMIN_GROUP = 'cn=ipam-admins,ou=groups,dc=example,dc=com';
+const USER_GROUP = 'cn=ipam-users,ou=groups,dc=example,dc=com';
+
+// --- Directory stand-in ---
+
+const SERVICE_DN = 'cn=service,dc=example,dc=com';
+const SERVICE_PASSWORD = 'service-secret';
+
+interface DirectoryEntry {
+  dn: string;
+  password: string;
+  attributes: Record<string, string | string[]>;
+}
+
+const person = (uid: string, memberOf: string[] = []): DirectoryEntry => ({
+  dn: `uid=${uid},ou=people,dc=example,dc=com`,
+  password: `${uid}-password`,
+  attributes: {
+    objectclass: 'inetOrgPerson',
+    uid,
+    mail: `${uid}-${RUN}@example.com`,
+    ...(memberOf.length > 0 ? { memberOf } : {}),
+  },
+});
+
+// alice lists her groups in memberOf; bob's are found by a group search; carol and hank are in no group
+const people = [person('alice', [ADMIN_GROUP]), person('bob'), person('carol'), person('hank')];
+const groups: DirectoryEntry[] = [
+  {
+    dn: USER_GROUP,
+    password: '',
+    attributes: { objectclass: 'groupOfNames', cn: 'ipam-users', member: [people[1].dn] },
+  },
+];
+
+// The parts of ldapjs requests and responses the handlers use (its typings leave handlers untyped)
+type Next = (error?: unknown) => void;
+interface LdapResponse {
+  attributes: string[];
+  send(entry: { dn: string; attributes: DirectoryEntry['attributes'] }): void;
+  end(): void;
+}
+
+const sameDn = (a: { toString(): string }, b: string) =>
+  a.toString().replace(/\s/g, '').toLowerCase() === b.toLowerCase();
+
+const directory = ldap.createServer();
+
+directory.bind('dc=example,dc=com', (req: { dn: { toString(): string }; credentials: string }, res: LdapResponse, next: Next) => {
+  const password = req.credentials;
+  const valid = sameDn(req.dn, SERVICE_DN)
+    ? password === SERVICE_PASSWORD
+    : people.some(entry => sameDn(req.dn, entry.dn) && entry.password === password);
+  if (!valid) {
+    return next(new ldap.InvalidCredentialsError());
+  }
+  res.end();
+  return next();
+});
+
+function searchHandler(entries: DirectoryEntry[]) {
+  return (req: ldap.SearchRequest, res: LdapResponse, next: Next) => {
+    // ldapjs compares requested attribute names to lowercased entry attribute names
+    res.attributes = res.attributes.map(attribute => attribute.toLowerCase());
+    for (const entry of entries) {
+      if (req.filter.matches(entry.attributes, false)) {
+        res.send({ dn: entry.dn, attributes: entry.attributes });
+      }
+    }
+    res.end();
+    return next();
+  };
+}
+
+directory.search('ou=people,dc=example,dc=com', searchHandler(people));
+directory.search('ou=groups,dc=example,dc=com', searchHandler(groups));
+
+await new Promise<void>(resolve => directory.listen(0, '127.0.0.1', () => resolve()));
+
+// --- Identity provider stand-in ---
+
+const CLIENT_ID = 'ipam';
+const CLIENT_SECRET = 'ipam-secret';
+const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const KEY_ID = 'test-key';
+
+interface PendingCode {
+  nonce: string;
+  codeChallenge: string;
+  claims: Record<string, unknown>;
+}
+
+const codes = new Map<string, PendingCode>();
+const accessTokens = new Map<string, Record<string, unknown>>();
+
+const base64url = (value: Buffer | string) => Buffer.from(value).toString('base64url');
+
+function signIdToken(claims: Record<string, unknown>): string {
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: KEY_ID }));
+  const payload = base64url(JSON.stringify(claims));
+  const signature = crypto.sign('sha256', Buffer.from(`${header}.${payload}`), privateKey);
+  return `${header}.${payload}.${base64url(signature)}`;
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req: http.IncomingMessage): Promise<URLSearchParams> {
+  let body = '';
+  for await (const chunk of req) body += chunk;
+  return new URLSearchParams(body);
+}
+
+const provider = http.createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', issuer);
+
+  if (url.pathname === '/oidc/.well-known/openid-configuration') {
+    return sendJson(res, 200, {
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      userinfo_endpoint: `${issuer}/userinfo`,
+      jwks_uri: `${issuer}/jwks`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      code_challenge_methods_supported: ['S256'],
+      token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+    });
+  }
+
+  if (url.pathname === '/oidc/jwks') {
+    return sendJson(res, 200, { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' }] });
+  }
+
+  if (url.pathname === '/oidc/token' && req.method === 'POST') {
+    const params = await readBody(req);
+    const basic = req.headers.authorization?.replace(/^Basic /, '');
+    const [clientId, clientSecret] = basic
+      ? Buffer.from(basic, 'base64').toString().split(':').map(decodeURIComponent)
+      : [params.get('client_id'), params.get('client_secret')];
+    const pending = codes.get(params.get('code') ?? '');
+    codes.delete(params.get('code') ?? '');
+
+    const challenge = base64url(crypto.createHash('sha256').update(params.get('code_verifier') ?? '').digest());
+    if (clientId !== CLIENT_ID || clientSecret !== CLIENT_SECRET || !pending || challenge !== pending.codeChallenge) {
+      return sendJson(res, 400, { error: 'invalid_grant' });
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const accessToken = crypto.randomBytes(16).toString('hex');
+    accessTokens.set(accessToken, pending.claims);
+    return sendJson(res, 200, {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: 300,
+      id_token: signIdToken({ iss: issuer, aud: CLIENT_ID, iat: now, exp: now + 300, nonce: pending.nonce, ...pending.claims }),
+    });
+  }
+
+  if (url.pathname === '/oidc/userinfo') {
+    const claims = accessTokens.get(req.headers.authorization?.replace(/^Bearer /, '') ?? '');
+    return claims ? sendJson(res, 200, claims) : sendJson(res, 401, { error: 'invalid_token' });
+  }
+
+  sendJson(res, 404, { error: 'not_found' });
+});
+
+provider.listen(0, '127.0.0.1');
+await once(provider, 'listening');
+const issuer = `http://127.0.0.1:${(provider.address() as AddressInfo).port}/oidc`;
+
+/**
+ * What the browser does between startOidcLogin and the callback: the user signs
+ * in at the provider, which redirects back with a code
+ */
+function signInAtProvider(authorizationUrl: string, claims: Record<string, unknown>): { code: string; state: string } {
+  const params = new URL(authorizationUrl).searchParams;
+  assert.equal(params.get('client_id'), CLIENT_ID);
+  assert.equal(params.get('code_challenge_method'), 'S256');
+
+  const code = crypto.randomBytes(16).toString('hex');
+  codes.set(code, { nonce: params.get('nonce')!, codeChallenge: params.get('code_challenge')!, claims });
+  return { code, state: params.get('state')! };
+}
+
+// Pending OIDC logins, kept in memory
+function loginStateDb() {
+  const states = new Map<string, { state: string; nonce: string; codeVerifier: string; expiresAt: Date }>();
+  const db = {
+    oidcLoginState: {
+      async create({ data }: { data: { state: string; nonce: string; codeVerifier: string; expiresAt: Date } }) {
+        states.set(data.state, data);
+        return data;
+      },
+      async findUnique({ where }: { where: { state: string } }) {
+        return states.get(where.state) ?? null;
+      },
+      async deleteMany({ where }: { where: { state?: string; expiresAt?: { lt: Date } } }) {
+        let count = 0;
+        for (const [state, pending] of states) {
+          if (where.state === state || (where.expiresAt && pending.expiresAt < where.expiresAt.lt)) {
+            states.delete(state);
+            count++;
+          }
+        }
+        return { count };
+      },
+    },
+  };
+  return db as unknown as Prisma.TransactionClient;
+}
+
+// --- Configuration, read by the modules when they are first imported ---
+
+process.env.LDAP_URL = directory.url;
+process.env.LDAP_BIND_DN = SERVICE_DN;
+process.env.LDAP_BIND_PASSWORD = SERVICE_PASSWORD;
+process.env.LDAP_USER_BASE_DN = 'ou=people,dc=example,dc=com';
+process.env.LDAP_GROUP_BASE_DN = 'ou=groups,dc=example,dc=com';
+process.env.OIDC_ISSUER_URL = issuer;
+process.env.OIDC_CLIENT_ID = CLIENT_ID;
+process.env.OIDC_CLIENT_SECRET = CLIENT_SECRET;
+process.env.OIDC_ALLOW_INSECURE_HTTP = 'true';
+process.env.AUTH_GROUP_ROLE_MAPPING = JSON.stringify({ [ADMIN_GROUP]: 'admin', 'ipam-users': 'user' });
+process.env.AUTH_DEFAULT_ROLE = 'readonly';
+
+const { ldapAuthenticate } = await import('../src/utils/ldapAuth.js');
+const { startOidcLogin, completeOidcLogin } = await import('../src/utils/oidcAuth.js');
+const { mapGroupsToRole, provisionExternalUser } = await import('../src/utils/externalUsers.js');
+
+after(() => {
+  directory.close(() => undefined);
+  provider.close();
+});
+
+async function ldapProfile(login: string, password: string) {
+  const result = await ldapAuthenticate(login, password);
+  assert.ok(result.ok, `LDAP login of ${login} failed`);
+  return result.profile;
+}
+
+async function oidcProfile(claims: Record<string, unknown>) {
+  const db = loginStateDb();
+  const { authorizationUrl } = await startOidcLogin(db);
+  const result = await completeOidcLogin(db, signInAtProvider(authorizationUrl, claims));
+  assert.ok(result.ok, 'OpenID Connect login failed');
+  return result.profile;
+}
+
+describe('mapGroupsToRole', () => {
+  test('maps groups case-insensitively to the most privileged role', () => {
+    assert.equal(mapGroupsToRole([ADMIN_GROUP.toUpperCase()]), 'admin');
+    assert.equal(mapGroupsToRole(['ipam-users', ADMIN_GROUP]), 'admin');
+    assert.equal(mapGroupsToRole(['IPAM-Users']), 'user');
+    assert.equal(mapGroupsToRole(['other']), undefined);
+  });
+});
+
+describe('LDAP sign-in', () => {
+  test('binds as the user and reads groups from memberOf', async () => {
+    const profile = await ldapProfile('alice', 'alice-password');
+    assert.equal(profile.provider, 'ldap');
+    assert.equal(profile.externalId, people[0].dn);
+    assert.equal(profile.username, 'alice');
+    assert.equal(profile.email, `alice-${RUN}@example.com`);
+    assert.deepEqual(profile.groups, [ADMIN_GROUP]);
+    assert.equal(mapGroupsToRole(profile.groups), 'admin');
+  });
+
+  test('accepts the email address as the login', async () => {
+    const profile = await ldapProfile(`alice-${RUN}@example.com`, 'alice-password');
+    assert.equal(profile.externalId, people[0].dn);
+  });
+
+  test('searches for groups when the entry has no memberOf', async () => {
+    const profile = await ldapProfile('bob', 'bob-password');
+    assert.ok(profile.groups.includes('ipam-users'));
+    assert.equal(mapGroupsToRole(profile.groups), 'user');
+  });
+
+  test('rejects a wrong password, an unknown login and an empty password', async () => {
+    assert.deepEqual(await ldapAuthenticate('alice', 'wrong'), { ok: false, reason: 'invalid' });
+    assert.deepEqual(await ldapAuthenticate('nobody', 'nobody-password'), { ok: false, reason: 'invalid' });
+    assert.deepEqual(await ldapAuthenticate('alice', ''), { ok: false, reason: 'invalid' });
+  });
+
+  test('escapes the login in the search filter', async () => {
+    assert.deepEqual(await ldapAuthenticate('*', 'alice-password'), { ok: false, reason: 'invalid' });
+  });
+});
+
+describe('OpenID Connect sign-in', () => {
+  test('returns the verified ID token claims as the profile', async () => {
+    const profile = await oidcProfile({
+      sub: `dana-${RUN}`,
+      email: `dana-${RUN}@example.com`,
+      email_verified: true,
+      preferred_username: 'dana',
+      groups: ['ipam-users'],
+    });
+    assert.deepEqual(profile, {
+      provider: 'oidc',
+      externalId: `dana-${RUN}`,
+      username: 'dana',
+      email: `dana-${RUN}@example.com`,
+      emailVerified: true,
+      groups: ['ipam-users'],
+    });
+    assert.equal(mapGroupsToRole(profile.groups), 'user');
+  });
+
+  test('rejects a state that was already used', async () => {
+    const db = loginStateDb();
+    const { authorizationUrl } = await startOidcLogin(db);
+    const params = signInAtProvider(authorizationUrl, { sub: `erin-${RUN}` });
+    assert.ok((await completeOidcLogin(db, params)).ok);
+    assert.equal((await completeOidcLogin(db, params)).ok, false);
+  });
+
+  test('rejects a code the provider does not accept', async () => {
+    const db = loginStateDb();
+    const { authorizationUrl } = await startOidcLogin(db);
+    const { state } = signInAtProvider(authorizationUrl, { sub: `erin-${RUN}` });
+    const result = await completeOidcLogin(db, { code: 'forged', state });
+    assert.deepEqual(result, { ok: false, error: 'OpenID Connect login failed' });
+  });
+});
+
+describe('just-in-time provisioning', { skip: !process.env.DATABASE_URL && 'DATABASE_URL is not set' }, () => {
+  const prisma = new PrismaClient();
+  const emails = ['alice', 'bob', 'carol', 'dana', 'frank', 'gina', 'hank', 'ivan'].map(name => `${name}-${RUN}@example.com`);
+
+  after(async () => {
+    await prisma.user.deleteMany({ where: { email: { in: emails } } });
+    await prisma.$disconnect();
+  });
+
+  test('creates LDAP users with the role of their groups', async () => {
+    const expected = { alice: 'admin', bob: 'user', carol: 'readonly' };
+    for (const [login, role] of Object.entries(expected)) {
+      const result = await provisionExternalUser(prisma, await ldapProfile(login, `${login}-password`));
+      assert.ok(result.ok);
+      assert.equal(result.user.role, role);
+      assert.equal(result.user.authProvider, 'ldap');
+      assert.equal(result.user.externalId, `uid=${login},ou=people,dc=example,dc=com`);
+    }
+  });
+
+  test('finds the same user on the next sign-in and applies group changes', async () => {
+    const profile = await oidcProfile({ sub: `dana-${RUN}`, email: emails[3], email_verified: true, groups: ['ipam-users'] });
+    const first = await provisionExternalUser(prisma, profile);
+    assert.ok(first.ok);
+    assert.equal(first.user.role, 'user');
+
+    const promoted = await oidcProfile({ sub: `dana-${RUN}`, email: emails[3], email_verified: true, groups: [ADMIN_GROUP] });
+    const second = await provisionExternalUser(prisma, promoted);
+    assert.ok(second.ok);
+    assert.equal(second.user.id, first.user.id);
+    assert.equal(second.user.role, 'admin');
+
+    const removed = await oidcProfile({ sub: `dana-${RUN}`, email: emails[3], email_verified: true, groups: [] });
+    const third = await provisionExternalUser(prisma, removed);
+    assert.ok(third.ok);
+    assert.equal(third.user.role, 'readonly');
+  });
+
+  test('links an existing local account with a verified email address', async () => {
+    const local = await prisma.user.create({
+      data: { username: `frank-${RUN}`, email: emails[4], passwordHash: 'unused', role: 'user' },
+    });
+
+    const result = await provisionExternalUser(
+      prisma,
+      await oidcProfile({ sub: `frank-${RUN}`, email: emails[4], email_verified: true, groups: [] })
+    );
+    assert.ok(result.ok);
+    assert.equal(result.user.id, local.id);
+    assert.equal(result.user.authProvider, 'oidc');
+    assert.equal(result.user.externalId, `frank-${RUN}`);
+  });
+
+  test('refuses to link an account when the email address is not verified', async () => {
+    await prisma.user.create({
+      data: { username: `gina-${RUN}`, email: emails[5], passwordHash: 'unused', role: 'user' },
+    });
+
+    const result = await provisionExternalUser(
+      prisma,
+      await oidcProfile({ sub: `gina-${RUN}`, email: emails[5], email_verified: false, groups: [] })
+    );
+    assert.deepEqual(result, { ok: false, status: 409, error: 'An account with this email address already exists' });
+  });
+
+  test('refuses to link an account when the provider does not say the email address is verified', async () => {
+    await prisma.user.create({
+      data: { username: `ivan-${RUN}`, email: emails[7], passwordHash: 'unused', role: 'admin' },
+    });
+
+    const result = await provisionExternalUser(
+      prisma,
+      await oidcProfile({ sub: `ivan-${RUN}`, email: emails[7], groups: [] })
+    );
+    assert.deepEqual(result, { ok: false, status: 409, error: 'An account with this email address already exists' });
+  });
+
+  test('refuses to link an account to an LDAP user unless directory addresses are trusted', async () => {
+    await prisma.user.create({
+      data: { username: `hank-${RUN}`, email: emails[6], passwordHash: 'unused', role: 'admin' },
+    });
+
+    const result = await provisionExternalUser(prisma, await ldapProfile('hank', 'hank-password'));
+    assert.deepEqual(result, { ok: false, status: 409, error: 'An account with this email address already exists' });
+  });
+});
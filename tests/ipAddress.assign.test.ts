@@ -0,0 +1,106 @@
+/**
+ * Concurrent IP assignment against a real database. Runs only when
+ * DATABASE_URL points at a migrated PostgreSQL database.
+ */
+
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+
+const CONCURRENT_REQUESTS = 8;
+
+describe('POST /api/ip-addresses/assign', { skip: !process.env.DATABASE_URL && 'DATABASE_URL is not set' }, () => {
+  let app: typeof import('../src/index.js');
+  let baseUrl: string;
+  let token: string;
+  let userId: string;
+  let subnetId: string;
+
+  const assign = (body: Record<string, unknown>) =>
+    fetch(`${baseUrl}/api/ip-addresses/assign`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ subnetId, ...body }),
+    });
+
+  before(async () => {
+    process.env.PORT = '0';
+    process.env.JWT_SECRET ??= 'test-secret';
+    app = await import('../src/index.js');
+    if (!app.server.listening) {
+      await once(app.server, 'listening');
+    }
+    baseUrl = `http://127.0.0.1:${(app.server.address() as AddressInfo).port}`;
+
+    const { createSession } = await import('../src/utils/session.js');
+    const suffix = `${Date.now()}${Math.floor(Math.random() * 1000)}`;
+    const user = await app.prisma.user.create({
+      data: {
+        username: `assign-test-${suffix}`,
+        email: `assign-test-${suffix}@example.com`,
+        passwordHash: 'unused',
+        role: 'admin',
+      },
+    });
+    userId = user.id;
+    ({ token } = await createSession(app.prisma, user));
+
+    // A /27 in 10.0.0.0/8 that other data is unlikely to use
+    const networkAddress = `10.${Math.floor(Math.random() * 256)}.${Math.floor(Math.random() * 256)}.${Math.floor(Math.random() * 8) * 32}`;
+    const subnet = await app.prisma.subnet.create({
+      data: {
+        networkAddress,
+        subnetMask: 27,
+        ipVersion: 'IPv4',
+        cidr: `${networkAddress}/27`,
+        description: 'Concurrent assignment test',
+      },
+    });
+    subnetId = subnet.id;
+  });
+
+  after(async () => {
+    if (!app) {
+      return;
+    }
+    await app.prisma.subnet.deleteMany({ where: { id: subnetId } });
+    await app.prisma.user.deleteMany({ where: { id: userId } });
+    await app.prisma.$disconnect();
+    app.server.close();
+  });
+
+  test('concurrent automatic assignments each get a distinct address', async () => {
+    const responses = await Promise.all(
+      Array.from({ length: CONCURRENT_REQUESTS }, (_, index) => assign({ hostname: `host-${index}` }))
+    );
+
+    assert.deepEqual(responses.map(response => response.status), Array(CONCURRENT_REQUESTS).fill(201));
+    const addresses = await Promise.all(responses.map(async response => (await response.json()).data.ipAddress));
+    assert.equal(new Set(addresses).size, CONCURRENT_REQUESTS);
+  });
+
+  test('concurrent requests for the same address assign it once', async () => {
+    const free = await assign({});
+    assert.equal(free.status, 201);
+    const { data } = await free.json();
+    await app.prisma.ipAddress.update({ where: { id: data.id }, data: { status: 'AVAILABLE' } });
+
+    const responses = await Promise.all(
+      Array.from({ length: CONCURRENT_REQUESTS }, () => assign({ ipAddress: data.ipAddress }))
+    );
+
+    const statuses = responses.map(response => response.status).sort();
+    assert.deepEqual(statuses, [201, ...Array(CONCURRENT_REQUESTS - 1).fill(409)]);
+  });
+
+  test('assigning an address that is already assigned returns 409', async () => {
+    const first = await assign({});
+    assert.equal(first.status, 201);
+    const { data } = await first.json();
+
+    const second = await assign({ ipAddress: data.ipAddress });
+    assert.equal(second.status, 409);
+    assert.equal((await second.json()).success, false);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Login attempt counting against an in-memory login_throttles table
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LoginThrottle, Prisma } from '@prisma/client';
+import { LOGIN_THROTTLE } from '../src/config/loginThrottle.js';
+import {
+  getLoginAttemptInfo,
+  releaseLoginAttempt,
+  reserveLoginAttempt,
+} from '../src/utils/loginThrottle.js';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+const EMAIL = 'someone@example.com';
+
+type Condition = number | Date | null | { gt: number };
+type ThrottleWhere = { key: string } & Partial<Record<keyof LoginThrottle, Condition>>;
+
+const same = (value: unknown, condition: Condition) => {
+  if (condition instanceof Date) return value instanceof Date && value.getTime() === condition.getTime();
+  if (condition !== null && typeof condition === 'object') return typeof value === 'number' && value > condition.gt;
+  return value === condition;
+};
+
+/**
+ * A stand-in for the login_throttles table supporting the queries the throttle makes.
+ * Each query yields first, so concurrent attempts interleave between queries.
+ */
+function fakeDb() {
+  const rows = new Map<string, LoginThrottle>();
+  const tick = () => new Promise(resolve => setImmediate(resolve));
+
+  const db = {
+    loginThrottle: {
+      async findUnique({ where }: { where: { key: string } }) {
+        await tick();
+        const row = rows.get(where.key);
+        return row ? { ...row } : null;
+      },
+      async create({ data }: { data: Partial<LoginThrottle> & { key: string } }) {
+        await tick();
+        if (rows.has(data.key)) {
+          throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' });
+        }
+        rows.set(data.key, {
+          id: data.key,
+          failedAttempts: 0,
+          lastFailedAt: null,
+          nextAttemptAt: null,
+          lockedUntil: null,
+          updatedAt: NOW,
+          ...data,
+        });
+      },
+      async updateMany({ where, data }: { where: ThrottleWhere; data: Record<string, unknown> }) {
+        await tick();
+        const row = rows.get(where.key);
+        const conditions = Object.entries(where).filter(([field]) => field !== 'key') as [keyof LoginThrottle, Condition][];
+        if (!row || !conditions.every(([field, condition]) => same(row[field], condition))) {
+          return { count: 0 };
+        }
+        for (const [field, value] of Object.entries(data)) {
+          const decrement = (value as { decrement?: number } | null)?.decrement;
+          Object.assign(row, { [field]: decrement === undefined ? value : row.failedAttempts - decrement });
+        }
+        return { count: 1 };
+      },
+    },
+  };
+  return db as unknown as Prisma.TransactionClient;
+}
+
+const later = (ms: number) => new Date(NOW.getTime() + ms);
+
+describe('reserveLoginAttempt', () => {
+  test('lets one of a parallel burst of attempts through', async () => {
+    const db = fakeDb();
+    const checks = await Promise.all(
+      Array.from({ length: 10 }, () => reserveLoginAttempt(db, EMAIL, '192.0.2.1', NOW))
+    );
+
+    assert.equal(checks.filter(check => check.allowed).length, 1);
+    assert.equal((await getLoginAttemptInfo(db, EMAIL, NOW)).failedAttempts, 1);
+  });
+
+  test('delays attempts progressively and locks the account at the limit', async () => {
+    const db = fakeDb();
+    let elapsed = 0;
+    let lockedAt = 0;
+    for (let attempt = 1; attempt <= LOGIN_THROTTLE.maxAccountAttempts; attempt++) {
+      assert.equal((await reserveLoginAttempt(db, EMAIL, undefined, later(elapsed))).allowed, true);
+      lockedAt = elapsed;
+      const delayMs = Math.min(LOGIN_THROTTLE.baseDelayMs * 2 ** (attempt - 1), LOGIN_THROTTLE.maxDelayMs);
+      assert.equal((await reserveLoginAttempt(db, EMAIL, undefined, later(elapsed + delayMs - 1))).allowed, false);
+      elapsed += delayMs;
+    }
+
+    assert.deepEqual(await reserveLoginAttempt(db, EMAIL, undefined, later(elapsed)), {
+      allowed: false,
+      error: 'Account temporarily locked after too many failed login attempts',
+      retryAfterSeconds: Math.ceil((lockedAt + LOGIN_THROTTLE.lockoutMinutes * 60 * 1000 - elapsed) / 1000),
+    });
+  });
+
+  test('takes back an attempt that is released', async () => {
+    const db = fakeDb();
+    const check = await reserveLoginAttempt(db, EMAIL, '192.0.2.1', NOW);
+    assert.ok(check.allowed);
+
+    await releaseLoginAttempt(db, check.attempt);
+    assert.equal((await getLoginAttemptInfo(db, EMAIL, NOW)).failedAttempts, 0);
+    assert.equal((await reserveLoginAttempt(db, EMAIL, '192.0.2.1', NOW)).allowed, true);
+  });
+
+  test('takes back the account attempt when the client IP is locked out', async () => {
+    const db = fakeDb();
+    let elapsed = 0;
+    for (let attempt = 0; attempt < LOGIN_THROTTLE.maxIpAttempts; attempt++) {
+      assert.equal((await reserveLoginAttempt(db, `user${attempt}@example.com`, '192.0.2.1', later(elapsed))).allowed, true);
+      elapsed += LOGIN_THROTTLE.maxDelayMs;
+    }
+
+    const refused = await reserveLoginAttempt(db, EMAIL, '192.0.2.1', later(elapsed));
+    assert.equal(refused.allowed, false);
+    assert.equal((await getLoginAttemptInfo(db, EMAIL, later(elapsed))).failedAttempts, 0);
+  });
+});
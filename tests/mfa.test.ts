@@ -0,0 +1,175 @@
+/**
+ * TOTP and second-factor checks against a fixed clock
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Prisma } from '@prisma/client';
+import {
+  base32Encode,
+  generateHotp,
+  generateTotp,
+  getTimeStep,
+  verifyTotp,
+  TOTP_STEP_SECONDS,
+} from '../src/utils/totp.js';
+import { MfaUser, generateRecoveryCodes, verifySecondFactor } from '../src/utils/mfa.js';
+
+// The RFC 6238 test secret
+const SECRET = base32Encode(Buffer.from('12345678901234567890'));
+const NOW = new Date('2026-03-01T12:00:10Z');
+const STEP = getTimeStep(NOW);
+
+const atStep = (step: number) => new Date(step * TOTP_STEP_SECONDS * 1000);
+
+type UserWhere = {
+  id: string;
+  OR?: { mfaLastUsedStep: null | { lt: number } }[];
+  mfaRecoveryCodes?: { has: string };
+};
+
+/**
+ * A stand-in for the users table holding one user, supporting the conditional
+ * updates verifySecondFactor makes
+ */
+function fakeDb(stored: MfaUser) {
+  const matches = (where: UserWhere) =>
+    where.id === stored.id &&
+    (!where.OR ||
+      where.OR.some(({ mfaLastUsedStep }) =>
+        mfaLastUsedStep === null
+          ? stored.mfaLastUsedStep === null
+          : stored.mfaLastUsedStep !== null && stored.mfaLastUsedStep < mfaLastUsedStep.lt
+      )) &&
+    (!where.mfaRecoveryCodes || stored.mfaRecoveryCodes.includes(where.mfaRecoveryCodes.has));
+
+  const db = {
+    user: {
+      async updateMany({ where, data }: { where: UserWhere; data: Partial<MfaUser> }) {
+        if (!matches(where)) {
+          return { count: 0 };
+        }
+        Object.assign(stored, data);
+        return { count: 1 };
+      },
+    },
+  };
+  return db as unknown as Prisma.TransactionClient;
+}
+
+function mfaUser(overrides: Partial<MfaUser> = {}): MfaUser {
+  return {
+    id: 'user-1',
+    mfaSecret: SECRET,
+    mfaEnabled: true,
+    mfaLastUsedStep: null,
+    mfaRecoveryCodes: [],
+    ...overrides,
+  };
+}
+
+describe('generateTotp', () => {
+  test('matches the RFC 6238 SHA-1 test vectors', () => {
+    // The RFC lists 8-digit codes; the last 6 digits are the 6-digit code
+    assert.equal(generateTotp(SECRET, new Date(59 * 1000)), '287082');
+    assert.equal(generateTotp(SECRET, new Date(1111111109 * 1000)), '081804');
+    assert.equal(generateTotp(SECRET, new Date(2000000000 * 1000)), '279037');
+  });
+});
+
+describe('verifyTotp', () => {
+  test('accepts codes from one step before or after the current one', () => {
+    assert.equal(verifyTotp(SECRET, generateHotp(SECRET, STEP), NOW), STEP);
+    assert.equal(verifyTotp(SECRET, generateHotp(SECRET, STEP - 1), NOW), STEP - 1);
+    assert.equal(verifyTotp(SECRET, generateHotp(SECRET, STEP + 1), NOW), STEP + 1);
+  });
+
+  test('rejects codes outside the window', () => {
+    assert.equal(verifyTotp(SECRET, generateHotp(SECRET, STEP - 2), NOW), null);
+    assert.equal(verifyTotp(SECRET, generateHotp(SECRET, STEP + 2), NOW), null);
+  });
+
+  test('uses the step boundaries of the given time', () => {
+    const code = generateHotp(SECRET, STEP);
+    assert.equal(verifyTotp(SECRET, code, atStep(STEP + 1)), STEP);
+    assert.equal(verifyTotp(SECRET, code, new Date(atStep(STEP + 2).getTime() - 1)), STEP);
+    assert.equal(verifyTotp(SECRET, code, atStep(STEP + 2)), null);
+  });
+
+  test('rejects codes that are malformed', () => {
+    const code = generateHotp(SECRET, STEP);
+    assert.equal(verifyTotp(SECRET, `${code.slice(0, 3)} ${code.slice(3)}`, NOW), STEP);
+    assert.equal(verifyTotp(SECRET, code.slice(1), NOW), null);
+    assert.equal(verifyTotp(SECRET, 'abcdef', NOW), null);
+  });
+
+  test('rejects the last used step and earlier ones', () => {
+    const code = generateHotp(SECRET, STEP);
+    assert.equal(verifyTotp(SECRET, code, NOW, STEP), null);
+    assert.equal(verifyTotp(SECRET, code, NOW, STEP + 1), null);
+    assert.equal(verifyTotp(SECRET, code, NOW, STEP - 1), STEP);
+  });
+});
+
+describe('verifySecondFactor', () => {
+  test('refuses users without MFA enabled', async () => {
+    const user = mfaUser({ mfaEnabled: false });
+    assert.equal(await verifySecondFactor(fakeDb(user), user, { code: generateTotp(SECRET, NOW) }, NOW), false);
+  });
+
+  test('accepts a TOTP code once and records its step', async () => {
+    const stored = mfaUser();
+    const db = fakeDb(stored);
+    const code = generateTotp(SECRET, NOW);
+
+    assert.equal(await verifySecondFactor(db, { ...stored }, { code }, NOW), true);
+    assert.equal(stored.mfaLastUsedStep, STEP);
+    assert.equal(await verifySecondFactor(db, { ...stored }, { code }, NOW), false);
+  });
+
+  test('rejects a replayed code checked against a stale read of the user', async () => {
+    const stored = mfaUser();
+    const db = fakeDb(stored);
+    const stale = { ...stored };
+    const code = generateTotp(SECRET, NOW);
+
+    // Both requests read the user before either recorded the step
+    assert.equal(await verifySecondFactor(db, stale, { code }, NOW), true);
+    assert.equal(await verifySecondFactor(db, stale, { code }, NOW), false);
+  });
+
+  test('rejects an older code in the window once a newer one was used', async () => {
+    const stored = mfaUser();
+    const db = fakeDb(stored);
+
+    assert.equal(await verifySecondFactor(db, { ...stored }, { code: generateHotp(SECRET, STEP) }, NOW), true);
+    assert.equal(await verifySecondFactor(db, { ...stored }, { code: generateHotp(SECRET, STEP - 1) }, NOW), false);
+    assert.equal(await verifySecondFactor(db, { ...stored }, { code: generateHotp(SECRET, STEP + 1) }, NOW), true);
+  });
+
+  test('accepts each recovery code once', async () => {
+    const { codes, hashes } = generateRecoveryCodes();
+    const stored = mfaUser({ mfaRecoveryCodes: hashes });
+    const db = fakeDb(stored);
+
+    assert.equal(await verifySecondFactor(db, { ...stored }, { recoveryCode: codes[0] }, NOW), true);
+    assert.equal(stored.mfaRecoveryCodes.length, hashes.length - 1);
+    assert.equal(await verifySecondFactor(db, { ...stored }, { recoveryCode: codes[0] }, NOW), false);
+    // A stale read still lists the code, but it is gone from the database
+    assert.equal(await verifySecondFactor(db, mfaUser({ mfaRecoveryCodes: hashes }), { recoveryCode: codes[0] }, NOW), false);
+
+    // The other codes still work, in any case and without the dash
+    assert.equal(
+      await verifySecondFactor(db, { ...stored }, { recoveryCode: codes[1].replace('-', '').toUpperCase() }, NOW),
+      true
+    );
+    assert.equal(stored.mfaRecoveryCodes.length, hashes.length - 2);
+  });
+
+  test('rejects unknown recovery codes', async () => {
+    const { hashes } = generateRecoveryCodes();
+    const stored = mfaUser({ mfaRecoveryCodes: hashes });
+    assert.equal(await verifySecondFactor(fakeDb(stored), stored, { recoveryCode: 'aaaaa-bbbbb' }, NOW), false);
+    assert.equal(stored.mfaRecoveryCodes.length, hashes.length);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Splitting subnets that have child subnets, against a real database. Runs only
+ * when DATABASE_URL points at a migrated PostgreSQL database.
+ */
+
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+
+describe('POST /api/subnets/:id/split', { skip: !process.env.DATABASE_URL && 'DATABASE_URL is not set' }, () => {
+  let app: typeof import('../src/index.js');
+  let baseUrl: string;
+  let token: string;
+  let userId: string;
+
+  // A 172.16.0.0/12 prefix for this run's /24s that other data is unlikely to use
+  const prefix = `172.${16 + Math.floor(Math.random() * 16)}.${Math.floor(Math.random() * 256)}`;
+
+  const split = (id: string, body: Record<string, unknown>) =>
+    fetch(`${baseUrl}/api/subnets/${id}/split`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify(body),
+    });
+
+  const createSubnet = (networkAddress: string, subnetMask: number, parentSubnetId?: string) =>
+    app.prisma.subnet.create({
+      data: {
+        networkAddress,
+        subnetMask,
+        ipVersion: 'IPv4',
+        cidr: `${networkAddress}/${subnetMask}`,
+        description: 'Split test',
+        parentSubnetId,
+      },
+    });
+
+  before(async () => {
+    process.env.PORT = '0';
+    process.env.JWT_SECRET ??= 'test-secret';
+    app = await import('../src/index.js');
+    if (!app.server.listening) {
+      await once(app.server, 'listening');
+    }
+    baseUrl = `http://127.0.0.1:${(app.server.address() as AddressInfo).port}`;
+
+    const { createSession } = await import('../src/utils/session.js');
+    const suffix = `${Date.now()}${Math.floor(Math.random() * 1000)}`;
+    const user = await app.prisma.user.create({
+      data: {
+        username: `split-test-${suffix}`,
+        email: `split-test-${suffix}@example.com`,
+        passwordHash: 'unused',
+        role: 'admin',
+      },
+    });
+    userId = user.id;
+    ({ token } = await createSession(app.prisma, user));
+  });
+
+  after(async () => {
+    if (!app) {
+      return;
+    }
+    // Children before their parents
+    const subnets = await app.prisma.subnet.findMany({
+      where: { networkAddress: { startsWith: `${prefix}.` } },
+      orderBy: { subnetMask: 'desc' },
+    });
+    for (const subnet of subnets) {
+      await app.prisma.subnet.delete({ where: { id: subnet.id } });
+    }
+    await app.prisma.user.deleteMany({ where: { id: userId } });
+    await app.prisma.$disconnect();
+    app.server.close();
+  });
+
+  test('refuses a split into parts as large as a child subnet', async () => {
+    const parent = await createSubnet(`${prefix}.0`, 24);
+    await createSubnet(`${prefix}.128`, 25, parent.id);
+
+    const response = await split(parent.id, { prefixLength: 25 });
+    assert.equal(response.status, 409);
+    assert.deepEqual((await response.json()).conflicts, [`${prefix}.128/25`]);
+    assert.ok(await app.prisma.subnet.findUnique({ where: { id: parent.id } }));
+  });
+
+  test('moves smaller child subnets to the part they fall into', async () => {
+    const parent = await app.prisma.subnet.findFirstOrThrow({ where: { cidr: `${prefix}.0/24` } });
+    const child = await app.prisma.subnet.findFirstOrThrow({ where: { cidr: `${prefix}.128/25` } });
+    await app.prisma.subnet.delete({ where: { id: child.id } });
+    const smaller = await createSubnet(`${prefix}.192`, 26, parent.id);
+
+    const response = await split(parent.id, { prefixLength: 25 });
+    assert.equal(response.status, 201);
+    const parts: { id: string; cidr: string }[] = (await response.json()).data;
+    assert.deepEqual(parts.map(part => part.cidr), [`${prefix}.0/25`, `${prefix}.128/25`]);
+
+    const moved = await app.prisma.subnet.findUniqueOrThrow({ where: { id: smaller.id } });
+    assert.equal(moved.parentSubnetId, parts[1].id);
+  });
+});